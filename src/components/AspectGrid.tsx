@@ -0,0 +1,26 @@
+import { forwardRef, useRef, type CSSProperties } from 'react';
+import { AspectGrid as AspectGridCore, type AspectGridOptions } from '../core/AspectGrid';
+import { useRendererInstance } from './useRendererInstance';
+
+export interface AspectGridProps extends AspectGridOptions {
+  className?: string;
+  style?: CSSProperties;
+}
+
+const createAspectGrid = (container: HTMLElement, options: AspectGridOptions) => new AspectGridCore(container, options);
+
+/**
+ * React component that renders an aspect grid (aspectarian).
+ *
+ * Drives the framework-agnostic AspectGrid class the way ChartWheel drives its core class.
+ * The forwarded ref receives the underlying AspectGrid instance.
+ */
+export const AspectGrid = forwardRef<AspectGridCore, AspectGridProps>(function AspectGrid(
+  { className, style, ...options },
+  ref
+) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  useRendererInstance(containerRef, createAspectGrid, options, ref);
+
+  return <div ref={containerRef} className={className} style={style} />;
+});
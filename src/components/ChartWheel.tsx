@@ -0,0 +1,27 @@
+import { forwardRef, useRef, type CSSProperties } from 'react';
+import { ChartWheel as ChartWheelCore, type ChartWheelOptions } from '../core/ChartWheel';
+import { useRendererInstance } from './useRendererInstance';
+
+export interface ChartWheelProps extends ChartWheelOptions {
+  className?: string;
+  style?: CSSProperties;
+}
+
+const createChartWheel = (container: HTMLElement, options: ChartWheelOptions) => new ChartWheelCore(container, options);
+
+/**
+ * React component that renders a chart wheel.
+ *
+ * Owns a container element and drives the framework-agnostic ChartWheel class:
+ * the instance is created on mount, updated when props change and destroyed on unmount.
+ * The forwarded ref receives the underlying ChartWheel instance.
+ */
+export const ChartWheel = forwardRef<ChartWheelCore, ChartWheelProps>(function ChartWheel(
+  { className, style, ...options },
+  ref
+) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  useRendererInstance(containerRef, createChartWheel, options, ref);
+
+  return <div ref={containerRef} className={className} style={style} />;
+});
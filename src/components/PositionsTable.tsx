@@ -0,0 +1,163 @@
+import { useMemo, type CSSProperties } from 'react';
+import type { RenderResponse } from '@gaia-tools/iris-core';
+import type { GlyphConfig } from '@gaia-tools/aphrodite';
+import {
+  mergeGlyphConfig,
+  getObjectInfo,
+  getSignName,
+  formatDegreesMinutes,
+  formatSignDegreesMinutes,
+} from '../utils/chartWheelHelpers';
+import { CuspPosition, buildLayerPositions } from '../utils/positions';
+import { GlyphSet, GlyphSource, resolveGlyphSet, getSignGlyph, getObjectGlyph } from '../utils/glyphSets';
+
+export interface PositionsTableProps {
+  renderData: RenderResponse;
+  /**
+   * Layers to list, in order (default: every layer of the chart)
+   */
+  layerIds?: string[];
+  glyphConfig?: GlyphConfig;
+  /**
+   * Glyphs keyed by id, as for ChartWheel: the name of a registered set ('svg' is built in) or the set itself
+   */
+  glyphSet?: string | GlyphSet;
+  /**
+   * List each layer's angles and house cusps under its planets (default: true)
+   */
+  showHouses?: boolean;
+  className?: string;
+  style?: CSSProperties;
+}
+
+/**
+ * Daily motion with its direction, e.g. "0°57'" or "-0°12'"
+ */
+function formatSpeed(speed: number): string {
+  return `${speed < 0 ? '-' : ''}${formatDegreesMinutes(Math.abs(speed))}`;
+}
+
+/**
+ * A glyph in the text flow: Unicode as text, path and symbol glyphs as a 1em inline SVG in the text colour
+ */
+function renderGlyph(glyph: GlyphSource) {
+  if (typeof glyph === 'string') return glyph;
+  const size = 'symbol' in glyph ? 100 : (glyph.size ?? 100);
+  return (
+    <svg width="1em" height="1em" viewBox={`0 0 ${size} ${size}`} style={{ verticalAlign: '-0.125em' }}>
+      {'symbol' in glyph ? (
+        <use href={`#${glyph.symbol}`} width={size} height={size} fill="currentColor" />
+      ) : glyph.stroke ? (
+        <path
+          d={glyph.path}
+          fill="none"
+          stroke="currentColor"
+          strokeWidth={size * 0.07}
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        />
+      ) : (
+        <path d={glyph.path} fill="currentColor" />
+      )}
+    </svg>
+  );
+}
+
+/**
+ * React component that lists each layer's planet positions (sign, degree, house, speed, retrograde)
+ * and its angles and house cusps as tables, with the chart's glyphs
+ */
+export function PositionsTable({
+  renderData,
+  layerIds,
+  glyphConfig,
+  glyphSet,
+  showHouses = true,
+  className,
+  style,
+}: PositionsTableProps) {
+  const layers = useMemo(() => buildLayerPositions(renderData, layerIds), [renderData, layerIds]);
+  const glyphs = useMemo(() => mergeGlyphConfig(glyphConfig), [glyphConfig]);
+  const resolvedGlyphSet = resolveGlyphSet(glyphSet);
+
+  const renderSign = (signIndex: number) => (
+    <>
+      <span className="positions-glyph" aria-hidden="true">
+        {renderGlyph(getSignGlyph(signIndex, resolvedGlyphSet, glyphs) ?? '')}
+      </span>{' '}
+      {getSignName(signIndex)}
+    </>
+  );
+
+  const renderCusp = (cusp: CuspPosition) => (
+    <tr key={cusp.id} className={`cusp-${cusp.id}`}>
+      <th scope="row">{cusp.label}</th>
+      <td>{renderSign(cusp.signIndex)}</td>
+      <td>{formatSignDegreesMinutes(cusp.lon)}</td>
+    </tr>
+  );
+
+  return (
+    <div className={className ? `positions-table ${className}` : 'positions-table'} style={style}>
+      {layers.map((layer) => (
+        <section key={layer.layerId} className={`positions-layer layer-${layer.layerId}`}>
+          <table className="positions-planets">
+            <caption>{layer.label}</caption>
+            <thead>
+              <tr>
+                <th scope="col">Planet</th>
+                <th scope="col">Sign</th>
+                <th scope="col">Degree</th>
+                <th scope="col">House</th>
+                <th scope="col">Speed</th>
+                <th scope="col">
+                  <abbr title="Retrograde">Rx</abbr>
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {layer.planets.map((planet) => (
+                <tr
+                  key={planet.objectId}
+                  className={`planet-${planet.objectId}${planet.retrograde ? ' retrograde' : ''}`}
+                >
+                  <th scope="row">
+                    <span className="positions-glyph" aria-hidden="true">
+                      {renderGlyph(
+                        getObjectGlyph(planet.objectId, resolvedGlyphSet, glyphs) ||
+                          getObjectInfo(planet.objectId).label.slice(0, 3)
+                      )}
+                    </span>{' '}
+                    {planet.label}
+                  </th>
+                  <td>{renderSign(planet.signIndex)}</td>
+                  <td>{formatSignDegreesMinutes(planet.lon)}</td>
+                  <td>{planet.house ?? ''}</td>
+                  <td>{formatSpeed(planet.speed)}</td>
+                  <td>{planet.retrograde ? <span title="Retrograde">℞</span> : ''}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {showHouses && layer.angles.length + layer.cusps.length > 0 && (
+            <table className="positions-houses">
+              <caption>{`${layer.label} houses`}</caption>
+              <thead>
+                <tr>
+                  <th scope="col">Cusp</th>
+                  <th scope="col">Sign</th>
+                  <th scope="col">Degree</th>
+                </tr>
+              </thead>
+              <tbody>
+                {layer.angles.map(renderCusp)}
+                {layer.cusps.map(renderCusp)}
+              </tbody>
+            </table>
+          )}
+        </section>
+      ))}
+    </div>
+  );
+}
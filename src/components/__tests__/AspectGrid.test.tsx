@@ -0,0 +1,49 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render } from '@testing-library/react';
+import { createRef } from 'react';
+import { AspectGrid } from '../AspectGrid';
+import { AspectGrid as AspectGridCore } from '../../core/AspectGrid';
+import { buildIndexes } from '../../utils/buildIndexes';
+import { createRenderResponseWithAspects, createMultiLayerRenderResponse } from '../../test/fixtures';
+
+describe('AspectGrid', () => {
+  it('renders the grid into its container and passes the instance to the ref', () => {
+    const renderData = createRenderResponseWithAspects();
+    const ref = createRef<AspectGridCore>();
+    const { container, unmount } = render(
+      <AspectGrid ref={ref} renderData={renderData} indexes={buildIndexes(renderData)} className="grid" />
+    );
+
+    expect(container.querySelector('div.grid > svg.aspect-grid')).not.toBeNull();
+    expect(ref.current).toBeInstanceOf(AspectGridCore);
+
+    unmount();
+    expect(ref.current).toBeNull();
+  });
+
+  it('updates the grid when props change', () => {
+    const renderData = createRenderResponseWithAspects();
+    const { container, rerender } = render(<AspectGrid renderData={renderData} indexes={buildIndexes(renderData)} />);
+    expect(container.querySelector('.aspect-grid-triangle')).not.toBeNull();
+
+    const multiLayer = createMultiLayerRenderResponse();
+    rerender(<AspectGrid renderData={multiLayer} indexes={buildIndexes(multiLayer)} />);
+    expect(container.querySelector('.aspect-grid-rectangle')).not.toBeNull();
+  });
+
+  it('calls the latest hover callback', () => {
+    const renderData = createRenderResponseWithAspects();
+    const indexes = buildIndexes(renderData);
+    const first = vi.fn();
+    const second = vi.fn();
+    const { container, rerender } = render(
+      <AspectGrid renderData={renderData} indexes={indexes} onHighlightChange={first} />
+    );
+    rerender(<AspectGrid renderData={renderData} indexes={indexes} onHighlightChange={second} />);
+
+    container.querySelector('.aspect-cell')!.dispatchEvent(new MouseEvent('mouseenter'));
+
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledWith(expect.objectContaining({ aspectIds: ['aspect-1'] }));
+  });
+});
@@ -1,6 +1,8 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { render, screen, waitFor } from '@testing-library/react';
+import { createRef } from 'react';
 import { ChartWheel } from '../ChartWheel';
+import { ChartWheel as ChartWheelCore } from '../../core/ChartWheel';
 import { createMockRenderResponse, createMinimalRenderResponse } from '../../test/fixtures';
 import type { RenderResponse, IndexesDTO } from '@gaia-tools/iris-core';
 
@@ -14,6 +16,12 @@ vi.mock('d3', () => {
       on: vi.fn().mockReturnThis(),
       text: vi.fn().mockReturnThis(),
       call: vi.fn().mockReturnThis(),
+      select: vi.fn().mockReturnThis(),
+      selectChildren: vi.fn().mockReturnThis(),
+      data: vi.fn().mockReturnThis(),
+      join: vi.fn().mockReturnThis(),
+      order: vi.fn().mockReturnThis(),
+      each: vi.fn().mockReturnThis(),
       append: vi.fn().mockReturnThis(),
       selectAll: vi.fn().mockReturnThis(),
       remove: vi.fn(),
@@ -35,16 +43,20 @@ vi.mock('d3', () => {
   return {
     select: vi.fn(() => svgChainable),
     zoom: vi.fn(() => ({
+      extent: vi.fn().mockReturnThis(),
       scaleExtent: vi.fn().mockReturnThis(),
       translateExtent: vi.fn().mockReturnThis(),
       on: vi.fn().mockReturnThis(),
     })),
-    arc: vi.fn(() => ({
-      innerRadius: vi.fn().mockReturnThis(),
-      outerRadius: vi.fn().mockReturnThis(),
-      startAngle: vi.fn().mockReturnThis(),
-      endAngle: vi.fn().mockReturnThis(),
-    })),
+    // The arc generator is callable (returns path data) and configurable
+    arc: vi.fn(() =>
+      Object.assign(vi.fn(() => 'M0,0'), {
+        innerRadius: vi.fn().mockReturnThis(),
+        outerRadius: vi.fn().mockReturnThis(),
+        startAngle: vi.fn().mockReturnThis(),
+        endAngle: vi.fn().mockReturnThis(),
+      })
+    ),
     zoomIdentity: {},
   };
 });
@@ -338,5 +350,101 @@ describe('ChartWheel', () => {
     expect(svg).toHaveAttribute('width', '1000');
     expect(svg).toHaveAttribute('height', '1000');
   });
-});
 
+  it('forwards a ref to the underlying ChartWheel instance', () => {
+    const ref = createRef<ChartWheelCore>();
+
+    const { unmount } = render(
+      <ChartWheel ref={ref} renderData={mockRenderData} indexes={mockIndexes} />
+    );
+
+    expect(ref.current).toBeInstanceOf(ChartWheelCore);
+
+    unmount();
+    expect(ref.current).toBeNull();
+  });
+
+  it('updates the instance only when props change', () => {
+    const updateSpy = vi.spyOn(ChartWheelCore.prototype, 'update');
+
+    const { rerender } = render(
+      <ChartWheel renderData={mockRenderData} indexes={mockIndexes} width={800} onItemClick={() => {}} />
+    );
+
+    // A new inline handler alone should not redraw the chart
+    rerender(
+      <ChartWheel renderData={mockRenderData} indexes={mockIndexes} width={800} onItemClick={() => {}} />
+    );
+    expect(updateSpy).not.toHaveBeenCalled();
+
+    rerender(
+      <ChartWheel renderData={mockRenderData} indexes={mockIndexes} width={600} onItemClick={() => {}} />
+    );
+    expect(updateSpy).toHaveBeenCalledTimes(1);
+    expect(updateSpy).toHaveBeenCalledWith(expect.objectContaining({ width: 600 }));
+
+    updateSpy.mockRestore();
+  });
+
+  it('calls the latest onItemClick handler without recreating the chart', () => {
+    const ref = createRef<ChartWheelCore>();
+    const first = vi.fn();
+    const second = vi.fn();
+
+    const { rerender } = render(
+      <ChartWheel ref={ref} renderData={mockRenderData} indexes={mockIndexes} onItemClick={first} />
+    );
+    rerender(
+      <ChartWheel ref={ref} renderData={mockRenderData} indexes={mockIndexes} onItemClick={second} />
+    );
+
+    const options = (ref.current as unknown as { options: { onItemClick: (...args: unknown[]) => void } }).options;
+    options.onItemClick(mockRenderData.wheel.rings[0].items![0], mockRenderData.wheel.rings[0]);
+
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledTimes(1);
+  });
+
+  it('destroys the instance on unmount', () => {
+    const destroySpy = vi.spyOn(ChartWheelCore.prototype, 'destroy');
+
+    const { unmount, container } = render(
+      <ChartWheel renderData={mockRenderData} indexes={mockIndexes} className="chart" />
+    );
+    expect(container.querySelector('.chart svg')).toBeInTheDocument();
+
+    unmount();
+
+    expect(destroySpy).toHaveBeenCalledTimes(1);
+    destroySpy.mockRestore();
+  });
+
+  it('keeps an uncontrolled selection starting from defaultSelectedIds', () => {
+    const ref = createRef<ChartWheelCore>();
+
+    const { rerender } = render(
+      <ChartWheel ref={ref} renderData={mockRenderData} indexes={mockIndexes} defaultSelectedIds={['natal:planet:sun']} />
+    );
+    expect(ref.current!.getSelectedIds()).toEqual(['natal:planet:sun']);
+
+    // Later defaults don't reset the selection
+    rerender(
+      <ChartWheel ref={ref} renderData={mockRenderData} indexes={mockIndexes} defaultSelectedIds={['natal:planet:moon']} />
+    );
+    expect(ref.current!.getSelectedIds()).toEqual(['natal:planet:sun']);
+  });
+
+  it('follows a controlled selectedIds prop', () => {
+    const ref = createRef<ChartWheelCore>();
+
+    const { rerender } = render(
+      <ChartWheel ref={ref} renderData={mockRenderData} indexes={mockIndexes} selectedIds={['natal:planet:sun']} />
+    );
+    expect(ref.current!.getSelectedIds()).toEqual(['natal:planet:sun']);
+
+    rerender(
+      <ChartWheel ref={ref} renderData={mockRenderData} indexes={mockIndexes} selectedIds={['natal:planet:sun', 'aspect-1']} />
+    );
+    expect(ref.current!.getSelectedIds()).toEqual(['natal:planet:sun', 'aspect-1']);
+  });
+});
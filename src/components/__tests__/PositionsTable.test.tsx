@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import { PositionsTable } from '../PositionsTable';
+import { createMockRenderResponse, createMultiLayerRenderResponse } from '../../test/fixtures';
+
+describe('PositionsTable', () => {
+  it("lists each layer's planets with sign, degree, house, speed and retrograde flag", () => {
+    const renderData = createMockRenderResponse();
+    renderData.layers.natal.positions.planets.mercury.retrograde = true;
+    renderData.layers.natal.positions.planets.mercury.speedLon = -0.2;
+    render(<PositionsTable renderData={renderData} />);
+
+    const table = screen.getByRole('table', { name: 'Natal' });
+    const sun = within(table).getByRole('row', { name: /Sun/ });
+    expect(within(sun).getAllByRole('cell').map((cell) => cell.textContent)).toEqual([
+      '♑ Capricorn',
+      "10°30'",
+      '10',
+      "0°57'",
+      '',
+    ]);
+
+    const mercury = within(table).getByRole('row', { name: /Mercury/ });
+    expect(mercury).toHaveClass('retrograde');
+    expect(within(mercury).getAllByRole('cell').map((cell) => cell.textContent)).toEqual([
+      '♑ Capricorn',
+      '5°',
+      '9',
+      "-0°12'",
+      '℞',
+    ]);
+  });
+
+  it('lists angles and house cusps', () => {
+    render(<PositionsTable renderData={createMockRenderResponse()} />);
+
+    const table = screen.getByRole('table', { name: 'Natal houses' });
+    const rows = within(table).getAllByRole('row').slice(1);
+    expect(rows).toHaveLength(16);
+    expect(within(rows[0]).getByRole('rowheader')).toHaveTextContent('Asc');
+    expect(within(rows[4]).getAllByRole('cell').map((cell) => cell.textContent)).toEqual(['♈ Aries', '15°']);
+  });
+
+  it('uses the glyph config and can leave out the houses', () => {
+    render(
+      <PositionsTable
+        renderData={createMockRenderResponse()}
+        glyphConfig={{ planetGlyphs: { 0: 'Su' }, signGlyphs: { 9: 'Cp' } }}
+        showHouses={false}
+      />
+    );
+
+    // Glyphs are hidden from screen readers, which read the names
+    expect(screen.getByRole('rowheader', { name: 'Sun' })).toHaveTextContent('Su Sun');
+    expect(screen.getAllByText('Capricorn')[0].parentElement).toHaveTextContent('Cp Capricorn');
+    expect(screen.queryByRole('table', { name: 'Natal houses' })).toBeNull();
+  });
+
+  it('draws path glyphs from a glyph set as inline SVG', () => {
+    render(<PositionsTable renderData={createMockRenderResponse()} glyphSet="svg" showHouses={false} />);
+
+    const sun = screen.getByRole('rowheader', { name: 'Sun' });
+    expect(sun.querySelector('svg path')).toHaveAttribute('stroke', 'currentColor');
+    expect(sun).toHaveTextContent(/^Sun$/);
+  });
+
+  it('lists the given layers in order', () => {
+    render(<PositionsTable renderData={createMultiLayerRenderResponse()} layerIds={['transit', 'natal']} />);
+
+    expect(screen.getAllByRole('table').map((table) => table.querySelector('caption')?.textContent)).toEqual([
+      'Transits',
+      'Natal',
+      'Natal houses',
+    ]);
+  });
+});
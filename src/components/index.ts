@@ -1,3 +1,7 @@
-// Re-export ChartWheel from aphrodite-core (moved from this package)
-export { ChartWheel, type ChartWheelOptions, type Theme } from '@gaia-tools/aphrodite-core';
+export { ChartWheel, type ChartWheelProps } from './ChartWheel';
+export { AspectGrid, type AspectGridProps } from './AspectGrid';
+export { PositionsTable, type PositionsTableProps } from './PositionsTable';
 
+// Framework-agnostic renderers driven by the components
+export { ChartWheel as ChartWheelCore, type ChartWheelOptions, type Theme } from '../core/ChartWheel';
+export { AspectGrid as AspectGridCore, type AspectGridOptions } from '../core/AspectGrid';
@@ -0,0 +1,109 @@
+import { useEffect, useRef, type ForwardedRef, type RefObject } from 'react';
+
+type Callback = (...args: unknown[]) => unknown;
+
+/**
+ * A framework-agnostic renderer driven by a React component (ChartWheel, AspectGrid)
+ */
+interface Renderer<TOptions> {
+  update(options: Partial<TOptions>): void;
+  destroy(): void;
+}
+
+/**
+ * Replace callback props with stable wrappers that always call the latest prop.
+ * Inline handlers get a new identity on every parent render; forwarding them as-is
+ * would make every render look like an options change and redraw the chart.
+ */
+function withStableCallbacks<TOptions extends object>(
+  options: TOptions,
+  latest: { current: TOptions },
+  cache: Partial<Record<string, Callback>>
+): TOptions {
+  const result: Record<string, unknown> = { ...(options as Record<string, unknown>) };
+  for (const [key, value] of Object.entries(options)) {
+    if (typeof value !== 'function') continue;
+    if (!cache[key]) {
+      cache[key] = (...args: unknown[]) => {
+        const handler = (latest.current as unknown as Record<string, unknown>)[key];
+        return typeof handler === 'function' ? handler(...args) : undefined;
+      };
+    }
+    result[key] = cache[key];
+  }
+  return result as unknown as TOptions;
+}
+
+/**
+ * Shallow comparison of two option objects (callbacks are already stable)
+ */
+function shallowEqualOptions<TOptions extends object>(a: TOptions, b: TOptions): boolean {
+  const aKeys = Object.keys(a) as (keyof TOptions)[];
+  const bKeys = Object.keys(b) as (keyof TOptions)[];
+  if (aKeys.length !== bKeys.length) return false;
+  return aKeys.every((key) => a[key] === b[key]);
+}
+
+function assignRef<T>(ref: ForwardedRef<T>, value: T | null): void {
+  if (typeof ref === 'function') {
+    ref(value);
+  } else if (ref) {
+    ref.current = value;
+  }
+}
+
+/**
+ * Drive a renderer from props: the instance is created on mount, updated when props change
+ * and destroyed on unmount. The forwarded ref receives the instance.
+ */
+export function useRendererInstance<TInstance extends Renderer<TOptions>, TOptions extends object>(
+  containerRef: RefObject<HTMLElement>,
+  create: (container: HTMLElement, options: TOptions) => TInstance,
+  options: TOptions,
+  ref: ForwardedRef<TInstance>
+): void {
+  const instanceRef = useRef<TInstance | null>(null);
+  const latestOptionsRef = useRef<TOptions>(options);
+  const callbackCacheRef = useRef<Partial<Record<string, Callback>>>({});
+  const appliedOptionsRef = useRef<TOptions | null>(null);
+
+  latestOptionsRef.current = options;
+  const stableOptions = withStableCallbacks(options, latestOptionsRef, callbackCacheRef.current);
+  const mountArgsRef = useRef({ create, ref, stableOptions });
+  mountArgsRef.current = { create, ref, stableOptions };
+
+  // Create the instance on mount, destroy it on unmount. It is created from the props of the render that
+  // mounted it; later options changes are handled by the update effect below.
+  useEffect(() => {
+    if (!containerRef.current) return;
+
+    const { create, ref, stableOptions } = mountArgsRef.current;
+    const instance = create(containerRef.current, stableOptions);
+    instanceRef.current = instance;
+    appliedOptionsRef.current = stableOptions;
+    assignRef(ref, instance);
+
+    return () => {
+      instance.destroy();
+      instanceRef.current = null;
+      appliedOptionsRef.current = null;
+      assignRef(ref, null);
+    };
+  }, [containerRef]);
+
+  // Push changed options to the instance
+  useEffect(() => {
+    const instance = instanceRef.current;
+    const applied = appliedOptionsRef.current;
+    if (!instance || !applied || shallowEqualOptions(applied, stableOptions)) return;
+
+    // update() merges, so props that were removed must be cleared explicitly
+    const next: Record<string, unknown> = { ...(stableOptions as Record<string, unknown>) };
+    for (const key of Object.keys(applied)) {
+      if (!(key in next)) next[key] = undefined;
+    }
+
+    instance.update(next as Partial<TOptions>);
+    appliedOptionsRef.current = stableOptions;
+  });
+}
@@ -0,0 +1,165 @@
+import { RingItemDTO, RingDTO, AspectPairDTO } from '@gaia-tools/iris-core';
+import { AspectGridSceneOptions, buildAspectGridScene, getAspectGridColorVariables } from './aspectGridScene';
+import { SceneInteraction, SVG_NAMESPACE } from './scene';
+import { syncSceneElement } from './sceneJoin';
+import { ChartHighlight, getItemHighlight, getAspectHighlight } from '../utils/hover';
+import { resolveColorScheme, watchColorScheme } from '../utils/themes';
+import { applyColorScheme, clearCssVariables } from '../utils/cssVariables';
+
+export interface AspectGridOptions extends AspectGridSceneOptions {
+  onItemClick?: (item: RingItemDTO, ring: RingDTO) => void;
+  onAspectClick?: (aspect: AspectPairDTO) => void;
+  /**
+   * Called when the pointer enters an aspect cell, and with null when it leaves
+   */
+  onAspectHover?: (aspect: AspectPairDTO | null) => void;
+  /**
+   * Called with the hover highlight when the pointer enters or leaves an object or aspect.
+   * Pass it to the wheel's highlight (and the wheel's onHighlightChange to this grid's) to share hovering.
+   */
+  onHighlightChange?: (highlight: ChartHighlight | null) => void;
+  /**
+   * Called when drawing the grid fails; without it, the error is thrown (see ChartWheel)
+   */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * AspectGrid class - renders the aspect grid (aspectarian) of one aspect set of a RenderResponse
+ *
+ * Framework-agnostic like ChartWheel; shares its scene graph and keyed joins.
+ */
+export class AspectGrid {
+  private container: HTMLElement;
+  private svgElement: SVGSVGElement | null = null;
+  private options: AspectGridOptions;
+  private hovered: SceneInteraction | null = null;
+  /**
+   * Stops following the page's colour scheme; set while colorScheme is 'auto'
+   */
+  private unwatchColorScheme: (() => void) | null = null;
+  /**
+   * Custom properties set on the SVG by a colour scheme switch, until the next render draws the grid in the scheme
+   */
+  private schemeVariables: string[] = [];
+
+  constructor(container: HTMLElement, options: AspectGridOptions) {
+    this.container = container;
+    this.options = options;
+    this.updateColorSchemeWatch();
+    this.render();
+  }
+
+  /**
+   * Render the grid. Later renders update the SVG in place through keyed data joins.
+   */
+  render(): void {
+    try {
+      const scene = buildAspectGridScene({
+        ...this.options,
+        highlight: this.getHoverHighlight() ?? this.options.highlight,
+      });
+
+      if (!this.svgElement) {
+        this.container.innerHTML = '';
+        this.svgElement = document.createElementNS(SVG_NAMESPACE, 'svg') as SVGSVGElement;
+        this.container.appendChild(this.svgElement);
+      }
+
+      syncSceneElement(this.svgElement, scene, (interaction, event) => this.handleInteraction(interaction, event));
+      clearCssVariables(this.svgElement, this.schemeVariables);
+      this.schemeVariables = [];
+    } catch (error) {
+      if (!this.options.onError) throw error;
+      this.options.onError(error);
+    }
+  }
+
+  /**
+   * With colorScheme 'auto', follow the page when it switches between light and dark; otherwise don't listen
+   */
+  private updateColorSchemeWatch(): void {
+    if (this.options.colorScheme !== 'auto') {
+      this.unwatchColorScheme?.();
+      this.unwatchColorScheme = null;
+    } else if (!this.unwatchColorScheme) {
+      this.unwatchColorScheme = watchColorScheme(() => this.switchColorScheme());
+    }
+  }
+
+  /**
+   * Follow a change of the page's colour scheme without re-rendering, through the custom properties the colours read
+   * (see ChartWheel)
+   */
+  private switchColorScheme(): void {
+    if (!this.svgElement) return;
+    clearCssVariables(this.svgElement, this.schemeVariables);
+    this.schemeVariables = applyColorScheme(
+      this.svgElement,
+      resolveColorScheme(this.options.colorScheme),
+      getAspectGridColorVariables(this.options)
+    );
+  }
+
+  /**
+   * Clicks go to the click callbacks, hovering to the highlight and hover callbacks
+   */
+  private handleInteraction(interaction: SceneInteraction, event: Event): void {
+    switch (event.type) {
+      case 'mouseenter':
+        this.setHovered(interaction);
+        break;
+      case 'mouseleave':
+        this.setHovered(null);
+        break;
+      case 'click':
+        if (interaction.kind === 'item') {
+          this.options.onItemClick?.(interaction.item, interaction.ring);
+        } else {
+          this.options.onAspectClick?.(interaction.aspect);
+        }
+        break;
+    }
+  }
+
+  private setHovered(interaction: SceneInteraction | null): void {
+    const previous = this.hovered;
+    this.hovered = interaction;
+    this.render();
+
+    if ((interaction ?? previous)?.kind === 'aspect') {
+      this.options.onAspectHover?.(interaction?.kind === 'aspect' ? interaction.aspect : null);
+    }
+    this.options.onHighlightChange?.(this.getHoverHighlight());
+  }
+
+  private getHoverHighlight(): ChartHighlight | null {
+    if (!this.hovered) return null;
+    return this.hovered.kind === 'item'
+      ? getItemHighlight(this.hovered.item, this.hovered.ring, this.options.indexes)
+      : getAspectHighlight(this.hovered.aspect);
+  }
+
+  /**
+   * Update the grid with new options
+   */
+  update(options: Partial<AspectGridOptions>): void {
+    this.options = { ...this.options, ...options };
+    this.updateColorSchemeWatch();
+    this.render();
+  }
+
+  /**
+   * Destroy the grid instance and clean up
+   */
+  destroy(): void {
+    this.unwatchColorScheme?.();
+    this.unwatchColorScheme = null;
+    if (this.container) {
+      this.container.innerHTML = '';
+    }
+    this.svgElement = null;
+    this.hovered = null;
+    this.schemeVariables = [];
+  }
+}
@@ -0,0 +1,621 @@
+import * as d3 from 'd3';
+import { RenderResponse, RingItemDTO, RingDTO, AspectPairDTO } from '@gaia-tools/iris-core';
+import {
+  ChartSceneOptions,
+  buildChartScene,
+  getChartColorVariables,
+  resolveChartData,
+  resolveNavigationOrder,
+  resolveRotationOffset,
+  resolveWheelCoordinates,
+} from './chartScene';
+import { SceneInteraction, SVG_NAMESPACE } from './scene';
+import { syncSceneElement } from './sceneJoin';
+import { ExportImageOptions, buildExportSvg, collectChartStyles, collectChartVariables, collectPageFonts, defaultExportStyles, rasterizeSvg } from './exportImage';
+import { buildIndexes } from '../utils/buildIndexes';
+import { ChartTransition, interpolateRenderData, interpolateRotation } from '../utils/transitions';
+import { ChartHighlight, TooltipContent, getItemHighlight, getAspectHighlight, describeItem, describeAspect } from '../utils/hover';
+import { nextSelection } from '../utils/selection';
+import { deriveLogicalIdFromRingItem } from '../utils/buildIndexes';
+import { SummaryTable, buildChartSummary, getItemKey } from '../utils/accessibility';
+import { svgToAstroAngle } from '../utils/chartWheelHelpers';
+import { resolveColorScheme, watchColorScheme } from '../utils/themes';
+import { applyColorScheme, clearCssVariables } from '../utils/cssVariables';
+
+// Note: CSS should be imported separately by the consumer
+// import '../components/ChartWheel.css';
+
+export type { Theme, ColorScheme } from '../utils/chartWheelHelpers';
+
+export interface ChartWheelOptions extends ChartSceneOptions {
+  /**
+   * Animate updates: planets move along the wheel and the rotation turns to its new value.
+   * Off by default (updates apply immediately).
+   */
+  transition?: ChartTransition;
+  onItemClick?: (item: RingItemDTO, ring: RingDTO) => void;
+  onAspectClick?: (aspect: AspectPairDTO) => void;
+  /**
+   * Show a tooltip with position and aspect details when hovering items and aspects (default: true)
+   */
+  showTooltip?: boolean;
+  /**
+   * Called when the pointer enters an item, and with nulls when it leaves
+   */
+  onItemHover?: (item: RingItemDTO | null, ring: RingDTO | null) => void;
+  /**
+   * Called when the pointer enters an aspect line, and with null when it leaves
+   */
+  onAspectHover?: (aspect: AspectPairDTO | null) => void;
+  /**
+   * Called with the hover highlight when the pointer enters or leaves an object or aspect, e.g. to pass to an AspectGrid
+   */
+  onHighlightChange?: (highlight: ChartHighlight | null) => void;
+  /**
+   * Initial selection when the selection is uncontrolled (selectedIds not set)
+   */
+  defaultSelectedIds?: string[];
+  /**
+   * Called with the new selection when the user clicks an object or aspect (shift-click adds to the selection).
+   * When selectedIds is set the selection is controlled and only changes through update().
+   */
+  onSelectionChange?: (selectedIds: string[]) => void;
+  /**
+   * Add a visually hidden table of positions and aspects for screen readers (default: false)
+   */
+  accessibleTable?: boolean;
+  /**
+   * Called with the pointer's dial position while the user drags the dial pointer
+   */
+  onDialPointerChange?: (lon: number) => void;
+  /**
+   * Called when drawing the chart fails. Without it, the error is thrown from the call that rendered
+   * (the constructor, update() or the interaction).
+   */
+  onError?: (error: unknown) => void;
+}
+
+const DEFAULT_TRANSITION_DURATION = 750;
+
+/**
+ * ChartWheel class - renders a chart wheel from RenderResponse
+ * 
+ * Framework-agnostic class that uses D3 to render astrological charts.
+ * Can be used from React, Vue, vanilla JS, or any other framework.
+ */
+export class ChartWheel {
+  private container: HTMLElement;
+  private svgElement: SVGSVGElement | null = null;
+  private svg: d3.Selection<SVGSVGElement, unknown, null, undefined> | null = null;
+  private zoom: d3.ZoomBehavior<SVGSVGElement, unknown> | null = null;
+  private options: ChartWheelOptions;
+  private transitionTimer: d3.Timer | null = null;
+  /**
+   * Chart state currently on screen (mid-transition, the interpolated state)
+   */
+  private displayed: { renderData: RenderResponse; rotation: number } | null = null;
+  private hovered: SceneInteraction | null = null;
+  private tooltip: HTMLDivElement | null = null;
+  /**
+   * Selection while uncontrolled
+   */
+  private selection: string[];
+  /**
+   * Item in the tab order, moved with the arrow keys
+   */
+  private activeItemKey: string | null = null;
+  private summary: HTMLDivElement | null = null;
+  private summaryData: RenderResponse | null = null;
+  /**
+   * Dial and object category options the summary was built with
+   */
+  private summaryOptions: string | null = null;
+  /**
+   * Dial pointer position after dragging, until update() sets a new dial
+   */
+  private dialPointer: number | null = null;
+  /**
+   * Stops following the page's colour scheme; set while colorScheme is 'auto'
+   */
+  private unwatchColorScheme: (() => void) | null = null;
+  /**
+   * Custom properties set on the SVG by a colour scheme switch, until the next render draws the chart in the scheme
+   */
+  private schemeVariables: string[] = [];
+
+  constructor(container: HTMLElement, options: ChartWheelOptions) {
+    this.container = container;
+    this.options = options;
+    this.selection = options.defaultSelectedIds ?? [];
+    this.updateColorSchemeWatch();
+    this.render();
+  }
+
+  /**
+   * Render the chart.
+   * The first render creates the SVG; later renders update it in place through keyed data joins,
+   * so only changed elements are touched and the zoom/pan state is kept.
+   */
+  render(): void {
+    this.renderScene(this.options);
+    this.renderSummary();
+  }
+
+  /**
+   * Scene options with what the user changed on the chart: the selection, the focused item and the dragged dial pointer
+   */
+  private withInteractiveState(sceneOptions: ChartSceneOptions): ChartSceneOptions {
+    return {
+      ...sceneOptions,
+      selectedIds: this.getSelectedIds(),
+      activeItemKey: this.activeItemKey,
+      dial:
+        sceneOptions.dial && this.dialPointer !== null
+          ? { ...sceneOptions.dial, pointer: this.dialPointer }
+          : sceneOptions.dial,
+    };
+  }
+
+  /**
+   * Render the given chart state
+   */
+  private renderScene(sceneOptions: ChartSceneOptions): void {
+    try {
+      const { width = 800, height = 800 } = sceneOptions;
+      const scene = buildChartScene({
+        ...this.withInteractiveState(sceneOptions),
+        highlight: this.getHoverHighlight() ?? sceneOptions.highlight,
+      });
+
+      if (!this.svg) {
+        // Clear container
+        this.container.innerHTML = '';
+        this.container.style.overflow = 'hidden';
+        // The tooltip is positioned relative to the container
+        if (getComputedStyle(this.container).position === 'static') {
+          this.container.style.position = 'relative';
+        }
+        const svgElement = document.createElementNS(SVG_NAMESPACE, 'svg') as SVGSVGElement;
+        this.container.appendChild(svgElement);
+        this.svgElement = svgElement;
+        this.svg = d3.select(svgElement);
+      }
+      const svg = this.svg;
+
+      syncSceneElement(this.svgElement!, scene, (interaction, event) => this.handleInteraction(interaction, event));
+      clearCssVariables(this.svgElement!, this.schemeVariables);
+      this.schemeVariables = [];
+      this.displayed = { renderData: sceneOptions.renderData, rotation: resolveRotationOffset(sceneOptions) };
+
+      // The pointer element is replaced when the dial is toggled, so the drag is attached on every render
+      if (sceneOptions.dial?.pointer !== undefined) {
+        svg
+          .select<SVGGElement>('.dial-pointer')
+          .call(d3.drag<SVGGElement, unknown>().on('drag', (event) => this.dragDialPointer(event.sourceEvent)));
+      }
+
+      // Set up zoom behavior once (following pattern from frontend/src/components/WheelCanvas.tsx)
+      const isFirstRender = !this.zoom;
+      if (!this.zoom) {
+        this.zoom = d3.zoom<SVGSVGElement, unknown>()
+          .scaleExtent([0.5, 4]) // Allow zoom from 0.5x to 4x
+          .on('zoom', (event) => {
+            // Apply zoom transform to container
+            svg.select('.chart-container').attr('transform', event.transform.toString());
+          });
+      }
+
+      // The viewport follows the chart size
+      this.zoom
+        .extent([[0, 0], [width, height]]) // Explicit viewport, so it isn't measured from the DOM
+        .translateExtent([[-width * 2, -height * 2], [width * 3, height * 3]]); // Allow panning beyond viewport
+
+      if (isFirstRender) {
+        // Apply zoom to the SVG
+        svg.call(this.zoom);
+
+        // Set initial transform to identity (chart-content's translate centers it)
+        const initialTransform = d3.zoomIdentity;
+        svg.call(this.zoom.transform, initialTransform);
+      }
+    } catch (error) {
+      if (!this.options.onError) throw error;
+      this.options.onError(error);
+    }
+  }
+
+  /**
+   * Dispatch events on interactive scene nodes: clicks and Enter to the selection and click callbacks,
+   * hovering to the highlight, tooltip and hover callbacks, arrow keys to keyboard navigation
+   */
+  private handleInteraction(interaction: SceneInteraction, event: Event): void {
+    switch (event.type) {
+      case 'mouseenter':
+        this.setHovered(interaction, event as MouseEvent);
+        break;
+      case 'mouseleave':
+        this.setHovered(null, event as MouseEvent);
+        break;
+      case 'focus':
+        if (interaction.kind === 'item') {
+          this.setActiveItem(getItemKey(interaction.ring, interaction.item));
+        }
+        break;
+      case 'keydown':
+        this.handleKeyDown(interaction, event as KeyboardEvent);
+        break;
+      default:
+        this.activate(interaction, (event as MouseEvent).shiftKey);
+    }
+  }
+
+  /**
+   * Click an item or aspect: update the selection and call the click callback
+   */
+  private activate(interaction: SceneInteraction, additive: boolean): void {
+    if (interaction.kind === 'item') {
+      this.select(deriveLogicalIdFromRingItem(interaction.ring, interaction.item), additive);
+      this.options.onItemClick?.(interaction.item, interaction.ring);
+    } else {
+      this.select(interaction.aspect.id, additive);
+      this.options.onAspectClick?.(interaction.aspect);
+    }
+  }
+
+  /**
+   * Enter and Space activate the focused item; arrow keys move to the next or previous item around the wheel,
+   * Home and End to the first and last
+   */
+  private handleKeyDown(interaction: SceneInteraction, event: KeyboardEvent): void {
+    if (interaction.kind !== 'item') return;
+
+    if (event.key === 'Enter' || event.key === ' ') {
+      event.preventDefault();
+      this.activate(interaction, event.shiftKey);
+      return;
+    }
+
+    const order = resolveNavigationOrder(this.options);
+    const index = order.indexOf(getItemKey(interaction.ring, interaction.item));
+    let next: number;
+    switch (event.key) {
+      case 'ArrowRight':
+      case 'ArrowDown':
+        next = (index + 1) % order.length;
+        break;
+      case 'ArrowLeft':
+      case 'ArrowUp':
+        next = (index - 1 + order.length) % order.length;
+        break;
+      case 'Home':
+        next = 0;
+        break;
+      case 'End':
+        next = order.length - 1;
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+    this.focusItem(order[next]);
+  }
+
+  private setActiveItem(key: string): void {
+    if (this.activeItemKey === key) return;
+    this.activeItemKey = key;
+    if (!this.transitionTimer) {
+      this.render();
+    }
+  }
+
+  /**
+   * Move keyboard focus to an item
+   */
+  private focusItem(key: string): void {
+    this.setActiveItem(key);
+    const element = Array.from(this.svgElement?.querySelectorAll<SVGElement>('[data-item-key]') ?? []).find(
+      (candidate) => candidate.getAttribute('data-item-key') === key
+    );
+    element?.focus();
+  }
+
+  /**
+   * Selected object logical ids and aspect ids
+   */
+  getSelectedIds(): string[] {
+    return this.options.selectedIds ?? this.selection;
+  }
+
+  /**
+   * Apply a click to the selection. Items without a logical id (signs) can't be selected.
+   */
+  private select(id: string | null, additive: boolean): void {
+    if (!id) return;
+    const selectedIds = nextSelection(this.getSelectedIds(), id, additive);
+
+    // Controlled: the host decides, and passes the new selection back through update()
+    if (this.options.selectedIds === undefined) {
+      this.selection = selectedIds;
+      if (!this.transitionTimer) {
+        this.render();
+      }
+    }
+    this.options.onSelectionChange?.(selectedIds);
+  }
+
+  /**
+   * Turn the dial pointer to the dial position under the mouse or touch
+   */
+  private dragDialPointer(event: MouseEvent | TouchEvent): void {
+    if (!this.svgElement) return;
+    const { width = 800, height = 800, centerX = width / 2, centerY = height / 2 } = this.options;
+    const { clientX, clientY } = 'touches' in event ? event.touches[0] : event;
+    const rect = this.svgElement.getBoundingClientRect();
+    // Undo the zoom and the centring of the chart content
+    const [x, y] = d3.zoomTransform(this.svgElement).invert([clientX - rect.left, clientY - rect.top]);
+    const svgAngle = (Math.atan2(x - centerX, centerY - y) * 180) / Math.PI;
+    const lon = svgToAstroAngle(svgAngle, resolveRotationOffset(this.options), resolveWheelCoordinates(this.options));
+
+    this.dialPointer = lon;
+    this.render();
+    this.options.onDialPointerChange?.(lon);
+  }
+
+  private setHovered(interaction: SceneInteraction | null, event: MouseEvent): void {
+    const previous = this.hovered;
+    this.hovered = interaction;
+
+    // A running transition picks up the highlight on its next frame
+    if (!this.transitionTimer) {
+      this.render();
+    }
+
+    if (interaction && this.options.showTooltip !== false) {
+      const { renderData, indexes } = resolveChartData(this.options);
+      this.showTooltip(
+        interaction.kind === 'item'
+          ? describeItem(interaction.item, interaction.ring, renderData, indexes)
+          : describeAspect(interaction.aspect, renderData),
+        event
+      );
+    } else {
+      this.hideTooltip();
+    }
+
+    // Report the change to the host, with nulls when the pointer leaves
+    const changed = interaction ?? previous;
+    if (changed?.kind === 'item') {
+      const hoveredItem = interaction?.kind === 'item' ? interaction : null;
+      this.options.onItemHover?.(hoveredItem?.item ?? null, hoveredItem?.ring ?? null);
+    } else if (changed?.kind === 'aspect') {
+      this.options.onAspectHover?.(interaction?.kind === 'aspect' ? interaction.aspect : null);
+    }
+    this.options.onHighlightChange?.(this.getHoverHighlight());
+  }
+
+  private getHoverHighlight(): ChartHighlight | null {
+    if (!this.hovered) return null;
+    return this.hovered.kind === 'item'
+      ? getItemHighlight(this.hovered.item, this.hovered.ring, resolveChartData(this.options).indexes)
+      : getAspectHighlight(this.hovered.aspect);
+  }
+
+  private showTooltip(content: TooltipContent, event: MouseEvent): void {
+    if (!this.tooltip) {
+      this.tooltip = document.createElement('div');
+      this.tooltip.className = 'chart-tooltip';
+      this.tooltip.setAttribute('role', 'tooltip');
+      this.tooltip.style.position = 'absolute';
+      this.tooltip.style.pointerEvents = 'none';
+      this.container.appendChild(this.tooltip);
+    }
+
+    const line = (className: string, text: string) => {
+      const element = document.createElement('div');
+      element.className = className;
+      element.textContent = text;
+      return element;
+    };
+    this.tooltip.replaceChildren(
+      line('chart-tooltip-title', content.title),
+      ...content.details.map((detail) => line('chart-tooltip-detail', detail)),
+      ...content.aspects.map((aspect) => line('chart-tooltip-aspect', aspect))
+    );
+
+    // Next to the pointer
+    const bounds = this.container.getBoundingClientRect();
+    this.tooltip.style.left = `${event.clientX - bounds.left + 12}px`;
+    this.tooltip.style.top = `${event.clientY - bounds.top + 12}px`;
+    this.tooltip.style.display = '';
+  }
+
+  private hideTooltip(): void {
+    if (this.tooltip) {
+      this.tooltip.style.display = 'none';
+    }
+  }
+
+  /**
+   * Keep the hidden summary table in line with the chart data
+   */
+  private renderSummary(): void {
+    const { accessibleTable, dial, objectCategories } = this.options;
+    if (!accessibleTable) {
+      this.summary?.remove();
+      this.summary = null;
+      this.summaryData = null;
+      this.summaryOptions = null;
+      return;
+    }
+    // The pointer doesn't change what the dial lists
+    const summaryOptions = JSON.stringify([dial ? { ...dial, pointer: undefined } : null, objectCategories ?? null]);
+    if (this.summary && this.summaryData === this.options.renderData && this.summaryOptions === summaryOptions) return;
+
+    if (!this.summary) {
+      this.summary = document.createElement('div');
+      this.summary.className = 'chart-summary';
+      // Visually hidden, but still read by screen readers
+      Object.assign(this.summary.style, {
+        position: 'absolute',
+        width: '1px',
+        height: '1px',
+        overflow: 'hidden',
+        clip: 'rect(0 0 0 0)',
+        clipPath: 'inset(50%)',
+        whiteSpace: 'nowrap',
+      });
+      this.container.appendChild(this.summary);
+    }
+    // The same data the wheel draws: hidden categories left out, the dial's aspects on dials
+    const { renderData, indexes } = resolveChartData(this.options);
+    this.summary.replaceChildren(...buildChartSummary(renderData, indexes).map(createSummaryTable));
+    this.summaryData = this.options.renderData;
+    this.summaryOptions = summaryOptions;
+  }
+
+  /**
+   * Update chart with new options
+   */
+  update(options: Partial<ChartWheelOptions>): void {
+    const from = this.displayed;
+    if ('dial' in options && options.dial !== this.options.dial) {
+      this.dialPointer = null;
+    }
+    this.options = { ...this.options, ...options };
+    this.updateColorSchemeWatch();
+    this.stopTransition();
+
+    const { transition } = this.options;
+    if (transition && from && (transition.duration ?? DEFAULT_TRANSITION_DURATION) > 0) {
+      this.animate(from, transition);
+    } else {
+      this.render();
+    }
+  }
+
+  /**
+   * Tween from the displayed state to the current options, re-rendering every frame through the joins.
+   * Longitudes and rotation follow the shortest arc.
+   */
+  private animate(from: { renderData: RenderResponse; rotation: number }, transition: ChartTransition): void {
+    const { duration = DEFAULT_TRANSITION_DURATION, easing = d3.easeCubicInOut } = transition;
+    const toRotation = resolveRotationOffset(this.options);
+
+    this.transitionTimer = d3.timer((elapsed) => {
+      const progress = Math.min(elapsed / duration, 1);
+      if (progress >= 1) {
+        this.stopTransition();
+        this.render();
+        return;
+      }
+
+      const t = easing(progress);
+      const renderData = interpolateRenderData(from.renderData, this.options.renderData, t);
+      this.renderScene({
+        ...this.options,
+        renderData,
+        indexes: buildIndexes(renderData),
+        // The view frame is already part of the interpolated rotation
+        viewFrame: undefined,
+        rotationOffset: interpolateRotation(from.rotation, toRotation, t),
+      });
+    });
+  }
+
+  /**
+   * With colorScheme 'auto', follow the page when it switches between light and dark; otherwise don't listen
+   */
+  private updateColorSchemeWatch(): void {
+    if (this.options.colorScheme !== 'auto') {
+      this.unwatchColorScheme?.();
+      this.unwatchColorScheme = null;
+    } else if (!this.unwatchColorScheme) {
+      this.unwatchColorScheme = watchColorScheme(() => this.switchColorScheme());
+    }
+  }
+
+  /**
+   * Follow a change of the page's colour scheme without re-rendering: the scheme's colours are set as custom
+   * properties on the SVG, which the drawn colours read. Their attribute fallbacks catch up on the next render;
+   * exports are built afresh in the current scheme.
+   */
+  private switchColorScheme(): void {
+    if (!this.svgElement) return;
+    clearCssVariables(this.svgElement, this.schemeVariables);
+    this.schemeVariables = applyColorScheme(
+      this.svgElement,
+      resolveColorScheme(this.options.colorScheme),
+      getChartColorVariables(this.options)
+    );
+  }
+
+  private stopTransition(): void {
+    this.transitionTimer?.stop();
+    this.transitionTimer = null;
+  }
+
+  /**
+   * Export the chart as a PNG or JPEG image, at its default zoom, with the current selection and dial pointer.
+   * The page's chart styles, the chart's custom property values and the glyph font (or the given fonts) are
+   * embedded so the image matches the screen.
+   */
+  async exportImage(options: ExportImageOptions = {}): Promise<Blob> {
+    const { width = 800, height = 800, glyphConfig } = this.options;
+    const styles = options.styles ?? collectChartStyles() ?? defaultExportStyles;
+    const variables = this.svgElement ? collectChartVariables(this.svgElement, styles) : null;
+    const svg = await buildExportSvg(this.withInteractiveState(this.options), {
+      ...options,
+      fonts: options.fonts ?? (glyphConfig?.glyphFont ? collectPageFonts(glyphConfig.glyphFont) : undefined),
+      styles: variables ? `${styles}\n${variables}` : styles,
+    });
+    return rasterizeSvg(svg, width, height, options);
+  }
+
+  /**
+   * Destroy the chart instance and clean up
+   */
+  destroy(): void {
+    this.stopTransition();
+    this.unwatchColorScheme?.();
+    this.unwatchColorScheme = null;
+    if (this.zoom && this.svg) {
+      this.svg.on('.zoom', null);
+    }
+    if (this.container) {
+      this.container.innerHTML = '';
+    }
+    this.svgElement = null;
+    this.svg = null;
+    this.zoom = null;
+    this.schemeVariables = [];
+    this.displayed = null;
+    this.hovered = null;
+    this.tooltip = null;
+    this.activeItemKey = null;
+    this.summary = null;
+    this.summaryData = null;
+    this.summaryOptions = null;
+    this.dialPointer = null;
+  }
+}
+
+function createSummaryTable({ caption, columns, rows }: SummaryTable): HTMLTableElement {
+  const table = document.createElement('table');
+  table.createCaption().textContent = caption;
+  const headerRow = table.createTHead().insertRow();
+  for (const column of columns) {
+    const th = document.createElement('th');
+    th.scope = 'col';
+    th.textContent = column;
+    headerRow.appendChild(th);
+  }
+  const body = table.createTBody();
+  for (const row of rows) {
+    const tr = body.insertRow();
+    for (const cell of row) {
+      tr.insertCell().textContent = cell;
+    }
+  }
+  return table;
+}
+
@@ -0,0 +1,207 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { AspectGrid } from '../AspectGrid';
+import { ChartWheel } from '../ChartWheel';
+import { buildIndexes } from '../../utils/buildIndexes';
+import { createRenderResponseWithAspects, createMultiLayerRenderResponse } from '../../test/fixtures';
+
+describe('AspectGrid (core)', () => {
+  let container: HTMLDivElement;
+
+  const hover = (element: Element | null, type: 'mouseenter' | 'mouseleave') =>
+    element!.dispatchEvent(new MouseEvent(type));
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    container.remove();
+    vi.restoreAllMocks();
+  });
+
+  it('draws a triangle with objects on the diagonal and a cell per aspect', () => {
+    const renderData = createRenderResponseWithAspects();
+    const grid = new AspectGrid(container, { renderData, indexes: buildIndexes(renderData) });
+
+    const svg = container.querySelector('svg.aspect-grid')!;
+    // Five natal planets at 28px, plus padding
+    expect(svg).toHaveAttribute('width', String(5 * 28 + 16));
+    expect(container.querySelectorAll('.grid-object')).toHaveLength(5);
+    // Below the diagonal: 10 cells, one of them the aspect
+    expect(container.querySelectorAll('.aspect-grid-cells > g')).toHaveLength(9);
+
+    const cell = container.querySelector('.aspect-cell')!;
+    expect(cell).toHaveClass('aspect-trine');
+    expect(cell).toHaveAttribute('transform', 'translate(0, 28)');
+    expect(cell).toHaveAttribute('aria-label', "Sun trine Moon, orb 0°15', separating");
+    expect(cell.querySelector('.aspect-glyph')?.textContent).toBe('△');
+    expect(cell.querySelector('.aspect-orb')?.textContent).toBe("0°15'");
+    expect(cell.querySelector('.aspect-phase')).toHaveClass('separating');
+    expect(cell.querySelector('.aspect-phase')?.textContent).toBe('S');
+
+    grid.destroy();
+  });
+
+  it('draws glyphs from a glyph set', () => {
+    const renderData = createRenderResponseWithAspects();
+    const grid = new AspectGrid(container, { renderData, indexes: buildIndexes(renderData), glyphSet: 'svg' });
+
+    expect(container.querySelector('.aspect-cell .aspect-glyph')?.tagName).toBe('path');
+    expect(container.querySelector('.grid-object.object-sun path')).toHaveAttribute('stroke-linecap', 'round');
+
+    grid.destroy();
+  });
+
+  it('uses aspect glyphs from the glyph config and can leave out orbs', () => {
+    const renderData = createRenderResponseWithAspects();
+    const grid = new AspectGrid(container, {
+      renderData,
+      indexes: buildIndexes(renderData),
+      glyphConfig: { aspectGlyphs: { trine: 'T' } },
+      showOrbs: false,
+    });
+
+    expect(container.querySelector('.aspect-glyph')?.textContent).toBe('T');
+    expect(container.querySelector('.aspect-orb')).toBeNull();
+
+    grid.destroy();
+  });
+
+  it('draws a rectangle for aspects between layers', () => {
+    const renderData = createMultiLayerRenderResponse();
+    const grid = new AspectGrid(container, { renderData, indexes: buildIndexes(renderData) });
+
+    expect(container.querySelector('.aspect-grid-content')).toHaveClass('aspect-grid-rectangle');
+    expect(container.querySelectorAll('.grid-object.layer-transit')).toHaveLength(2);
+    expect(container.querySelectorAll('.grid-object.layer-natal')).toHaveLength(5);
+    // Transit Mars (second row) to natal Moon (second column), after the header row and column
+    const cell = container.querySelector('.aspect-cell')!;
+    expect(cell).toHaveAttribute('transform', 'translate(56, 56)');
+    expect(cell.querySelector('.aspect-phase')?.textContent).toBe('A');
+
+    grid.destroy();
+  });
+
+  it('highlights the hovered aspect with its objects and reports it', () => {
+    const renderData = createRenderResponseWithAspects();
+    const onAspectHover = vi.fn();
+    const onHighlightChange = vi.fn();
+    const grid = new AspectGrid(container, {
+      renderData,
+      indexes: buildIndexes(renderData),
+      onAspectHover,
+      onHighlightChange,
+    });
+
+    hover(container.querySelector('.aspect-cell'), 'mouseenter');
+
+    expect(container.querySelector('svg')).toHaveClass('has-highlight');
+    expect(container.querySelector('.aspect-cell')).toHaveClass('highlighted');
+    expect(container.querySelector('.grid-object.object-sun')).toHaveClass('highlighted');
+    expect(container.querySelector('.grid-object.object-mars')).not.toHaveClass('highlighted');
+    expect(onAspectHover).toHaveBeenCalledWith(renderData.aspects.sets['natal-aspects'].pairs[0]);
+    expect(onHighlightChange).toHaveBeenLastCalledWith({
+      logicalIds: ['natal:planet:sun', 'natal:planet:moon'],
+      aspectIds: ['aspect-1'],
+    });
+
+    hover(container.querySelector('.aspect-cell'), 'mouseleave');
+
+    expect(container.querySelector('.highlighted')).toBeNull();
+    expect(onAspectHover).toHaveBeenLastCalledWith(null);
+    expect(onHighlightChange).toHaveBeenLastCalledWith(null);
+
+    grid.destroy();
+  });
+
+  it('calls the click callbacks for objects on the wheel and aspects', () => {
+    const renderData = createRenderResponseWithAspects();
+    const onItemClick = vi.fn();
+    const onAspectClick = vi.fn();
+    const grid = new AspectGrid(container, { renderData, indexes: buildIndexes(renderData), onItemClick, onAspectClick });
+
+    container.querySelector('.grid-object.object-sun')!.dispatchEvent(new MouseEvent('click'));
+    expect(onItemClick).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'planet-sun' }),
+      expect.objectContaining({ id: 'planets' })
+    );
+
+    container.querySelector('.aspect-cell')!.dispatchEvent(new MouseEvent('click'));
+    expect(onAspectClick).toHaveBeenCalledWith(expect.objectContaining({ id: 'aspect-1' }));
+
+    grid.destroy();
+  });
+
+  it('shares hover highlighting with the wheel', () => {
+    const renderData = createRenderResponseWithAspects();
+    const indexes = buildIndexes(renderData);
+    const wheelContainer = document.createElement('div');
+    document.body.appendChild(wheelContainer);
+
+    const grid = new AspectGrid(container, { renderData, indexes });
+    const wheel = new ChartWheel(wheelContainer, {
+      renderData,
+      indexes,
+      showTooltip: false,
+      onHighlightChange: (highlight) => grid.update({ highlight }),
+    });
+    grid.update({ onHighlightChange: (highlight) => wheel.update({ highlight }) });
+
+    hover(wheelContainer.querySelector('.planet-moon'), 'mouseenter');
+    expect(container.querySelector('.grid-object.object-moon')).toHaveClass('highlighted');
+    expect(container.querySelector('.aspect-cell')).toHaveClass('highlighted');
+    hover(wheelContainer.querySelector('.planet-moon'), 'mouseleave');
+    expect(container.querySelector('.highlighted')).toBeNull();
+
+    hover(container.querySelector('.aspect-cell'), 'mouseenter');
+    expect(wheelContainer.querySelector('line.aspect')).toHaveClass('highlighted');
+    expect(wheelContainer.querySelector('.planet-sun')).toHaveClass('highlighted');
+
+    wheel.destroy();
+    grid.destroy();
+    wheelContainer.remove();
+  });
+
+  it('draws an empty grid when the chart has no aspects', () => {
+    const renderData = createRenderResponseWithAspects();
+    renderData.aspects.sets = {};
+    const grid = new AspectGrid(container, { renderData, indexes: buildIndexes(renderData) });
+
+    expect(container.querySelector('svg.aspect-grid')).not.toBeNull();
+    expect(container.querySelector('.aspect-grid-content')).toBeNull();
+
+    grid.destroy();
+  });
+
+  it("follows prefers-color-scheme with 'auto' without rebuilding the grid", () => {
+    let listener: (() => void) | null = null;
+    const query = {
+      matches: true,
+      addEventListener: vi.fn((_type: string, callback: () => void) => (listener = callback)),
+      removeEventListener: vi.fn(),
+    };
+    vi.stubGlobal('matchMedia', vi.fn(() => query));
+    const renderData = createRenderResponseWithAspects();
+    const grid = new AspectGrid(container, {
+      renderData,
+      indexes: buildIndexes(renderData),
+      theme: 'high-contrast',
+      colorScheme: 'auto',
+    });
+    const cell = container.querySelector('.aspect-cell');
+
+    query.matches = false;
+    listener!();
+    const svg = container.querySelector('svg')!;
+    expect(svg).toHaveClass('aspect-grid', 'scheme-light');
+    expect(svg.style.getPropertyValue('--aphrodite-background')).toBe('#FFFFFF');
+    expect(container.querySelector('.aspect-cell')).toBe(cell);
+
+    grid.update({});
+    expect(svg.style.getPropertyValue('--aphrodite-background')).toBe('');
+
+    grid.destroy();
+    vi.unstubAllGlobals();
+  });
+});
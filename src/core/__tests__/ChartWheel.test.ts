@@ -0,0 +1,1410 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as d3 from 'd3';
+import { ChartWheel } from '../ChartWheel';
+import { renderChartToSvgString } from '../renderToString';
+import { defaultExportStyles } from '../exportImage';
+import { buildIndexes } from '../../utils/buildIndexes';
+import { getDarkModeTheme } from '../../utils/chartWheelHelpers';
+import {
+  createRenderResponseWithAspects,
+  createMockRenderResponse,
+  createMultiLayerRenderResponse,
+  createRenderResponseWithSunAt,
+} from '../../test/fixtures';
+import type { PlanetRingItem } from '@gaia-tools/iris-core';
+
+/**
+ * Parse the translate() of an element's transform attribute
+ */
+function getTranslate(element: Element | null): { x: number; y: number } {
+  const match = element?.getAttribute('transform')?.match(/translate\(([-\d.e]+),\s*([-\d.e]+)\)/);
+  if (!match) throw new Error('Element has no translate transform');
+  return { x: Number(match[1]), y: Number(match[2]) };
+}
+
+/**
+ * Compare two element trees by tag, attributes and text.
+ * Attributes added by the zoom behaviour on the client are ignored.
+ */
+function expectSameMarkup(actual: Element, expected: Element): void {
+  const ignored = ['xmlns', 'style'];
+  const attrs = (element: Element) =>
+    Object.fromEntries(
+      Array.from(element.attributes)
+        .filter((attr) => !ignored.includes(attr.name))
+        .filter((attr) => !(attr.name === 'transform' && element.classList.contains('chart-container')))
+        .map((attr) => [attr.name, attr.value])
+    );
+
+  expect(actual.tagName).toBe(expected.tagName);
+  expect(attrs(actual)).toEqual(attrs(expected));
+  expect(actual.children).toHaveLength(expected.children.length);
+  if (expected.children.length === 0) {
+    expect(actual.textContent).toBe(expected.textContent);
+  }
+  Array.from(expected.children).forEach((child, index) => expectSameMarkup(actual.children[index], child));
+}
+
+describe('ChartWheel (core)', () => {
+  let container: HTMLDivElement;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    container = document.createElement('div');
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    container.remove();
+    vi.restoreAllMocks();
+  });
+
+  describe('aspects', () => {
+    it('draws a chord for each aspect, styled by type and orb', () => {
+      const renderData = createRenderResponseWithAspects();
+      const wheel = new ChartWheel(container, { renderData, indexes: buildIndexes(renderData) });
+
+      const lines = container.querySelectorAll('line.aspect');
+      expect(lines).toHaveLength(1);
+
+      const line = lines[0];
+      expect(line).toHaveClass('aspect-trine');
+      expect(line).toHaveAttribute('stroke', '#27AE60');
+      // Separating aspects are dashed
+      expect(line).toHaveAttribute('stroke-dasharray', '4,3');
+      expect(Number(line.getAttribute('stroke-width'))).toBeCloseTo(2 * (1 - 0.25 / 7 / 2));
+
+      wheel.destroy();
+    });
+
+    it('calls onAspectClick with the clicked aspect', () => {
+      const renderData = createRenderResponseWithAspects();
+      const onAspectClick = vi.fn();
+      const wheel = new ChartWheel(container, {
+        renderData,
+        indexes: buildIndexes(renderData),
+        onAspectClick,
+      });
+
+      container.querySelector('line.aspect')!.dispatchEvent(new MouseEvent('click', { bubbles: true }));
+
+      expect(onAspectClick).toHaveBeenCalledWith(renderData.aspects.sets['natal-aspects'].pairs[0]);
+      wheel.destroy();
+    });
+  });
+
+  describe('orientation', () => {
+    it('rotates the wheel to honour the view frame', () => {
+      const renderData = createMockRenderResponse();
+      const wheel = new ChartWheel(container, {
+        renderData,
+        indexes: buildIndexes(renderData),
+        viewFrame: { anchor: { kind: 'object', objectId: 'sun' }, screenAngle: 270 },
+      });
+
+      const sun = getTranslate(container.querySelector('.planet-sun'));
+      expect(sun.x).toBeLessThan(0);
+      expect(sun.y).toBeCloseTo(0);
+
+      wheel.update({ viewFrame: { anchor: { kind: 'object', objectId: 'sun' }, screenAngle: 0 } });
+
+      const movedSun = getTranslate(container.querySelector('.planet-sun'));
+      expect(movedSun.x).toBeCloseTo(0);
+      expect(movedSun.y).toBeLessThan(0);
+
+      wheel.destroy();
+    });
+
+    it('draws the top of the wheel at negative y', () => {
+      const renderData = createMockRenderResponse();
+      const wheel = new ChartWheel(container, { renderData, indexes: buildIndexes(renderData) });
+
+      // The Moon at 40.25° sits near the top of the wheel, the Sun at 280.5° near the bottom
+      expect(getTranslate(container.querySelector('.planet-moon')).y).toBeLessThan(0);
+      expect(getTranslate(container.querySelector('.planet-sun')).y).toBeGreaterThan(0);
+
+      wheel.destroy();
+    });
+
+    it('applies lock rules to glyph orientation', () => {
+      const renderData = createMockRenderResponse();
+      const wheel = new ChartWheel(container, {
+        renderData,
+        indexes: buildIndexes(renderData),
+        viewFrame: { anchor: { kind: 'object', objectId: 'sun' }, screenAngle: 45 },
+        locks: [{ target: 'planets', mode: 'tangential' }],
+      });
+
+      expect(container.querySelector('.planet-sun')!.getAttribute('transform')).toContain('rotate(45)');
+      expect(container.querySelector('.sign-sign-aries text')!.getAttribute('transform')).toMatch(/^rotate\(0,/);
+
+      wheel.destroy();
+    });
+  });
+
+  describe('multi-layer wheels', () => {
+    it('styles each layer ring and its planets distinctly', () => {
+      const renderData = createMultiLayerRenderResponse();
+      const wheel = new ChartWheel(container, { renderData, indexes: buildIndexes(renderData) });
+
+      const natalSun = container.querySelector('.planet-sun.layer-natal text');
+      const transitSun = container.querySelector('.planet-sun.layer-transit text');
+      expect(natalSun).toHaveAttribute('fill', '#F39C12');
+      expect(transitSun).toHaveAttribute('fill', '#48C9B0');
+      expect(container.querySelector('.ring-band.layer-transit')).toHaveAttribute('fill', '#48C9B0');
+      expect(container.querySelector('.ring-band.layer-natal')).toBeNull();
+
+      wheel.destroy();
+    });
+
+    it('exposes colours as CSS custom properties falling back to the theme', () => {
+      const renderData = createMultiLayerRenderResponse();
+      const wheel = new ChartWheel(container, { renderData, indexes: buildIndexes(renderData) });
+
+      expect(container.querySelector('.planet-sun.layer-natal .planet-glyph')).toHaveStyle({
+        fill: 'var(--aphrodite-planet-sun, #F39C12)',
+      });
+      expect(container.querySelector('.planet-sun.layer-transit .planet-glyph')).toHaveStyle({
+        fill: 'var(--aphrodite-layer-transit, #48C9B0)',
+      });
+      expect(container.querySelector('.sign-aries .sign-segment')?.getAttribute('style')).toMatch(
+        /^stroke: var\(--aphrodite-sign-aries, #/
+      );
+      expect(container.querySelector('.house-1 .house-line')?.getAttribute('style')).toMatch(/var\(--aphrodite-house-1, /);
+      expect(container.querySelector('.chart-background')?.getAttribute('style')).toMatch(/var\(--aphrodite-background, /);
+
+      wheel.destroy();
+    });
+
+    it('draws a legend only when there are several layers', () => {
+      const multi = createMultiLayerRenderResponse();
+      const wheel = new ChartWheel(container, { renderData: multi, indexes: buildIndexes(multi) });
+
+      const labels = Array.from(container.querySelectorAll('.legend-item text')).map((el) => el.textContent);
+      expect(labels).toEqual(['Natal', 'Transits']);
+
+      const single = createMockRenderResponse();
+      wheel.update({ renderData: single, indexes: buildIndexes(single) });
+      expect(container.querySelector('.legend')).toBeNull();
+
+      wheel.update({ showLegend: true });
+      expect(container.querySelectorAll('.legend-item')).toHaveLength(1);
+
+      wheel.destroy();
+    });
+
+    it('draws inter-layer aspects between the two rings', () => {
+      const renderData = createMultiLayerRenderResponse();
+      const wheel = new ChartWheel(container, { renderData, indexes: buildIndexes(renderData) });
+
+      const line = container.querySelector('line.aspect-inter-layer')!;
+      expect(line).not.toBeNull();
+
+      const radius = (x: string | null, y: string | null) => Math.hypot(Number(x), Number(y));
+      const fromRadius = radius(line.getAttribute('x1'), line.getAttribute('y1'));
+      const toRadius = radius(line.getAttribute('x2'), line.getAttribute('y2'));
+      // Transit ring starts at 100 and natal planets at 60 (of 130), scaled to a 380px radius
+      expect(fromRadius).toBeCloseTo((100 / 130) * 380);
+      expect(toRadius).toBeCloseTo((60 / 130) * 380);
+
+      wheel.destroy();
+    });
+  });
+
+  describe('planet layout', () => {
+    function createStelliumRenderResponse() {
+      const base = createMockRenderResponse();
+      const planetRing = base.wheel.rings[2];
+      const sun = planetRing.items![0];
+      return {
+        ...base,
+        wheel: {
+          ...base.wheel,
+          rings: [
+            base.wheel.rings[0],
+            base.wheel.rings[1],
+            {
+              ...planetRing,
+              items: [
+                sun,
+                { ...sun, id: 'planet-mercury', planetId: 'mercury', lon: 275.0 },
+                { ...sun, id: 'planet-venus', planetId: 'venus', lon: 285.0 },
+              ],
+            },
+          ],
+        },
+      };
+    }
+
+    it('spreads overlapping glyphs and draws leader lines to their true longitude', () => {
+      const renderData = createStelliumRenderResponse();
+      const wheel = new ChartWheel(container, { renderData, indexes: buildIndexes(renderData) });
+
+      const positions = ['mercury', 'sun', 'venus'].map((id) => getTranslate(container.querySelector(`.planet-${id}`)));
+      for (let i = 1; i < positions.length; i++) {
+        const distance = Math.hypot(positions[i].x - positions[i - 1].x, positions[i].y - positions[i - 1].y);
+        expect(distance).toBeGreaterThan(20);
+      }
+      expect(container.querySelectorAll('.planet-leader').length).toBeGreaterThan(0);
+
+      wheel.destroy();
+    });
+
+    it('places glyphs exactly when layout is disabled', () => {
+      const renderData = createStelliumRenderResponse();
+      const wheel = new ChartWheel(container, {
+        renderData,
+        indexes: buildIndexes(renderData),
+        planetLayout: false,
+      });
+
+      expect(container.querySelectorAll('.planet-leader')).toHaveLength(0);
+
+      wheel.destroy();
+    });
+  });
+
+  describe('server rendering', () => {
+    it('renders the same markup as renderChartToSvgString', () => {
+      const renderData = createMultiLayerRenderResponse();
+      const options = { width: 600, height: 500, rotationOffset: 30, theme: 'modern' as const };
+      const wheel = new ChartWheel(container, { renderData, indexes: buildIndexes(renderData), ...options });
+
+      const serverSvg = new DOMParser()
+        .parseFromString(renderChartToSvgString(renderData, options), 'image/svg+xml')
+        .documentElement;
+      expectSameMarkup(container.querySelector('svg')!, serverSvg);
+
+      wheel.destroy();
+    });
+  });
+
+  describe('image export', () => {
+    /**
+     * jsdom can neither load images nor draw on canvases, so stub both. Returns the exported SVG blobs.
+     */
+    const stubImageExport = () => {
+      vi.stubGlobal(
+        'Image',
+        class {
+          onload: (() => void) | null = null;
+          set src(_url: string) {
+            setTimeout(() => this.onload?.());
+          }
+        }
+      );
+      const svgBlobs: Blob[] = [];
+      URL.createObjectURL = vi.fn((blob: Blob) => {
+        svgBlobs.push(blob);
+        return 'blob:chart';
+      });
+      URL.revokeObjectURL = vi.fn();
+      const drawImage = vi.fn();
+      vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue({ drawImage } as any);
+      const toBlob = vi
+        .spyOn(HTMLCanvasElement.prototype, 'toBlob')
+        .mockImplementation((callback, type) => callback(new Blob([], { type })));
+      return { svgBlobs, drawImage, toBlob };
+    };
+
+    const readBlob = (blob: Blob) =>
+      new Promise<string>((resolve) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.readAsText(blob);
+      });
+
+    it('draws the chart onto a canvas at the requested pixel ratio', async () => {
+      const { drawImage, toBlob } = stubImageExport();
+
+      const renderData = createMockRenderResponse();
+      const wheel = new ChartWheel(container, { renderData, indexes: buildIndexes(renderData), width: 400, height: 300 });
+      const blob = await wheel.exportImage({ format: 'jpeg', pixelRatio: 2 });
+
+      expect(blob.type).toBe('image/jpeg');
+      expect(drawImage).toHaveBeenCalledWith(expect.anything(), 0, 0, 800, 600);
+      expect(toBlob).toHaveBeenCalledWith(expect.any(Function), 'image/jpeg', 0.92);
+      expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:chart');
+
+      wheel.destroy();
+      vi.unstubAllGlobals();
+    });
+
+    it('exports the dragged dial pointer and the custom property values set on the page', async () => {
+      const { svgBlobs } = stubImageExport();
+      const renderData = createMockRenderResponse();
+      const wheel = new ChartWheel(container, {
+        renderData,
+        indexes: buildIndexes(renderData),
+        dial: { size: 90, pointer: 0 },
+      });
+      const mouseEvent = (type: string, clientX: number, clientY: number) =>
+        Object.defineProperty(new MouseEvent(type, { bubbles: true, clientX, clientY }), 'view', { value: window });
+      container.querySelector('.dial-pointer')!.dispatchEvent(mouseEvent('mousedown', 500, 400));
+      window.dispatchEvent(mouseEvent('mousemove', 400, 300));
+      window.dispatchEvent(mouseEvent('mouseup', 400, 300));
+      container.querySelector('svg')!.style.setProperty('--aphrodite-text', '#123456');
+
+      await wheel.exportImage();
+      const svg = await readBlob(svgBlobs[0]);
+
+      expect(svg).toContain('data-lon="22.5"');
+      expect(svg).toContain('.chart-wheel { --aphrodite-text: #123456; }');
+      // Without page styles, the package's chart rules are embedded
+      expect(svg).toContain('.chart-content.has-highlight .planet');
+
+      wheel.destroy();
+      vi.unstubAllGlobals();
+    });
+
+    it("copies the page's symbols that glyphs reference into the export", async () => {
+      const { svgBlobs } = stubImageExport();
+      const sprite = document.createElement('div');
+      sprite.innerHTML = '<svg><symbol id="my-sun" viewBox="0 0 24 24"><circle cx="12" cy="12" r="10"/></symbol></svg>';
+      document.body.appendChild(sprite);
+      const renderData = createMockRenderResponse();
+      const wheel = new ChartWheel(container, {
+        renderData,
+        indexes: buildIndexes(renderData),
+        glyphSet: { objects: { sun: { symbol: 'my-sun' } } },
+      });
+
+      await wheel.exportImage();
+      const svg = await readBlob(svgBlobs[0]);
+
+      expect(svg).toContain('href="#my-sun"');
+      expect(svg).toContain('<symbol id="my-sun" viewBox="0 0 24 24"><circle cx="12" cy="12" r="10"/></symbol>');
+
+      wheel.destroy();
+      sprite.remove();
+      vi.unstubAllGlobals();
+    });
+
+    it("inlines the page's web font for the glyph font", async () => {
+      const { svgBlobs } = stubImageExport();
+      const fontFace = document.createElement('style');
+      fontFace.textContent = '@font-face { font-family: "Astro Glyphs"; src: url(/fonts/astro-glyphs.woff2) format("woff2"); }';
+      document.head.appendChild(fontFace);
+      const fetchFont = vi.fn(async (_url: string) => new Response(new Uint8Array([104, 105])));
+      vi.stubGlobal('fetch', fetchFont);
+      const renderData = createMockRenderResponse();
+      const wheel = new ChartWheel(container, {
+        renderData,
+        indexes: buildIndexes(renderData),
+        glyphConfig: { glyphFont: '"Astro Glyphs", serif' },
+      });
+
+      await wheel.exportImage();
+      const svg = await readBlob(svgBlobs[0]);
+
+      expect(fetchFont).toHaveBeenCalledWith(new URL('/fonts/astro-glyphs.woff2', document.baseURI).href);
+      expect(svg).toContain('@font-face { font-family: "Astro Glyphs"; src: url(data:font/woff2;base64,aGk=) format("woff2"); }');
+
+      wheel.destroy();
+      fontFace.remove();
+      vi.unstubAllGlobals();
+    });
+
+    it('rejects transparent JPEG exports', async () => {
+      const renderData = createMockRenderResponse();
+      const wheel = new ChartWheel(container, { renderData, indexes: buildIndexes(renderData) });
+
+      await expect(wheel.exportImage({ format: 'jpeg', transparent: true })).rejects.toThrow(/PNG/);
+
+      wheel.destroy();
+    });
+  });
+
+  describe('incremental updates', () => {
+    it('only touches the elements of the item that changed', async () => {
+      const renderData = createRenderResponseWithSunAt(280.5);
+      const wheel = new ChartWheel(container, { renderData, indexes: buildIndexes(renderData) });
+      const svg = container.querySelector('svg');
+      const sun = container.querySelector('.planet-sun')!;
+      const moon = container.querySelector('.planet-moon');
+      const sunPosition = getTranslate(sun);
+
+      const mutations: MutationRecord[] = [];
+      const observer = new MutationObserver((records) => mutations.push(...records));
+      observer.observe(svg!, { attributes: true, childList: true, subtree: true, characterData: true });
+
+      const updated = createRenderResponseWithSunAt(300);
+      wheel.update({ renderData: updated, indexes: buildIndexes(updated) });
+      await Promise.resolve();
+      observer.disconnect();
+
+      expect(container.querySelector('svg')).toBe(svg);
+      expect(container.querySelector('.planet-sun')).toBe(sun);
+      expect(container.querySelector('.planet-moon')).toBe(moon);
+      expect(getTranslate(sun)).not.toEqual(sunPosition);
+      expect(mutations.length).toBeGreaterThan(0);
+      expect(mutations.every((record) => sun.contains(record.target))).toBe(true);
+
+      wheel.destroy();
+    });
+
+    it('adds and removes items as they enter and leave the data', () => {
+      const renderData = createRenderResponseWithAspects();
+      const wheel = new ChartWheel(container, { renderData, indexes: buildIndexes(renderData) });
+      expect(container.querySelectorAll('line.aspect')).toHaveLength(1);
+
+      const withoutAspects = { ...renderData, aspects: { sets: {} } };
+      wheel.update({ renderData: withoutAspects, indexes: buildIndexes(withoutAspects) });
+      expect(container.querySelectorAll('line.aspect')).toHaveLength(0);
+
+      wheel.update({ renderData, indexes: buildIndexes(renderData) });
+      expect(container.querySelectorAll('line.aspect')).toHaveLength(1);
+
+      wheel.destroy();
+    });
+
+    it('keeps the zoom state across updates', () => {
+      const renderData = createMockRenderResponse();
+      const wheel = new ChartWheel(container, { renderData, indexes: buildIndexes(renderData) });
+      const svg = container.querySelector('svg')!;
+      const zoom = (wheel as unknown as { zoom: d3.ZoomBehavior<SVGSVGElement, unknown> }).zoom;
+
+      d3.select(svg).call(zoom.transform, d3.zoomIdentity.translate(10, 20).scale(2));
+      wheel.update({ rotationOffset: 45 });
+
+      expect(d3.zoomTransform(svg).k).toBe(2);
+      expect(container.querySelector('.chart-container')).toHaveAttribute('transform', 'translate(10,20) scale(2)');
+
+      wheel.destroy();
+    });
+
+    it('keeps click handlers pointing at the current data', () => {
+      const onItemClick = vi.fn();
+      const renderData = createRenderResponseWithSunAt(280.5);
+      const wheel = new ChartWheel(container, { renderData, indexes: buildIndexes(renderData), onItemClick });
+
+      const updated = createRenderResponseWithSunAt(300);
+      wheel.update({ renderData: updated, indexes: buildIndexes(updated) });
+      container.querySelector('.planet-sun')!.dispatchEvent(new MouseEvent('click', { bubbles: true }));
+
+      expect(onItemClick).toHaveBeenCalledTimes(1);
+      expect(onItemClick.mock.calls[0][0]).toMatchObject({ id: 'planet-sun', lon: 300 });
+
+      wheel.destroy();
+    });
+  });
+
+  describe('hover', () => {
+    const hover = (element: Element | null, type: 'mouseenter' | 'mouseleave') =>
+      element!.dispatchEvent(new MouseEvent(type, { clientX: 100, clientY: 50 }));
+
+    it('highlights the hovered object and its aspects, dimming the rest', () => {
+      const renderData = createRenderResponseWithAspects();
+      const wheel = new ChartWheel(container, { renderData, indexes: buildIndexes(renderData) });
+
+      hover(container.querySelector('.planet-sun'), 'mouseenter');
+
+      expect(container.querySelector('.chart-content')).toHaveClass('has-highlight');
+      expect(container.querySelector('.planet-sun')).toHaveClass('highlighted');
+      expect(container.querySelector('.planet-moon')).not.toHaveClass('highlighted');
+      expect(container.querySelector('line.aspect')).toHaveClass('highlighted');
+
+      hover(container.querySelector('.planet-sun'), 'mouseleave');
+
+      expect(container.querySelector('.chart-content')).not.toHaveClass('has-highlight');
+      expect(container.querySelector('.highlighted')).toBeNull();
+
+      wheel.destroy();
+    });
+
+    it('dims the sign ring while a planet is hovered', () => {
+      // The package's chart rules, as embedded in exports
+      const style = document.createElement('style');
+      style.textContent = defaultExportStyles;
+      document.head.appendChild(style);
+      const renderData = createRenderResponseWithAspects();
+      const wheel = new ChartWheel(container, { renderData, indexes: buildIndexes(renderData) });
+      const aries = container.querySelector('.sign-aries')!;
+      expect(getComputedStyle(aries).opacity).not.toBe('0.2');
+
+      hover(container.querySelector('.planet-sun'), 'mouseenter');
+
+      expect(aries).not.toHaveClass('highlighted');
+      expect(getComputedStyle(aries).opacity).toBe('0.2');
+      expect(getComputedStyle(container.querySelector('.planet-sun')!).opacity).toBe('1');
+
+      wheel.destroy();
+      style.remove();
+    });
+
+    it('highlights every occurrence of an aspect\'s objects across rings', () => {
+      const renderData = createMultiLayerRenderResponse();
+      const wheel = new ChartWheel(container, { renderData, indexes: buildIndexes(renderData) });
+
+      hover(container.querySelector('line.aspect'), 'mouseenter');
+
+      expect(container.querySelector('.planet-mars.layer-transit')).toHaveClass('highlighted');
+      expect(container.querySelector('.planet-moon.layer-natal')).toHaveClass('highlighted');
+      expect(container.querySelector('.planet-sun.layer-transit')).not.toHaveClass('highlighted');
+
+      wheel.destroy();
+    });
+
+    it('shows a tooltip and reports hover changes', () => {
+      const renderData = createRenderResponseWithAspects();
+      const onItemHover = vi.fn();
+      const onAspectHover = vi.fn();
+      const wheel = new ChartWheel(container, {
+        renderData,
+        indexes: buildIndexes(renderData),
+        onItemHover,
+        onAspectHover,
+      });
+
+      hover(container.querySelector('.planet-sun'), 'mouseenter');
+
+      const tooltip = container.querySelector('.chart-tooltip') as HTMLElement;
+      expect(tooltip).toHaveAttribute('role', 'tooltip');
+      expect(tooltip).toBeVisible();
+      expect(tooltip.textContent).toContain("Capricorn 10°30'");
+      expect(tooltip.textContent).toContain("Trine Moon (0°15')");
+      expect(onItemHover).toHaveBeenLastCalledWith(
+        expect.objectContaining({ id: 'planet-sun' }),
+        expect.objectContaining({ id: 'planets' })
+      );
+
+      hover(container.querySelector('.planet-sun'), 'mouseleave');
+      expect(tooltip).not.toBeVisible();
+      expect(onItemHover).toHaveBeenLastCalledWith(null, null);
+
+      hover(container.querySelector('line.aspect'), 'mouseenter');
+      expect(onAspectHover).toHaveBeenLastCalledWith(expect.objectContaining({ id: 'aspect-1' }));
+      expect(tooltip.textContent).toContain('Sun trine Moon');
+
+      wheel.destroy();
+    });
+
+    it('can turn the tooltip off', () => {
+      const renderData = createRenderResponseWithAspects();
+      const wheel = new ChartWheel(container, {
+        renderData,
+        indexes: buildIndexes(renderData),
+        showTooltip: false,
+      });
+
+      hover(container.querySelector('.planet-sun'), 'mouseenter');
+      expect(container.querySelector('.chart-tooltip')).toBeNull();
+
+      wheel.destroy();
+    });
+  });
+
+  describe('selection', () => {
+    const click = (element: Element | null, shiftKey = false) =>
+      element!.dispatchEvent(new MouseEvent('click', { bubbles: true, shiftKey }));
+
+    it('selects on click and adds to the selection on shift-click', () => {
+      const renderData = createRenderResponseWithAspects();
+      const onSelectionChange = vi.fn();
+      const wheel = new ChartWheel(container, { renderData, indexes: buildIndexes(renderData), onSelectionChange });
+
+      click(container.querySelector('.planet-sun'));
+      expect(onSelectionChange).toHaveBeenLastCalledWith(['natal:planet:sun']);
+      expect(container.querySelector('.planet-sun')).toHaveClass('selected');
+      expect(container.querySelector('.planet-sun .planet-selection')).not.toBeNull();
+
+      click(container.querySelector('.planet-moon'), true);
+      expect(onSelectionChange).toHaveBeenLastCalledWith(['natal:planet:sun', 'natal:planet:moon']);
+      expect(container.querySelector('.planet-sun')).toHaveClass('selected');
+      expect(container.querySelector('.planet-moon')).toHaveClass('selected');
+
+      click(container.querySelector('line.aspect'));
+      expect(onSelectionChange).toHaveBeenLastCalledWith(['aspect-1']);
+      expect(container.querySelector('line.aspect')).toHaveClass('selected');
+      expect(container.querySelector('.planet-sun')).not.toHaveClass('selected');
+      expect(wheel.getSelectedIds()).toEqual(['aspect-1']);
+
+      // Clicking the only selected object again clears the selection
+      click(container.querySelector('line.aspect'));
+      expect(onSelectionChange).toHaveBeenLastCalledWith([]);
+      expect(container.querySelector('.selected')).toBeNull();
+
+      wheel.destroy();
+    });
+
+    it('only changes a controlled selection through update()', () => {
+      const renderData = createRenderResponseWithAspects();
+      const onSelectionChange = vi.fn();
+      const wheel = new ChartWheel(container, {
+        renderData,
+        indexes: buildIndexes(renderData),
+        selectedIds: ['natal:planet:moon'],
+        onSelectionChange,
+      });
+      expect(container.querySelector('.planet-moon')).toHaveClass('selected');
+
+      click(container.querySelector('.planet-sun'));
+      expect(onSelectionChange).toHaveBeenLastCalledWith(['natal:planet:sun']);
+      expect(container.querySelector('.planet-sun')).not.toHaveClass('selected');
+      expect(container.querySelector('.planet-moon')).toHaveClass('selected');
+
+      wheel.update({ selectedIds: ['natal:planet:sun'] });
+      expect(container.querySelector('.planet-sun')).toHaveClass('selected');
+      expect(container.querySelector('.planet-moon')).not.toHaveClass('selected');
+
+      wheel.destroy();
+    });
+
+    it('still reports clicks on items that cannot be selected', () => {
+      const renderData = createRenderResponseWithAspects();
+      const onItemClick = vi.fn();
+      const onSelectionChange = vi.fn();
+      const wheel = new ChartWheel(container, {
+        renderData,
+        indexes: buildIndexes(renderData),
+        onItemClick,
+        onSelectionChange,
+      });
+
+      click(container.querySelector('.sign'));
+      expect(onItemClick).toHaveBeenCalledTimes(1);
+      expect(onSelectionChange).not.toHaveBeenCalled();
+
+      wheel.destroy();
+    });
+  });
+
+  describe('accessibility', () => {
+    const keydown = (element: Element | null, key: string, shiftKey = false) =>
+      element!.dispatchEvent(new KeyboardEvent('keydown', { key, shiftKey, bubbles: true }));
+
+    it('names the chart and its items', () => {
+      const renderData = createRenderResponseWithAspects();
+      const wheel = new ChartWheel(container, { renderData, indexes: buildIndexes(renderData) });
+
+      const svg = container.querySelector('svg')!;
+      expect(svg).toHaveAttribute('role', 'group');
+      expect(svg).toHaveAttribute('aria-label', 'Chart wheel');
+      expect(svg.querySelector('title')).toHaveTextContent('Chart wheel');
+
+      const sun = container.querySelector('.planet-sun')!;
+      expect(sun).toHaveAttribute('role', 'button');
+      expect(sun).toHaveAttribute('aria-label', "Sun in Capricorn 10°30', house 10");
+      expect(container.querySelector('line.aspect')).toHaveAttribute('aria-label', "Sun trine Moon, orb 0°15', separating");
+
+      wheel.destroy();
+    });
+
+    it('puts one item in the tab order and moves it with the arrow keys in zodiacal order', () => {
+      const renderData = createRenderResponseWithAspects();
+      const wheel = new ChartWheel(container, { renderData, indexes: buildIndexes(renderData) });
+
+      expect(container.querySelectorAll('[tabindex="0"]')).toHaveLength(1);
+      const aries = container.querySelector('.sign-sign-aries') as SVGElement;
+      expect(aries).toHaveAttribute('tabindex', '0');
+
+      keydown(aries, 'ArrowRight');
+      const house1 = container.querySelector('.house-1') as SVGElement;
+      expect(document.activeElement).toBe(house1);
+      expect(house1).toHaveAttribute('tabindex', '0');
+      expect(aries).toHaveAttribute('tabindex', '-1');
+
+      // Wraps around from the first item to the last
+      keydown(aries, 'ArrowLeft');
+      expect(document.activeElement).toBe(container.querySelector('.planet-sun'));
+
+      keydown(container.querySelector('.planet-sun'), 'Home');
+      expect(document.activeElement).toBe(aries);
+
+      wheel.destroy();
+    });
+
+    it('moves through the items drawn on a dial in dial order', () => {
+      const renderData = createRenderResponseWithAspects();
+      const wheel = new ChartWheel(container, { renderData, indexes: buildIndexes(renderData), dial: { size: 90 } });
+
+      // The dial scale replaces the signs; on the 90° dial the Sun (280.5° → 42°) comes first
+      expect(container.querySelector('.sign-sign-aries')).toBeNull();
+      const focusable = container.querySelectorAll('[tabindex="0"]');
+      expect(focusable).toHaveLength(1);
+      expect(focusable[0]).toBe(container.querySelector('.planet-sun'));
+
+      const order = ['.house-1', '.planet-moon', '.house-2', '.planet-sun'];
+      let current = focusable[0];
+      for (const selector of order) {
+        keydown(current, 'ArrowRight');
+        expect(document.activeElement).toBe(container.querySelector(selector));
+        current = document.activeElement!;
+      }
+
+      wheel.destroy();
+    });
+
+    it('activates the focused item with Enter', () => {
+      const renderData = createRenderResponseWithAspects();
+      const onItemClick = vi.fn();
+      const onSelectionChange = vi.fn();
+      const wheel = new ChartWheel(container, {
+        renderData,
+        indexes: buildIndexes(renderData),
+        onItemClick,
+        onSelectionChange,
+      });
+
+      keydown(container.querySelector('.planet-sun'), 'Enter');
+      expect(onItemClick).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'planet-sun' }),
+        expect.objectContaining({ id: 'planets' })
+      );
+      expect(onSelectionChange).toHaveBeenLastCalledWith(['natal:planet:sun']);
+
+      keydown(container.querySelector('.planet-moon'), 'Enter', true);
+      expect(onSelectionChange).toHaveBeenLastCalledWith(['natal:planet:sun', 'natal:planet:moon']);
+
+      wheel.destroy();
+    });
+
+    it('adds a hidden summary table when asked', () => {
+      const renderData = createRenderResponseWithAspects();
+      const wheel = new ChartWheel(container, { renderData, indexes: buildIndexes(renderData) });
+      expect(container.querySelector('.chart-summary')).toBeNull();
+
+      wheel.update({ accessibleTable: true });
+      const tables = container.querySelectorAll('.chart-summary table');
+      expect(tables).toHaveLength(2);
+      expect(tables[0].querySelector('caption')).toHaveTextContent('Positions');
+      expect(tables[0].textContent).toContain("Capricorn 10°30'");
+      expect(tables[1].textContent).toContain('Sun trine Moon');
+
+      wheel.update({ accessibleTable: false });
+      expect(container.querySelector('.chart-summary')).toBeNull();
+
+      wheel.destroy();
+    });
+
+    it('summarises what the wheel draws, following dial and object category changes', () => {
+      const renderData = createRenderResponseWithAspects();
+      const wheel = new ChartWheel(container, { renderData, indexes: buildIndexes(renderData), accessibleTable: true });
+      const summaryText = () => container.querySelector('.chart-summary')?.textContent ?? '';
+      expect(summaryText()).toContain('Sun trine Moon');
+
+      wheel.update({ objectCategories: { planet: false } });
+      expect(summaryText()).not.toContain('Sun');
+      expect(summaryText()).not.toContain('Sun trine Moon');
+
+      wheel.update({ objectCategories: undefined, dial: { size: 90 } });
+      expect(summaryText()).toContain('Sun');
+      // The trine isn't a dial aspect
+      expect(summaryText()).not.toContain('Sun trine Moon');
+
+      wheel.destroy();
+    });
+  });
+
+  describe('planet motion', () => {
+    const withMotion = () => {
+      const renderData = createMockRenderResponse();
+      const [sun, moon] = renderData.wheel.rings[2].items! as PlanetRingItem[];
+      sun.speedLon = 0.004;
+      moon.speedLon = -2;
+      moon.retrograde = true;
+      return renderData;
+    };
+
+    it('marks retrograde planets by default', () => {
+      const renderData = withMotion();
+      const wheel = new ChartWheel(container, { renderData, indexes: buildIndexes(renderData) });
+
+      expect(container.querySelector('.planet-moon .planet-retrograde')).toHaveTextContent('℞');
+      expect(container.querySelector('.planet-sun .planet-retrograde')).toBeNull();
+      expect(container.querySelector('.planet-stationary')).toBeNull();
+      expect(container.querySelector('.planet-speed')).toBeNull();
+
+      wheel.update({ planetMotion: { retrograde: false } });
+      expect(container.querySelector('.planet-retrograde')).toBeNull();
+
+      wheel.destroy();
+    });
+
+    it('marks stationary planets below the threshold', () => {
+      const renderData = withMotion();
+      const wheel = new ChartWheel(container, {
+        renderData,
+        indexes: buildIndexes(renderData),
+        planetMotion: { stationary: true },
+      });
+
+      expect(container.querySelector('.planet-sun .planet-stationary')).toHaveTextContent('S');
+      expect(container.querySelector('.planet-moon .planet-stationary')).toBeNull();
+
+      wheel.update({ planetMotion: { stationary: true, stationaryThreshold: 0.001 } });
+      expect(container.querySelector('.planet-stationary')).toBeNull();
+
+      wheel.destroy();
+    });
+
+    it('draws speed ticks pointing in the direction of motion', () => {
+      const renderData = withMotion();
+      const wheel = new ChartWheel(container, {
+        renderData,
+        indexes: buildIndexes(renderData),
+        planetMotion: { speed: true },
+      });
+
+      const moonTick = container.querySelector('.planet-speed-moon');
+      expect(moonTick).toHaveClass('retrograde');
+      expect(moonTick?.getAttribute('d')).toMatch(/^M[-\d.]+,[-\d.]+L/);
+      // Stationary planets only lose their tick to the stationary marker
+      expect(container.querySelector('.planet-speed-sun')).not.toBeNull();
+
+      wheel.update({ planetMotion: { speed: true, stationary: true } });
+      expect(container.querySelector('.planet-speed-sun')).toBeNull();
+      expect(container.querySelector('.planet-sun .planet-stationary')).not.toBeNull();
+
+      wheel.destroy();
+    });
+
+    it('draws speed ticks on slow outer planets', () => {
+      const renderData = withMotion();
+      const planetsRing = renderData.wheel.rings[2];
+      const sun = planetsRing.items![0] as PlanetRingItem;
+      planetsRing.items = [...planetsRing.items!, { ...sun, id: 'planet-neptune', planetId: 'neptune', lon: 330, speedLon: 0.005 }];
+      const wheel = new ChartWheel(container, {
+        renderData,
+        indexes: buildIndexes(renderData),
+        planetMotion: { speed: true },
+      });
+
+      expect(container.querySelector('.planet-speed-neptune')).not.toBeNull();
+
+      // Neptune's usual speed isn't a station either
+      wheel.update({ planetMotion: { speed: true, stationary: true } });
+      expect(container.querySelector('.planet-speed-neptune')).not.toBeNull();
+      expect(container.querySelector('.planet-neptune .planet-stationary')).toBeNull();
+
+      wheel.destroy();
+    });
+  });
+
+  describe('degree labels', () => {
+    it('labels planets, cusps and sign boundaries in the same format', () => {
+      const renderData = createMockRenderResponse();
+      const wheel = new ChartWheel(container, { renderData, indexes: buildIndexes(renderData) });
+
+      expect(container.querySelector('.planet-sun .planet-degrees')).toHaveTextContent("10♑30'");
+      expect(container.querySelector('.house-1 .house-degrees')).toHaveTextContent("15♈00'");
+      expect(container.querySelector('.sign-sign-taurus .sign-cusp')).toHaveTextContent("0♉00'");
+
+      wheel.update({ degreeFormat: 'absolute' });
+      expect(container.querySelector('.planet-sun .planet-degrees')).toHaveTextContent("280°30'");
+      expect(container.querySelector('.house-1 .house-degrees')).toHaveTextContent('15°');
+      expect(container.querySelector('.sign-sign-taurus .sign-cusp')).toHaveTextContent('30°');
+
+      wheel.update({ degreeFormat: 'decimal' });
+      expect(container.querySelector('.planet-sun .planet-degrees')).toHaveTextContent('280.50°');
+
+      wheel.destroy();
+    });
+  });
+
+  describe('zodiac', () => {
+    const getPositionAngle = (element: Element | null) => {
+      const x = Number(element?.getAttribute('x'));
+      const y = Number(element?.getAttribute('y'));
+      return (((Math.atan2(x, -y) * 180) / Math.PI) + 360) % 360;
+    };
+
+    const createSiderealResponse = () => {
+      const renderData = createMockRenderResponse();
+      renderData.settings.zodiacType = 'sidereal';
+      renderData.settings.ayanamsa = 'lahiri';
+      renderData.coordinateSystem.zeroPoint.offsetDegrees = 24;
+      return renderData;
+    };
+
+    it('labels tropical charts', () => {
+      const renderData = createMockRenderResponse();
+      const wheel = new ChartWheel(container, { renderData, indexes: buildIndexes(renderData) });
+
+      expect(container.querySelector('.zodiac-label')).toHaveTextContent('Tropical');
+      // Aries starts at longitude 0°, screen angle 90°
+      expect(getPositionAngle(container.querySelector('.sign-sign-aries .sign-cusp'))).toBeCloseTo(90);
+
+      wheel.update({ showZodiacLabel: false });
+      expect(container.querySelector('.zodiac-label')).toBeNull();
+
+      wheel.destroy();
+    });
+
+    it('shifts the signs by the ayanamsa on sidereal charts, leaving planets in place', () => {
+      const tropical = createMockRenderResponse();
+      const wheel = new ChartWheel(container, { renderData: tropical, indexes: buildIndexes(tropical) });
+      const sunTransform = container.querySelector('.planet-sun')?.getAttribute('transform');
+
+      const sidereal = createSiderealResponse();
+      wheel.update({ renderData: sidereal, indexes: buildIndexes(sidereal) });
+
+      expect(container.querySelector('.zodiac-label')).toHaveTextContent("Sidereal (Lahiri 24°)");
+      expect(getPositionAngle(container.querySelector('.sign-sign-aries .sign-cusp'))).toBeCloseTo(66);
+      expect(container.querySelector('.planet-sun')?.getAttribute('transform')).toBe(sunTransform);
+      // Labels are sidereal: 280°30' - 24° = 256°30', Sagittarius 16°30'
+      expect(container.querySelector('.planet-sun .planet-degrees')).toHaveTextContent("16♐30'");
+      expect(container.querySelector('.planet-sun')).toHaveAttribute('aria-label', "Sun in Sagittarius 16°30', house 10");
+
+      wheel.destroy();
+    });
+
+    it('draws a comparison ring of the other zodiac', () => {
+      const renderData = createSiderealResponse();
+      const wheel = new ChartWheel(container, {
+        renderData,
+        indexes: buildIndexes(renderData),
+        dualZodiac: true,
+      });
+
+      const ring = container.querySelector('.zodiac-comparison');
+      expect(ring).toHaveClass('zodiac-tropical');
+      expect(ring?.querySelectorAll('text')).toHaveLength(12);
+      expect(container.querySelector('.zodiac-label')).toHaveTextContent('outer ring Tropical');
+
+      // Tropical charts need an ayanamsa for the sidereal ring
+      const tropical = createMockRenderResponse();
+      wheel.update({ renderData: tropical, indexes: buildIndexes(tropical) });
+      expect(container.querySelector('.zodiac-comparison')).toBeNull();
+
+      wheel.update({ ayanamsa: 24 });
+      expect(container.querySelector('.zodiac-comparison')).toHaveClass('zodiac-sidereal');
+
+      wheel.update({ dualZodiac: false });
+      expect(container.querySelector('.zodiac-comparison')).toBeNull();
+
+      wheel.destroy();
+    });
+
+    it('labels the sidereal ring of tropical charts with the ayanamsa it is drawn with', () => {
+      const renderData = createMockRenderResponse();
+      // An ayanamsa left in the settings of a tropical chart isn't the one the ring uses
+      renderData.settings.ayanamsa = 'fagan_bradley';
+      const wheel = new ChartWheel(container, {
+        renderData,
+        indexes: buildIndexes(renderData),
+        dualZodiac: true,
+        ayanamsa: 24.1,
+      });
+
+      const label = container.querySelector('.zodiac-label');
+      expect(label).toHaveTextContent("Tropical · outer ring Sidereal (24°06')");
+      expect(label).not.toHaveTextContent(/Fagan/);
+      expect(container.querySelector('.zodiac-comparison')).toHaveClass('zodiac-sidereal');
+
+      wheel.destroy();
+    });
+  });
+
+  describe('coordinate system', () => {
+    const getScreenAngle = (element: Element | null) => {
+      const { x, y } = getTranslate(element);
+      return (((Math.atan2(x, -y) * 180) / Math.PI) + 360) % 360;
+    };
+
+    it('runs the zodiac clockwise when the payload says so', () => {
+      const renderData = createMockRenderResponse();
+      const wheel = new ChartWheel(container, { renderData, indexes: buildIndexes(renderData), planetLayout: false });
+      // Counter-clockwise: the Moon at 40.25° sits at screen angle 90 - 40.25
+      expect(getScreenAngle(container.querySelector('.planet-moon'))).toBeCloseTo(49.75);
+
+      const clockwise = createMockRenderResponse();
+      clockwise.coordinateSystem.direction = 'cw';
+      wheel.update({ renderData: clockwise, indexes: buildIndexes(clockwise) });
+      expect(getScreenAngle(container.querySelector('.planet-moon'))).toBeCloseTo(130.25);
+
+      wheel.destroy();
+    });
+
+    it('keeps view frames anchored on clockwise wheels', () => {
+      const renderData = createMockRenderResponse();
+      renderData.coordinateSystem.direction = 'cw';
+      const wheel = new ChartWheel(container, {
+        renderData,
+        indexes: buildIndexes(renderData),
+        planetLayout: false,
+        viewFrame: { anchor: { kind: 'object', objectId: 'sun' }, screenAngle: 270 },
+      });
+
+      expect(getScreenAngle(container.querySelector('.planet-sun'))).toBeCloseTo(270);
+
+      wheel.destroy();
+    });
+  });
+
+  describe('dial', () => {
+    const getScreenAngle = (element: Element | null) => {
+      const { x, y } = getTranslate(element);
+      return (((Math.atan2(x, -y) * 180) / Math.PI) + 360) % 360;
+    };
+
+    it('spreads positions over the dial and replaces the signs with a degree scale', () => {
+      const renderData = createMockRenderResponse();
+      const wheel = new ChartWheel(container, {
+        renderData,
+        indexes: buildIndexes(renderData),
+        planetLayout: false,
+        dial: { size: 90 },
+      });
+
+      // The Sun at 280.5° is at 10.5° on the dial, a quarter of the way round: 90 - 42
+      expect(getScreenAngle(container.querySelector('.planet-sun'))).toBeCloseTo(48);
+      // Labels keep the real position
+      expect(container.querySelector('.planet-sun .planet-degrees')?.textContent).toBe("10♑30'");
+      expect(container.querySelector('.sign')).toBeNull();
+      const scaleLabels = Array.from(container.querySelectorAll('.dial-scale-label'), (label) => label.textContent);
+      expect(scaleLabels).toHaveLength(18);
+      expect(scaleLabels.slice(0, 3)).toEqual(['0°', '5°', '10°']);
+      expect(container.querySelector('.zodiac-label')?.textContent).toBe('90° dial · Tropical');
+
+      wheel.destroy();
+    });
+
+    it('keeps the sign ring on harmonic charts', () => {
+      const renderData = createMockRenderResponse();
+      const wheel = new ChartWheel(container, {
+        renderData,
+        indexes: buildIndexes(renderData),
+        planetLayout: false,
+        dial: { harmonic: 5 },
+      });
+
+      // 280.5 × 5 = 1402.5, which is 322.5° round the wheel
+      expect(getScreenAngle(container.querySelector('.planet-sun'))).toBeCloseTo(127.5);
+      expect(container.querySelectorAll('.sign').length).toBeGreaterThan(0);
+      expect(container.querySelector('.dial-scale')).toBeNull();
+      expect(container.querySelector('.zodiac-label')?.textContent).toBe('Harmonic 5 · Tropical');
+
+      wheel.destroy();
+    });
+
+    it("draws the dial's aspects instead of the chart's", () => {
+      const renderData = createRenderResponseWithAspects();
+      const wheel = new ChartWheel(container, { renderData, indexes: buildIndexes(renderData), dial: { size: 90 } });
+
+      expect(container.querySelector('.aspect')).toBeNull();
+
+      wheel.update({ dial: undefined });
+      expect(container.querySelector('.aspect')).not.toBeNull();
+
+      wheel.destroy();
+    });
+
+    it('turns the pointer when it is dragged', () => {
+      const renderData = createMockRenderResponse();
+      const onDialPointerChange = vi.fn();
+      const wheel = new ChartWheel(container, {
+        renderData,
+        indexes: buildIndexes(renderData),
+        dial: { size: 90, pointer: 0 },
+        onDialPointerChange,
+      });
+
+      const pointer = container.querySelector('.dial-pointer')!;
+      expect(pointer.getAttribute('data-lon')).toBe('0');
+
+      // d3-drag listens on the event's view for moves
+      const mouseEvent = (type: string, clientX: number, clientY: number) =>
+        Object.defineProperty(new MouseEvent(type, { bubbles: true, clientX, clientY }), 'view', { value: window });
+
+      // The chart is centred at (400, 400); dragging to the top of the wheel points at 22.5° on a 90° dial
+      pointer.dispatchEvent(mouseEvent('mousedown', 500, 400));
+      window.dispatchEvent(mouseEvent('mousemove', 400, 300));
+      window.dispatchEvent(mouseEvent('mouseup', 400, 300));
+
+      expect(onDialPointerChange).toHaveBeenCalledWith(22.5);
+      expect(container.querySelector('.dial-pointer')?.getAttribute('data-lon')).toBe('22.5');
+
+      // A new dial resets the pointer
+      wheel.update({ dial: { size: 45, pointer: 10 } });
+      expect(container.querySelector('.dial-pointer')?.getAttribute('data-lon')).toBe('10');
+
+      wheel.destroy();
+    });
+  });
+
+  describe('glyph sets', () => {
+    it('draws path glyphs from the built-in SVG set, scaled to the glyph size', () => {
+      const renderData = createMockRenderResponse();
+      const wheel = new ChartWheel(container, {
+        renderData,
+        indexes: buildIndexes(renderData),
+        planetLayout: false,
+        glyphSet: 'svg',
+      });
+
+      const sun = container.querySelector('.planet-sun .planet-glyph');
+      expect(sun?.tagName).toBe('path');
+      expect(sun).toHaveAttribute('transform', 'translate(-6, -6) scale(0.12)');
+      expect(sun).toHaveAttribute('fill', 'none');
+      expect(sun).toHaveAttribute('stroke', getDarkModeTheme('traditional').planetColors![0]);
+      const aries = container.querySelector('.sign-aries .sign-glyph');
+      expect(aries?.tagName).toBe('path');
+      expect(aries?.getAttribute('transform')).toMatch(/^rotate\(.+\) translate\(.+\) scale\(0\.096/);
+
+      wheel.destroy();
+    });
+
+    it('draws symbol references with <use>, and Unicode glyphs from an inline set as text', () => {
+      const renderData = createMockRenderResponse();
+      const wheel = new ChartWheel(container, {
+        renderData,
+        indexes: buildIndexes(renderData),
+        planetLayout: false,
+        glyphSet: { objects: { sun: { symbol: 'my-sun' }, moon: 'Mo' } },
+      });
+
+      const sun = container.querySelector('.planet-sun .planet-glyph');
+      expect(sun?.tagName).toBe('use');
+      expect(sun).toHaveAttribute('href', '#my-sun');
+      expect(sun).toHaveAttribute('width', '12');
+      expect(container.querySelector('.planet-moon .planet-glyph')?.textContent).toBe('Mo');
+      // Signs aren't in the set
+      expect(container.querySelector('.sign-aries .sign-glyph')?.textContent).toBe('♈');
+
+      wheel.destroy();
+    });
+  });
+
+  describe('object categories', () => {
+    it('colours registered objects and hides categories that are switched off', () => {
+      const renderData = createRenderResponseWithAspects();
+      const planetsRing = renderData.wheel.rings.find((ring) => ring.id === 'planets')!;
+      const sun = planetsRing.items![0] as PlanetRingItem;
+      planetsRing.items = [...planetsRing.items!, { ...sun, id: 'planet-vesta', planetId: 'vesta', lon: 150 }];
+      renderData.aspects.sets['natal-aspects'].pairs.push({
+        id: 'aspect-vesta',
+        from: { layerId: 'natal', objectType: 'planet', objectId: 'moon' },
+        to: { layerId: 'natal', objectType: 'planet', objectId: 'vesta' },
+        aspect: { type: 'trine', exactAngle: 120, orb: 1.75, isApplying: true, isExact: false },
+      });
+      const indexes = buildIndexes(renderData);
+      const wheel = new ChartWheel(container, { renderData, indexes, planetLayout: false });
+
+      const vesta = container.querySelector('.planet-vesta .planet-glyph');
+      expect(vesta?.textContent).toBe('⚶');
+      expect(vesta).toHaveAttribute('fill', '#FF8A65');
+      expect(container.querySelector('.planet-vesta .planet-label')?.textContent).toBe('Vesta');
+      expect(container.querySelectorAll('line.aspect')).toHaveLength(2);
+
+      wheel.update({ renderData, indexes, planetLayout: false, objectCategories: { asteroid: false } });
+
+      expect(container.querySelector('.planet-vesta')).toBeNull();
+      expect(container.querySelector('.planet-sun')).not.toBeNull();
+      expect(container.querySelectorAll('line.aspect')).toHaveLength(1);
+
+      wheel.destroy();
+    });
+
+    it('takes the house cusps at the angles off the wheel when angles are hidden', () => {
+      const renderData = createRenderResponseWithAspects();
+      const wheel = new ChartWheel(container, {
+        renderData,
+        indexes: buildIndexes(renderData),
+        objectCategories: { angle: false },
+      });
+
+      // House 1 starts at the Ascendant; house 2 isn't an angle
+      expect(container.querySelector('.house-1')).toBeNull();
+      expect(container.querySelector('.house-2')).not.toBeNull();
+      expect(container.querySelector('[data-item-key="houses/house-1"]')).toBeNull();
+
+      wheel.update({ objectCategories: undefined });
+      expect(container.querySelector('.house-1')).not.toBeNull();
+
+      wheel.destroy();
+    });
+  });
+
+  describe('coloring', () => {
+    it('colours signs by element and houses by the ruler of the sign on the cusp', () => {
+      const renderData = createMockRenderResponse();
+      const wheel = new ChartWheel(container, {
+        renderData,
+        indexes: buildIndexes(renderData),
+        theme: 'modern',
+        coloring: { signs: 'element', houses: 'ruler', elementColors: { earth: '#5a3' } },
+      });
+
+      expect(container.querySelector('.sign-taurus .sign-glyph')).toHaveAttribute('fill', '#5a3');
+      expect(container.querySelector('.sign-taurus .sign-glyph')).toHaveStyle({ fill: 'var(--aphrodite-element-earth, #5a3)' });
+      // The 1st house cusp is in Aries, ruled by Mars
+      const mars = container.querySelector('.house-1 .house-line');
+      expect(mars).toHaveAttribute('stroke', getDarkModeTheme('modern').planetColors![4]);
+      expect(mars).toHaveStyle({ stroke: `var(--aphrodite-planet-mars, ${getDarkModeTheme('modern').planetColors![4]})` });
+
+      wheel.destroy();
+    });
+
+    it('fills a banded sign ring with alternating shades', () => {
+      const renderData = createMockRenderResponse();
+      const wheel = new ChartWheel(container, {
+        renderData,
+        indexes: buildIndexes(renderData),
+        coloring: { signs: 'band' },
+      });
+
+      const aries = container.querySelector('.sign-aries .sign-segment');
+      const taurus = container.querySelector('.sign-taurus .sign-segment');
+      expect(aries).toHaveClass('sign-band-even');
+      expect(taurus).toHaveClass('sign-band-odd');
+      expect(aries?.getAttribute('fill-opacity')).not.toBe(taurus?.getAttribute('fill-opacity'));
+      expect(aries).toHaveAttribute('fill', getDarkModeTheme('traditional').strokeColor);
+
+      wheel.destroy();
+    });
+
+    it('draws each sign segment along the short arc in both directions', () => {
+      const largeArcFlags = () =>
+        Array.from(container.querySelectorAll('.sign-segment')).flatMap((segment) =>
+          Array.from(segment.getAttribute('d')!.matchAll(/A[^,]+,[^,]+,[^,]+,([01]),/g), (match) => match[1])
+        );
+      const renderData = createMockRenderResponse();
+      const wheel = new ChartWheel(container, {
+        renderData,
+        indexes: buildIndexes(renderData),
+        coloring: { signs: 'band' },
+      });
+      expect(largeArcFlags().length).toBeGreaterThan(0);
+      expect(largeArcFlags().every((flag) => flag === '0')).toBe(true);
+
+      const clockwise = createMockRenderResponse();
+      clockwise.coordinateSystem.direction = 'cw';
+      wheel.update({ renderData: clockwise, indexes: buildIndexes(clockwise) });
+      expect(largeArcFlags().length).toBeGreaterThan(0);
+      expect(largeArcFlags().every((flag) => flag === '0')).toBe(true);
+
+      wheel.destroy();
+    });
+  });
+
+  describe('colour scheme', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('draws the light variant of the theme', () => {
+      const renderData = createMockRenderResponse();
+      const wheel = new ChartWheel(container, {
+        renderData,
+        indexes: buildIndexes(renderData),
+        theme: 'modern',
+        colorScheme: 'light',
+      });
+
+      expect(container.querySelector('svg')).toHaveClass('scheme-light');
+      expect(container.querySelector('.chart-background')?.getAttribute('fill')).toBe('#FFFFFF');
+
+      wheel.destroy();
+    });
+
+    it("follows prefers-color-scheme with 'auto'", () => {
+      let listener: (() => void) | null = null;
+      const query = {
+        matches: true,
+        addEventListener: vi.fn((_type: string, callback: () => void) => (listener = callback)),
+        removeEventListener: vi.fn(),
+      };
+      vi.stubGlobal('matchMedia', vi.fn(() => query));
+      const renderData = createMockRenderResponse();
+      const wheel = new ChartWheel(container, {
+        renderData,
+        indexes: buildIndexes(renderData),
+        theme: 'high-contrast',
+        colorScheme: 'auto',
+      });
+      expect(container.querySelector('.chart-background')?.getAttribute('fill')).toBe('#000000');
+
+      // The switch goes through the custom properties the colours read; the chart isn't rebuilt
+      query.matches = false;
+      listener!();
+      const svg = container.querySelector('svg')!;
+      expect(svg).toHaveClass('scheme-light');
+      expect(svg.style.getPropertyValue('--aphrodite-background')).toBe('#FFFFFF');
+      expect(container.querySelector('.chart-background')?.getAttribute('fill')).toBe('#000000');
+
+      // The next render draws the chart in the scheme, and the properties make way for the page's again
+      wheel.update({});
+      expect(container.querySelector('.chart-background')?.getAttribute('fill')).toBe('#FFFFFF');
+      expect(svg.style.getPropertyValue('--aphrodite-background')).toBe('');
+
+      wheel.destroy();
+      expect(query.removeEventListener).toHaveBeenCalledWith('change', listener);
+    });
+
+    it("only listens for prefers-color-scheme while colorScheme is 'auto'", () => {
+      const query = { matches: true, addEventListener: vi.fn(), removeEventListener: vi.fn() };
+      vi.stubGlobal('matchMedia', vi.fn(() => query));
+      const renderData = createMockRenderResponse();
+      const wheel = new ChartWheel(container, { renderData, indexes: buildIndexes(renderData), colorScheme: 'dark' });
+      expect(query.addEventListener).not.toHaveBeenCalled();
+
+      wheel.update({ colorScheme: 'auto' });
+      wheel.update({ theme: 'modern' });
+      expect(query.addEventListener).toHaveBeenCalledTimes(1);
+      const listener = query.addEventListener.mock.calls[0][1];
+
+      wheel.update({ colorScheme: 'light' });
+      expect(query.removeEventListener).toHaveBeenCalledWith('change', listener);
+
+      wheel.destroy();
+      expect(query.removeEventListener).toHaveBeenCalledTimes(1);
+      vi.unstubAllGlobals();
+    });
+
+    it('leaves the custom properties the page sets when the scheme switches', () => {
+      let listener: (() => void) | null = null;
+      const query = {
+        matches: true,
+        addEventListener: vi.fn((_type: string, callback: () => void) => (listener = callback)),
+        removeEventListener: vi.fn(),
+      };
+      vi.stubGlobal('matchMedia', vi.fn(() => query));
+      const style = document.createElement('style');
+      style.textContent = '.chart-wheel { --aphrodite-background: #123456; --aphrodite-text: #654321; }';
+      document.head.appendChild(style);
+      const renderData = createMockRenderResponse();
+      const wheel = new ChartWheel(container, {
+        renderData,
+        indexes: buildIndexes(renderData),
+        theme: 'high-contrast',
+        colorScheme: 'auto',
+        coloring: { signs: 'element' },
+      });
+
+      query.matches = false;
+      listener!();
+      const svg = container.querySelector('svg')!;
+      expect(svg.style.getPropertyValue('--aphrodite-background')).toBe('');
+      expect(svg.style.getPropertyValue('--aphrodite-stroke')).not.toBe('');
+      expect(svg.style.getPropertyValue('--aphrodite-element-fire')).not.toBe('');
+
+      // Labels read the text properties too: the page's name colour stays, degrees take the light scheme's
+      expect(container.querySelector('.planet-sun .planet-label')).toHaveStyle({ fill: 'var(--aphrodite-text, #e0e0e0)' });
+      expect(container.querySelector('.planet-sun .planet-degrees')).toHaveStyle({
+        fill: 'var(--aphrodite-text-muted, #c0c0c0)',
+      });
+      expect(svg.style.getPropertyValue('--aphrodite-text')).toBe('');
+      expect(svg.style.getPropertyValue('--aphrodite-text-muted')).toBe('#505050');
+
+      wheel.destroy();
+      style.remove();
+    });
+  });
+
+  describe('render errors', () => {
+    it('reports render errors to onError, and throws them without it', () => {
+      const renderData = createMockRenderResponse();
+      const broken = { ...renderData, wheel: undefined } as unknown as typeof renderData;
+      const onError = vi.fn();
+      const wheel = new ChartWheel(container, { renderData, indexes: buildIndexes(renderData), onError });
+
+      wheel.update({ renderData: broken });
+      expect(onError).toHaveBeenCalledWith(expect.any(TypeError));
+
+      expect(() => wheel.update({ onError: undefined })).toThrow(TypeError);
+
+      wheel.destroy();
+    });
+  });
+});
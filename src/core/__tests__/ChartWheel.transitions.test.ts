@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+// d3-timer takes its clock and animation frames from the globals when it loads, so they are faked before
+// anything imports d3. Transitions then run on fake time, advanced by the tests.
+vi.hoisted(() => {
+  vi.useFakeTimers({ toFake: ['performance', 'requestAnimationFrame', 'cancelAnimationFrame'] });
+});
+
+import { ChartWheel } from '../ChartWheel';
+import { buildIndexes } from '../../utils/buildIndexes';
+import { createRenderResponseWithSunAt } from '../../test/fixtures';
+
+/**
+ * Angle of an element around the wheel centre, in degrees clockwise from the top
+ */
+function getScreenAngle(element: Element | null): number {
+  const match = element?.getAttribute('transform')?.match(/translate\(([-\d.e]+),\s*([-\d.e]+)\)/);
+  if (!match) throw new Error('Element has no translate transform');
+  const [x, y] = [Number(match[1]), Number(match[2])];
+  return (((Math.atan2(x, -y) * 180) / Math.PI) + 360) % 360;
+}
+
+describe('ChartWheel transitions', () => {
+  let container: HTMLDivElement;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    container.remove();
+  });
+
+  it('applies updates immediately without a transition', () => {
+    const renderData = createRenderResponseWithSunAt(350);
+    const wheel = new ChartWheel(container, { renderData, indexes: buildIndexes(renderData) });
+
+    const updated = createRenderResponseWithSunAt(10);
+    wheel.update({ renderData: updated, indexes: buildIndexes(updated) });
+
+    // Longitude 10° sits at screen angle 80° (astro 0° is at 90°, counter-clockwise)
+    expect(getScreenAngle(container.querySelector('.planet-sun'))).toBeCloseTo(80);
+
+    wheel.destroy();
+  });
+
+  it('moves planets along the shortest arc across 0°', () => {
+    const renderData = createRenderResponseWithSunAt(350);
+    const wheel = new ChartWheel(container, {
+      renderData,
+      indexes: buildIndexes(renderData),
+      transition: { duration: 300, easing: (t) => t },
+    });
+
+    const updated = createRenderResponseWithSunAt(10);
+    wheel.update({ renderData: updated, indexes: buildIndexes(updated) });
+    vi.advanceTimersByTime(150);
+
+    // On the way from screen angle 100° to 80°, not the long way round
+    const midway = getScreenAngle(container.querySelector('.planet-sun'));
+    expect(midway).toBeGreaterThan(85);
+    expect(midway).toBeLessThan(95);
+
+    vi.advanceTimersByTime(200);
+    expect(getScreenAngle(container.querySelector('.planet-sun'))).toBeCloseTo(80);
+
+    wheel.destroy();
+  });
+
+  it('turns the wheel when the rotation changes', () => {
+    const renderData = createRenderResponseWithSunAt(0);
+    const wheel = new ChartWheel(container, {
+      renderData,
+      indexes: buildIndexes(renderData),
+      transition: { duration: 300, easing: (t) => t },
+    });
+
+    wheel.update({ rotationOffset: 40 });
+    vi.advanceTimersByTime(150);
+
+    const midway = getScreenAngle(container.querySelector('.planet-sun'));
+    expect(midway).toBeGreaterThan(65);
+    expect(midway).toBeLessThan(75);
+
+    vi.advanceTimersByTime(200);
+    expect(getScreenAngle(container.querySelector('.planet-sun'))).toBeCloseTo(50);
+
+    wheel.destroy();
+  });
+});
@@ -0,0 +1,104 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { buildExportSvg, defaultExportStyles, resolveExportImageOptions } from '../exportImage';
+import { renderChartToImage } from '../renderToImage';
+import { buildIndexes } from '../../utils/buildIndexes';
+import { createMockRenderResponse } from '../../test/fixtures';
+
+const sharpCalls = vi.hoisted(() => ({ input: null as Uint8Array | null, options: null as unknown, format: '', formatOptions: null as unknown }));
+
+vi.mock('sharp', () => {
+  const sharp = vi.fn((input: Uint8Array, options: unknown) => {
+    sharpCalls.input = input;
+    sharpCalls.options = options;
+    return {
+      png: vi.fn(function (this: unknown, formatOptions?: unknown) {
+        sharpCalls.format = 'png';
+        sharpCalls.formatOptions = formatOptions;
+        return this;
+      }),
+      jpeg: vi.fn(function (this: unknown, formatOptions?: unknown) {
+        sharpCalls.format = 'jpeg';
+        sharpCalls.formatOptions = formatOptions;
+        return this;
+      }),
+      toBuffer: vi.fn(async () => new Uint8Array([1, 2, 3])),
+    };
+  });
+  return { default: sharp };
+});
+
+describe('buildExportSvg', () => {
+  const renderData = createMockRenderResponse();
+  const sceneOptions = { renderData, indexes: buildIndexes(renderData), width: 400, height: 400 };
+
+  it('embeds the chart styles and keeps the background', async () => {
+    const svg = await buildExportSvg(sceneOptions);
+
+    expect(svg).toContain('<defs><style type="text/css">');
+    expect(svg).toContain(defaultExportStyles.split('\n')[0]);
+    expect(svg).toContain('class="chart-background"');
+  });
+
+  it('leaves out the background for transparent exports', async () => {
+    const svg = await buildExportSvg(sceneOptions, { transparent: true });
+    expect(svg).not.toContain('chart-background');
+  });
+
+  it('inlines fonts as data URLs', async () => {
+    const svg = await buildExportSvg(sceneOptions, {
+      fonts: [{ family: 'Astro Glyphs', src: new Uint8Array([104, 105]), format: 'woff2' }],
+    });
+
+    expect(svg).toContain('@font-face { font-family: "Astro Glyphs"; src: url(data:font/woff2;base64,aGk=) format("woff2"); }');
+  });
+});
+
+describe('defaultExportStyles', () => {
+  it('are the chart rules of ChartWheel.css', () => {
+    const rules = defaultExportStyles.split('\n');
+
+    expect(rules[0]).toBe(
+      '.chart-content text { text-anchor: middle; dominant-baseline: middle; font-family: Arial, sans-serif; fill: var(--aphrodite-text, #e0e0e0); }'
+    );
+    expect(rules).toContain('.chart-content .aspect.selected { stroke-width: 3; opacity: 1; }');
+    expect(rules.every((rule) => rule.split('{')[0].includes('.chart-content'))).toBe(true);
+    expect(defaultExportStyles).not.toMatch(/chart-tooltip|aspect-grid|\/\*/);
+  });
+});
+
+describe('resolveExportImageOptions', () => {
+  it('defaults to a PNG at 1x', () => {
+    expect(resolveExportImageOptions()).toEqual({ format: 'png', pixelRatio: 1, transparent: false, quality: 0.92 });
+  });
+
+  it('rejects transparent JPEGs and invalid pixel ratios', () => {
+    expect(() => resolveExportImageOptions({ format: 'jpeg', transparent: true })).toThrow(/PNG/);
+    expect(() => resolveExportImageOptions({ pixelRatio: 0 })).toThrow(/pixelRatio/);
+  });
+});
+
+describe('renderChartToImage', () => {
+  beforeEach(() => {
+    sharpCalls.input = null;
+    sharpCalls.format = '';
+  });
+
+  it('rasterizes the export SVG with sharp at the requested density', async () => {
+    const renderData = createMockRenderResponse();
+    const image = await renderChartToImage(renderData, { width: 300, height: 300, pixelRatio: 2 });
+
+    expect(image).toEqual(new Uint8Array([1, 2, 3]));
+    expect(sharpCalls.options).toEqual({ density: 144 });
+    expect(sharpCalls.format).toBe('png');
+    const svg = new TextDecoder().decode(sharpCalls.input!);
+    expect(svg).toBe(await buildExportSvg({ renderData, indexes: buildIndexes(renderData), width: 300, height: 300 }));
+  });
+
+  it('encodes JPEG with the requested quality', async () => {
+    await renderChartToImage(createMockRenderResponse(), { format: 'jpeg', quality: 0.8 });
+
+    expect(sharpCalls.format).toBe('jpeg');
+    expect(sharpCalls.formatOptions).toEqual({ quality: 80 });
+  });
+});
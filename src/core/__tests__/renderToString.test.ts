@@ -0,0 +1,68 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { renderChartToSvgString } from '../renderToString';
+import { serializeScene, SceneNode } from '../scene';
+import { buildIndexes } from '../../utils/buildIndexes';
+import { createRenderResponseWithAspects, createMultiLayerRenderResponse } from '../../test/fixtures';
+
+describe('renderChartToSvgString', () => {
+  it('renders without a DOM', () => {
+    expect(typeof document).toBe('undefined');
+
+    const svg = renderChartToSvgString(createRenderResponseWithAspects(), { width: 400, height: 400 });
+
+    expect(svg.startsWith('<svg xmlns="http://www.w3.org/2000/svg" width="400" height="400" viewBox="0 0 400 400"')).toBe(true);
+    expect(svg).toContain('class="chart-content" transform="translate(200, 200)"');
+    expect(svg).toContain('class="planet planet-sun layer-natal"');
+    expect(svg).toContain('class="aspect aspect-trine"');
+    expect(svg.endsWith('</svg>')).toBe(true);
+  });
+
+  it('builds indexes when none are given', () => {
+    const renderData = createMultiLayerRenderResponse();
+    expect(renderChartToSvgString(renderData)).toBe(
+      renderChartToSvgString(renderData, { indexes: buildIndexes(renderData) })
+    );
+  });
+
+  it('applies render options', () => {
+    const renderData = createMultiLayerRenderResponse();
+    expect(renderChartToSvgString(renderData)).toContain('class="legend"');
+    expect(renderChartToSvgString(renderData, { showLegend: false })).not.toContain('class="legend"');
+  });
+
+  it('defines the symbols its glyphs reference', () => {
+    const svg = renderChartToSvgString(createRenderResponseWithAspects(), {
+      glyphSet: { objects: { sun: { symbol: 'my-sun', path: 'M10 10L90 90', size: 100 }, moon: { symbol: 'my-moon' } } },
+    });
+
+    expect(svg).toContain('<use class="planet-glyph" href="#my-sun"');
+    expect(svg).toContain('<defs><symbol id="my-sun" viewBox="0 0 100 100"><path d="M10 10L90 90"/></symbol></defs>');
+    // Symbols without path data have to be on the page
+    expect(svg).not.toContain('<symbol id="my-moon"');
+  });
+});
+
+describe('serializeScene', () => {
+  it('escapes text and attributes and self-closes empty elements', () => {
+    const root = new SceneNode('svg');
+    root.append('text').attr('data-label', 'a "b" & c').text('<Sun & Moon>');
+    root.append('circle').attr('r', 5).attr('fill', null);
+
+    expect(serializeScene(root)).toBe(
+      '<svg xmlns="http://www.w3.org/2000/svg">' +
+        '<text data-label="a &quot;b&quot; &amp; c">&lt;Sun &amp; Moon&gt;</text>' +
+        '<circle r="5"/>' +
+        '</svg>'
+    );
+  });
+
+  it('sets and removes style properties', () => {
+    const node = new SceneNode('rect').attr('style', 'display: block;').style('fill', 'var(--a, #fff)').style('stroke', '#000');
+    expect(node.attrs.style).toBe('display: block; fill: var(--a, #fff); stroke: #000;');
+
+    node.style('fill', 'red').style('display', null);
+    expect(node.attrs.style).toBe('stroke: #000; fill: red;');
+    expect(node.style('stroke', null).style('fill', undefined).attrs.style).toBeUndefined();
+  });
+});
@@ -0,0 +1,285 @@
+import { RenderResponse, IndexesDTO, AspectObjectRef, AspectPairDTO } from '@gaia-tools/iris-core';
+import { VisualConfig, GlyphConfig } from '@gaia-tools/aphrodite';
+import { SceneNode } from './scene';
+import { appendGlyph, appendSymbolDefs } from './glyphs';
+import {
+  Theme,
+  ColorScheme,
+  mergeVisualConfig,
+  mergeGlyphConfig,
+  getObjectInfo,
+  formatDegreesMinutes,
+} from '../utils/chartWheelHelpers';
+import { resolveColorScheme } from '../utils/themes';
+import { cssVariable, cssColor, getThemeCssVariables } from '../utils/cssVariables';
+import { GlyphSet, resolveGlyphSet, getObjectGlyph, getAspectGlyph } from '../utils/glyphSets';
+import { getObjectColor } from '../utils/objects';
+import { AspectGridLayout, getAspectGridLayout, getAspectGridCellKey, resolveAspectGridSet } from '../utils/aspectGrid';
+import { logicalIdFromAspectRef } from '../utils/buildIndexes';
+import { ChartHighlight } from '../utils/hover';
+import { getAspectAccessibleName, getItemAccessibleName } from '../utils/accessibility';
+
+/**
+ * Everything needed to build the aspect grid scene
+ */
+export interface AspectGridSceneOptions {
+  renderData: RenderResponse;
+  indexes: IndexesDTO;
+  /**
+   * Aspect set to show (default: the chart's first set). Sets between two layers are drawn as a rectangle,
+   * e.g. transit planets down the side and natal planets along the top.
+   */
+  aspectSetId?: string;
+  /**
+   * Width and height of a cell in pixels (default: 28)
+   */
+  cellSize?: number;
+  theme?: Theme;
+  /**
+   * Light or dark variant of the theme; 'auto' follows the page's prefers-color-scheme (default: 'dark')
+   */
+  colorScheme?: ColorScheme | 'auto';
+  visualConfig?: VisualConfig;
+  glyphConfig?: GlyphConfig;
+  /**
+   * Glyphs keyed by id: the name of a registered set ('svg' is built in) or the set itself
+   */
+  glyphSet?: string | GlyphSet;
+  /**
+   * Show each aspect's orb under its glyph (default: true)
+   */
+  showOrbs?: boolean;
+  /**
+   * Objects and aspects to emphasise; everything else is dimmed. Pass the wheel's hover highlight to keep both in step.
+   */
+  highlight?: ChartHighlight | null;
+  /**
+   * Selected objects (logical ids) and aspects (aspect ids)
+   */
+  selectedIds?: string[];
+  /**
+   * Accessible name of the grid (default: "Aspect grid")
+   */
+  ariaLabel?: string;
+}
+
+const DEFAULT_CELL_SIZE = 28;
+const GRID_PADDING = 8;
+
+/**
+ * Size of the grid in pixels for a layout
+ */
+export function getAspectGridSize(layout: AspectGridLayout | null, cellSize: number = DEFAULT_CELL_SIZE) {
+  if (!layout) return { width: GRID_PADDING * 2, height: GRID_PADDING * 2 };
+  // Rectangles have a header row and column; triangles carry the objects on the diagonal
+  const headers = layout.shape === 'rectangle' ? 1 : 0;
+  return {
+    width: (layout.columns.length + headers) * cellSize + GRID_PADDING * 2,
+    height: (layout.rows.length + headers) * cellSize + GRID_PADDING * 2,
+  };
+}
+
+/**
+ * The grid's colours in its colour scheme, by the --aphrodite-* custom property each one falls back from
+ */
+export function getAspectGridColorVariables(options: AspectGridSceneOptions): Record<string, string> {
+  const { theme, colorScheme, visualConfig } = options;
+  return getThemeCssVariables(mergeVisualConfig(visualConfig, theme, resolveColorScheme(colorScheme)));
+}
+
+/**
+ * Build the aspect grid (aspectarian) as a scene tree: object glyphs on the diagonal (or along the top and side
+ * of a rectangle) and a cell per aspect with its glyph, orb and an applying (A) or separating (S) marker
+ */
+export function buildAspectGridScene(options: AspectGridSceneOptions): SceneNode {
+  const {
+    renderData,
+    indexes,
+    aspectSetId,
+    cellSize = DEFAULT_CELL_SIZE,
+    theme,
+    colorScheme,
+    visualConfig,
+    glyphConfig,
+    glyphSet,
+    showOrbs = true,
+    highlight,
+    selectedIds,
+    ariaLabel = 'Aspect grid',
+  } = options;
+
+  const set = resolveAspectGridSet(renderData, aspectSetId);
+  const layout = set ? getAspectGridLayout(renderData, set) : null;
+  const { width, height } = getAspectGridSize(layout, cellSize);
+  const scheme = resolveColorScheme(colorScheme);
+  const mergedVisualConfig = mergeVisualConfig(visualConfig, theme, scheme);
+  const mergedGlyphConfig = mergeGlyphConfig(glyphConfig);
+  const resolvedGlyphSet = resolveGlyphSet(glyphSet);
+  const strokeColor = mergedVisualConfig.strokeColor || '#999';
+  const backgroundColor = mergedVisualConfig.backgroundColor || 'transparent';
+  // Attribute colours for renderers without CSS, and --aphrodite-* custom properties for pages to retheme with
+  const strokeFill = cssColor(cssVariable('stroke'), strokeColor);
+  const backgroundFill = cssColor(cssVariable('background'), backgroundColor);
+
+  const highlightedObjects = new Set(highlight?.logicalIds ?? []);
+  const highlightedAspects = new Set(highlight?.aspectIds ?? []);
+  const highlightClass = (highlighted: boolean) => (highlighted ? ' highlighted' : '');
+  const selected = new Set(selectedIds ?? []);
+  const selectedClass = (id: string) => (selected.has(id) ? ' selected' : '');
+
+  const svg = new SceneNode('svg')
+    .attr('class', `aspect-grid scheme-${scheme}${highlight ? ' has-highlight' : ''}`)
+    .attr('width', width)
+    .attr('height', height)
+    .attr('viewBox', `0 0 ${width} ${height}`)
+    .attr('style', 'display: block;')
+    .attr('role', 'group')
+    .attr('aria-label', ariaLabel);
+  svg.append('title').text(ariaLabel);
+
+  svg
+    .append('rect')
+    .keyed('background')
+    .attr('class', 'aspect-grid-background')
+    .attr('width', width)
+    .attr('height', height)
+    .attr('fill', backgroundColor)
+    .style('fill', backgroundFill);
+
+  if (!layout) return svg;
+
+  const content = svg
+    .append('g')
+    .keyed(layout.set.id)
+    .attr('class', `aspect-grid-content aspect-grid-${layout.shape}`)
+    .attr('transform', `translate(${GRID_PADDING}, ${GRID_PADDING})`);
+  const headers = layout.shape === 'rectangle' ? 1 : 0;
+  const withLayer = layout.shape === 'rectangle';
+
+  const drawCell = (node: SceneNode) =>
+    node
+      .append('rect')
+      .attr('width', cellSize)
+      .attr('height', cellSize)
+      .attr('fill', backgroundColor)
+      .style('fill', backgroundFill)
+      .attr('stroke', strokeColor)
+      .style('stroke', strokeFill)
+      .attr('stroke-width', 0.5);
+
+  // Objects: a glyph in a cell, interactive when the object is drawn on the wheel
+  const drawObject = (ref: AspectObjectRef, position: 'diagonal' | 'row' | 'column', x: number, y: number) => {
+    const logicalId = logicalIdFromAspectRef(ref);
+    const objectInfo = getObjectInfo(ref.objectId);
+    const glyph =
+      getObjectGlyph(ref.objectId, resolvedGlyphSet, mergedGlyphConfig) || objectInfo.label.slice(0, 3);
+    const color = getObjectColor(ref.objectId, mergedVisualConfig) || strokeColor;
+
+    const objectGroup = content
+      .append('g')
+      .keyed(`${position}:${logicalId}`)
+      .attr(
+        'class',
+        `grid-object object-${ref.objectId} layer-${ref.layerId}${highlightClass(highlightedObjects.has(logicalId))}${selectedClass(logicalId)}`
+      )
+      .attr('transform', `translate(${x}, ${y})`);
+    drawCell(objectGroup);
+    appendGlyph(objectGroup, glyph, {
+      x: cellSize / 2,
+      y: cellSize / 2,
+      size: cellSize * 0.55,
+      color,
+      cssColor: cssColor(cssVariable('planet', ref.objectId), color),
+      fontFamily: mergedGlyphConfig.glyphFont || 'Arial',
+    });
+
+    const location = indexes.itemsByLogicalId[logicalId]?.[0];
+    const ring = location ? indexes.ringById[location.ringId] : undefined;
+    const item = location ? indexes.itemByRingAndId[location.ringId]?.[location.itemId] : undefined;
+    if (ring && item) {
+      objectGroup.attr('aria-label', getItemAccessibleName(item, renderData)).interact({ kind: 'item', item, ring });
+    } else {
+      const layerLabel = renderData.layers[ref.layerId]?.label;
+      objectGroup.attr('aria-label', withLayer && layerLabel ? `${layerLabel} ${objectInfo.label}` : objectInfo.label);
+    }
+  };
+
+  const drawAspect = (aspect: AspectPairDTO, x: number, y: number) => {
+    const { type, orb, isApplying, isExact } = aspect.aspect;
+    const aspectColor = mergedVisualConfig.aspectColors?.[type] || strokeColor;
+    const aspectGroup = content
+      .append('g')
+      .keyed(aspect.id)
+      .attr(
+        'class',
+        `aspect-cell aspect-${type}${highlightClass(highlightedAspects.has(aspect.id))}${selectedClass(aspect.id)}`
+      )
+      .attr('transform', `translate(${x}, ${y})`)
+      .attr('role', 'img')
+      .attr('aria-label', getAspectAccessibleName(aspect, renderData))
+      .interact({ kind: 'aspect', aspect });
+    drawCell(aspectGroup);
+
+    appendGlyph(aspectGroup, getAspectGlyph(type, resolvedGlyphSet, mergedGlyphConfig) ?? type.slice(0, 3), {
+      x: cellSize / 2,
+      y: showOrbs ? cellSize * 0.4 : cellSize / 2,
+      size: cellSize * 0.5,
+      color: aspectColor,
+      cssColor: cssColor(cssVariable('aspect', type), aspectColor),
+      className: 'aspect-glyph',
+      fontFamily: mergedGlyphConfig.glyphFont || 'Arial',
+    });
+
+    if (showOrbs) {
+      aspectGroup
+        .append('text')
+        .attr('class', 'aspect-orb')
+        .attr('x', cellSize / 2)
+        .attr('y', cellSize * 0.8)
+        .attr('font-size', `${cellSize * 0.25}px`)
+        .attr('fill', strokeColor)
+        .style('fill', strokeFill)
+        .text(formatDegreesMinutes(Math.abs(orb)));
+    }
+
+    if (!isExact) {
+      aspectGroup
+        .append('text')
+        .attr('class', `aspect-phase ${isApplying ? 'applying' : 'separating'}`)
+        .attr('x', cellSize - 4)
+        .attr('y', cellSize * 0.15)
+        .attr('font-size', `${cellSize * 0.22}px`)
+        .attr('fill', strokeColor)
+        .style('fill', strokeFill)
+        .text(isApplying ? 'A' : 'S');
+    }
+  };
+
+  if (layout.shape === 'rectangle') {
+    layout.columns.forEach((ref, column) => drawObject(ref, 'column', (column + headers) * cellSize, 0));
+    layout.rows.forEach((ref, row) => drawObject(ref, 'row', 0, (row + headers) * cellSize));
+  } else {
+    layout.rows.forEach((ref, index) => drawObject(ref, 'diagonal', index * cellSize, index * cellSize));
+  }
+
+  // Empty cells first, aspect cells on top so they are picked for pointer events
+  const emptyCells = content.append('g').keyed('empty-cells').attr('class', 'aspect-grid-cells');
+  const aspectCells: [AspectPairDTO, number, number][] = [];
+  layout.rows.forEach((row, rowIndex) => {
+    layout.columns.forEach((column, columnIndex) => {
+      if (layout.shape === 'triangle' && columnIndex >= rowIndex) return;
+      const x = (columnIndex + headers) * cellSize;
+      const y = (rowIndex + headers) * cellSize;
+      const aspect = layout.cells[getAspectGridCellKey(row, column)];
+      if (aspect) {
+        aspectCells.push([aspect, x, y]);
+      } else {
+        drawCell(emptyCells.append('g').attr('transform', `translate(${x}, ${y})`));
+      }
+    });
+  });
+  aspectCells.forEach(([aspect, x, y]) => drawAspect(aspect, x, y));
+
+  appendSymbolDefs(svg, resolvedGlyphSet);
+  return svg;
+}
@@ -0,0 +1,1000 @@
+import * as d3 from 'd3';
+import { VisualConfig, GlyphConfig } from '@gaia-tools/aphrodite';
+import { RenderResponse, IndexesDTO, RingDTO, RingItemDTO, PlanetRingItem, HouseRingItem, SignRingItem } from '@gaia-tools/iris-core';
+import type { ViewFrame, LockRule } from '@gaia-tools/aphrodite-shared/orientation';
+import { resolveAspectLines, getAspectStrokeWidth, isSeparatingAspect, isInterLayerAspect } from '../utils/aspects';
+import { LayerStyle, resolveLayerStyles, getRingLayerId } from '../utils/layers';
+import { GlyphLayoutOptions, GlyphPlacement, layoutGlyphs } from '../utils/glyphLayout';
+import { PlanetMotionOptions, getPlanetMotion } from '../utils/planetMotion';
+import { ZodiacFrame, getZodiacFrame, formatZodiacLabel } from '../utils/zodiac';
+import { DialOptions, getDialFactor, isDialScale, applyDialCoordinates, applyDialAspects } from '../utils/dial';
+import { buildIndexes } from '../utils/buildIndexes';
+import { getViewFrameRotation, getLockMode, getLockRotation } from '../utils/orientation';
+import { ChartHighlight } from '../utils/hover';
+import { deriveLogicalIdFromRingItem } from '../utils/buildIndexes';
+import { getItemKey, getNavigationOrder, getItemAccessibleName, getAspectAccessibleName } from '../utils/accessibility';
+import { resolveColorScheme } from '../utils/themes';
+import { cssVariable, cssColor, getThemeCssVariables } from '../utils/cssVariables';
+import { ChartColoring, getSignColor, getHouseColor } from '../utils/coloring';
+import { GlyphSet, resolveGlyphSet, getSignGlyph, getObjectGlyph } from '../utils/glyphSets';
+import { ObjectCategoryVisibility, getObjectColor, filterObjectCategories } from '../utils/objects';
+import {
+  Theme,
+  ColorScheme,
+  astroToSvgAngle,
+  getWheelCoordinates,
+  WheelCoordinates,
+  polarToCartesian,
+  DegreeFormat,
+  formatLongitude,
+  getObjectInfo,
+  getSignIndex,
+  getSignName,
+  getAspectRadius,
+  mergeVisualConfig,
+  mergeGlyphConfig,
+} from '../utils/chartWheelHelpers';
+import { SceneNode } from './scene';
+import { appendGlyph, appendSymbolDefs } from './glyphs';
+
+/**
+ * Everything that affects what the chart looks like (no event handlers)
+ */
+export interface ChartSceneOptions {
+  renderData: RenderResponse;
+  indexes: IndexesDTO;
+  width?: number;
+  height?: number;
+  centerX?: number;
+  centerY?: number;
+  rotationOffset?: number;
+  /**
+   * Orientation frame (e.g. from useOrientation). Rotates the wheel so the frame's anchor
+   * sits at its screen angle; rotationOffset is applied on top.
+   */
+  viewFrame?: ViewFrame;
+  /**
+   * Lock rules controlling how glyphs and labels are oriented (upright, radial, tangential)
+   */
+  locks?: LockRule[];
+  theme?: Theme;
+  /**
+   * Light or dark variant of the theme. 'auto' follows the page's prefers-color-scheme (dark on the server).
+   * Default: 'dark'
+   */
+  colorScheme?: ColorScheme | 'auto';
+  visualConfig?: VisualConfig;
+  glyphConfig?: GlyphConfig;
+  /**
+   * Glyphs keyed by id, as Unicode, SVG path data or symbol references: the name of a registered set
+   * ('svg' is built in) or the set itself. Glyphs it doesn't have come from glyphConfig.
+   */
+  glyphSet?: string | GlyphSet;
+  /**
+   * How signs and houses are coloured, e.g. { signs: 'element', houses: 'ruler' }
+   * (default: each sign and house in its own colour from the visual config)
+   */
+  coloring?: ChartColoring;
+  /**
+   * Show or hide objects by category ('planet', 'asteroid', 'point', 'lot', 'star', 'angle'), e.g. { star: false }.
+   * Hidden objects and their aspects are left out. Default: all shown.
+   */
+  objectCategories?: ObjectCategoryVisibility;
+  /**
+   * Per-layer styling for multi-layer wheels, keyed by layer id
+   */
+  layerStyles?: Record<string, LayerStyle>;
+  /**
+   * Show a legend of the layers on the wheel (default: only when there is more than one)
+   */
+  showLegend?: boolean;
+  /**
+   * Collision avoidance for planet glyphs (spacing, stacking). Pass false to place glyphs at their exact longitude.
+   */
+  planetLayout?: GlyphLayoutOptions | false;
+  /**
+   * Retrograde, stationary and speed markers on planet glyphs (default: retrograde markers only)
+   */
+  planetMotion?: PlanetMotionOptions;
+  /**
+   * Format of the degree labels on planets, house cusps and sign boundaries (default: 'sign', e.g. 10♑30')
+   */
+  degreeFormat?: DegreeFormat;
+  /**
+   * Label the chart's zodiac (tropical, or sidereal with its ayanamsa) in the corner (default: true)
+   */
+  showZodiacLabel?: boolean;
+  /**
+   * Draw a thin ring of the other zodiac's signs around the wheel for comparison:
+   * tropical signs on sidereal charts, sidereal signs (offset by `ayanamsa`) on tropical ones
+   */
+  dualZodiac?: boolean;
+  /**
+   * Ayanamsa in degrees for the sidereal comparison ring of tropical charts (sidereal charts carry their own)
+   */
+  ayanamsa?: number;
+  /**
+   * Draw the chart as a dial (e.g. 90° or 45°) or harmonic chart. Aspects are found on the dial instead of
+   * taken from the chart.
+   */
+  dial?: DialOptions;
+  /**
+   * Objects and aspects to emphasise, dimming everything else (ChartWheel sets this while hovering)
+   */
+  highlight?: ChartHighlight | null;
+  /**
+   * Selected objects (logical ids, e.g. "natal:planet:sun") and aspects (aspect ids), drawn with the selected style
+   */
+  selectedIds?: string[];
+  /**
+   * Accessible name of the chart (default: "Chart wheel")
+   */
+  ariaLabel?: string;
+  /**
+   * Item that takes keyboard focus when tabbing into the chart ("ringId/itemId"; default: the first in zodiacal order)
+   */
+  activeItemKey?: string | null;
+}
+
+/**
+ * Label colours of each colour scheme, as in ChartWheel.css: names and degrees, muted degrees and faint sign cusps
+ */
+const labelColors: Record<ColorScheme, Record<'text' | 'text-muted' | 'text-faint', string>> = {
+  dark: { text: '#e0e0e0', 'text-muted': '#c0c0c0', 'text-faint': '#b0b0b0' },
+  light: { text: '#2a2a2a', 'text-muted': '#505050', 'text-faint': '#606060' },
+};
+
+/**
+ * How longitudes map onto the wheel: the payload's coordinate system, multiplied out on dials
+ */
+export function resolveWheelCoordinates({ renderData, dial }: ChartSceneOptions): WheelCoordinates {
+  const coordinates = getWheelCoordinates(renderData);
+  return dial ? applyDialCoordinates(coordinates, dial) : coordinates;
+}
+
+/**
+ * The data to draw: objects of hidden categories are left out, and on dials the dial's aspects replace the chart's
+ */
+export function resolveChartData(options: ChartSceneOptions): { renderData: RenderResponse; indexes: IndexesDTO } {
+  const { dial, objectCategories } = options;
+  if (!dial && !objectCategories) {
+    return { renderData: options.renderData, indexes: options.indexes };
+  }
+  let renderData = options.renderData;
+  if (objectCategories) renderData = filterObjectCategories(renderData, objectCategories);
+  if (dial) renderData = applyDialAspects(renderData, dial);
+  return { renderData, indexes: buildIndexes(renderData) };
+}
+
+/**
+ * The wheel's total rotation.
+ * Orientation: the view frame rotates the wheel, the explicit offset is applied on top.
+ */
+export function resolveRotationOffset(options: ChartSceneOptions): number {
+  const { renderData, rotationOffset = 0, viewFrame } = options;
+  return rotationOffset + (viewFrame ? getViewFrameRotation(viewFrame, renderData, resolveWheelCoordinates(options)) : 0);
+}
+
+/**
+ * Keys of the items the wheel makes focusable, in the order they are drawn around it, which arrow keys move through.
+ * On dials items are ordered by their place on the dial, and dial scales replace the sign ring, so its signs are
+ * left out.
+ */
+export function resolveNavigationOrder(
+  options: ChartSceneOptions,
+  renderData: RenderResponse = resolveChartData(options).renderData
+): string[] {
+  const { dial } = options;
+  const coordinates = resolveWheelCoordinates(options);
+  const signCoordinates = getWheelCoordinates(renderData);
+  const signOffset = getZodiacFrame(renderData).offset * (dial ? getDialFactor(dial) : 1);
+  const showDialScale = !!dial && isDialScale(dial);
+  const toWheelAngle = (lon: number, { span }: WheelCoordinates) => (lon * 360) / span;
+  return getNavigationOrder(renderData, (item) => {
+    switch (item.kind) {
+      case 'planet':
+      case 'houseCusp':
+        return toWheelAngle(item.lon, coordinates);
+      case 'sign':
+        return showDialScale ? null : toWheelAngle(item.startLon + signOffset, signCoordinates);
+      default:
+        return null;
+    }
+  });
+}
+
+/**
+ * The wheel's colours in its colour scheme, by the --aphrodite-* custom property each one falls back from
+ */
+export function getChartColorVariables(options: ChartSceneOptions): Record<string, string> {
+  const { theme, colorScheme, visualConfig, coloring = {} } = options;
+  const scheme = resolveColorScheme(colorScheme);
+  const mergedVisualConfig = mergeVisualConfig(visualConfig, theme, scheme);
+  const variables = getThemeCssVariables(mergedVisualConfig);
+  Object.entries(labelColors[scheme]).forEach(([name, color]) => (variables[cssVariable(name)] = color));
+  // Signs and houses coloured by element or modality read their own properties
+  for (let index = 0; index < 12; index++) {
+    for (const colorRef of [
+      getSignColor(index, mergedVisualConfig, coloring),
+      getHouseColor(index + 1, index, mergedVisualConfig, coloring),
+    ]) {
+      if (colorRef) variables[colorRef.variable] = colorRef.color;
+    }
+  }
+  return variables;
+}
+
+/**
+ * Build the chart's SVG as a scene tree.
+ * Shared by ChartWheel (which materializes it with D3) and renderChartToSvgString, so the client
+ * and server produce the same markup.
+ */
+export function buildChartScene(options: ChartSceneOptions): SceneNode {
+  const { renderData, indexes } = resolveChartData(options);
+  const {
+    width = 800,
+    height = 800,
+    centerX,
+    centerY,
+    locks,
+    theme,
+    colorScheme,
+    visualConfig,
+    glyphConfig,
+    glyphSet,
+    coloring = {},
+    layerStyles: layerStyleOverrides,
+    showLegend,
+    planetLayout,
+    planetMotion = {},
+    degreeFormat = 'sign',
+    showZodiacLabel = true,
+    dualZodiac = false,
+    ayanamsa,
+    dial,
+    highlight,
+    selectedIds,
+    ariaLabel = 'Chart wheel',
+    activeItemKey,
+  } = options;
+
+  const svg = new SceneNode('svg')
+    .attr('width', width)
+    .attr('height', height)
+    .attr('viewBox', `0 0 ${width} ${height}`)
+    .attr('style', 'display: block;')
+    .attr('role', 'group')
+    .attr('aria-label', ariaLabel);
+  svg.append('title').text(ariaLabel);
+
+  const scheme = resolveColorScheme(colorScheme);
+  // Lets stylesheets pick text colours that read on the scheme's background
+  svg.attr('class', `chart-wheel scheme-${scheme}`);
+
+  const rotationOffset = resolveRotationOffset(options);
+  const coordinates = resolveWheelCoordinates(options);
+  const showDialScale = !!dial && isDialScale(dial);
+  const planetLockMode = getLockMode(locks, 'planets');
+  const signLockMode = getLockMode(locks, 'signs');
+  const houseLockMode = getLockMode(locks, 'houses');
+
+  const cx = centerX ?? width / 2;
+  const cy = centerY ?? height / 2;
+
+  // Merge configs with defaults and theme
+  // If visualConfig is provided, it overrides theme
+  // Otherwise, use theme if provided, or default to traditional, in the colour scheme
+  const mergedVisualConfig = mergeVisualConfig(visualConfig, theme, scheme);
+  const mergedGlyphConfig = mergeGlyphConfig(glyphConfig);
+  const resolvedGlyphSet = resolveGlyphSet(glyphSet);
+
+  // Colours are written as attributes, for renderers without CSS (e.g. librsvg), and as --aphrodite-* custom
+  // properties falling back to them, so pages can retheme the chart in CSS without re-rendering
+  const strokeVariable = cssVariable('stroke');
+  const backgroundVariable = cssVariable('background');
+  const strokeColor = (fallback: string) => cssColor(strokeVariable, mergedVisualConfig.strokeColor || fallback);
+  const backgroundColor = mergedVisualConfig.backgroundColor || '#f0f0f0';
+  const labelColor = (variable: keyof (typeof labelColors)[ColorScheme]) =>
+    cssColor(cssVariable(variable), labelColors[scheme][variable]);
+
+  // Set background color FIRST so it's behind everything
+  svg
+    .append('rect')
+    .attr('class', 'chart-background')
+    .attr('x', 0)
+    .attr('y', 0)
+    .attr('width', width)
+    .attr('height', height)
+    .attr('fill', backgroundColor)
+    .style('fill', cssColor(backgroundVariable, backgroundColor));
+
+  // Create a container group for zoom/pan
+  // This will be transformed by the zoom behavior
+  const container = svg
+    .append('g')
+    .keyed('chart-container')
+    .attr('class', 'chart-container');
+
+  // Create the main chart group
+  // Translate to center: chart elements are drawn relative to (0,0), so we translate to center them
+  const g = container
+    .append('g')
+    .attr('class', highlight ? 'chart-content has-highlight' : 'chart-content')
+    .attr('transform', `translate(${cx}, ${cy})`);
+
+  const wheel = renderData.wheel;
+  // Signs are shifted by the ayanamsa on sidereal charts; positions stay where they are
+  const zodiac = getZodiacFrame(renderData);
+  // Signs stay on the usual circle in harmonic charts, where positions go round the wheel several times
+  const signCoordinates = getWheelCoordinates(renderData);
+  const signOffset = zodiac.offset * (dial ? getDialFactor(dial) : 1);
+  const highlightedObjects = new Set(highlight?.logicalIds ?? []);
+  const highlightedAspects = new Set(highlight?.aspectIds ?? []);
+  const highlightClass = (highlighted: boolean) => (highlighted ? ' highlighted' : '');
+  const selected = new Set(selectedIds ?? []);
+  const selectedClass = (id: string | null) => (id && selected.has(id) ? ' selected' : '');
+
+  // Roving focus: only the active item is in the tab order, arrow keys move between items
+  const navigationOrder = resolveNavigationOrder(options, renderData);
+  const tabStop = activeItemKey && navigationOrder.includes(activeItemKey) ? activeItemKey : navigationOrder[0];
+  const makeItemInteractive = (node: SceneNode, item: RingItemDTO, ring: RingDTO) => {
+    const key = getItemKey(ring, item);
+    node
+      .attr('role', 'button')
+      .attr('tabindex', key === tabStop ? 0 : -1)
+      .attr('aria-label', getItemAccessibleName(item, renderData))
+      .attr('data-item-key', key)
+      .interact({ kind: 'item', item, ring });
+  };
+  const layerStyles = resolveLayerStyles(renderData, layerStyleOverrides);
+  const maxRadius = Math.min(width, height) / 2 - 20;
+  
+  // Scale radii from RenderResponse to fit our canvas
+  const responseMaxRadius = wheel.radius.outer;
+  const scale = maxRadius / responseMaxRadius;
+
+  // Draw rings structure
+  wheel.rings.forEach((ring) => {
+    const innerRadius = ring.radius.inner * scale;
+    const outerRadius = ring.radius.outer * scale;
+    
+    // Layer-bound planet rings are tinted with their layer colour
+    const ringLayerId = getRingLayerId(ring);
+    const isPlanetRing = ring.dataSource?.kind === 'layer_planets' || !!ring.items?.some((item) => item.kind === 'planet');
+    const ringLayerColor = isPlanetRing && ringLayerId ? layerStyles[ringLayerId]?.color : null;
+    const ringLayerVariable = ringLayerId ? cssVariable('layer', ringLayerId) : strokeVariable;
+
+    // Draw ring band
+    g.append('circle')
+      .keyed(ring.id)
+      .attr('r', outerRadius)
+      .attr('fill', 'none')
+      .attr('stroke', ringLayerColor || mergedVisualConfig.strokeColor || '#ddd')
+      .style('stroke', ringLayerColor ? cssColor(ringLayerVariable, ringLayerColor) : strokeColor('#ddd'))
+      .attr('stroke-width', mergedVisualConfig.strokeWidth || 1)
+      .attr('opacity', ringLayerColor ? 0.6 : 0.3)
+      .attr('class', ringLayerId ? `ring ring-${ring.id} layer-${ringLayerId}` : `ring ring-${ring.id}`);
+
+    if (ringLayerColor) {
+      const bandArc = d3.arc()({ innerRadius, outerRadius, startAngle: 0, endAngle: 2 * Math.PI });
+      g.append('path')
+        .keyed(ring.id)
+        .attr('class', `ring-band layer-${ringLayerId}`)
+        .attr('d', bandArc)
+        .attr('fill', ringLayerColor)
+        .style('fill', cssColor(ringLayerVariable, ringLayerColor))
+        .attr('opacity', 0.08)
+        .attr('pointer-events', 'none');
+    }
+
+    // Render ring items
+    if (ring.items && ring.items.length > 0) {
+      const itemsGroup = g.append('g').keyed(ring.id).attr('class', `ring-items-${ring.id}`);
+      const centerRadius = (innerRadius + outerRadius) / 2;
+
+      // Spread crowded planet glyphs apart (e.g. stelliums).
+      // Laid out in degrees around the wheel, which differ from longitude when the angle range is narrower than 360°.
+      const planetPlacements = new Map<string, GlyphPlacement>();
+      if (planetLayout !== false) {
+        const planetItems = ring.items.filter((item): item is PlanetRingItem => item.kind === 'planet');
+        const toWheelDegrees = (lon: number) => ((((lon * 360) / coordinates.span) % 360) + 360) % 360;
+        layoutGlyphs(planetItems.map((item) => ({ id: item.id, lon: toWheelDegrees(item.lon) })), planetLayout)
+          .forEach((placement) => planetPlacements.set(placement.id, placement));
+      }
+
+      ring.items.forEach((item) => {
+        if (item.kind === 'planet') {
+          const planetItem = item as PlanetRingItem;
+          const placement = planetPlacements.get(planetItem.id);
+          const level = placement?.level ?? 0;
+          const levels = placement?.levels ?? 1;
+          // Stacked glyphs are spread across the ring band, level 0 outermost
+          const glyphRadius = levels > 1
+            ? innerRadius + ((outerRadius - innerRadius) * (levels - level - 0.5)) / levels
+            : centerRadius;
+          const displayLon = placement ? (placement.displayLon * coordinates.span) / 360 : planetItem.lon;
+          const angle = astroToSvgAngle(displayLon, rotationOffset, coordinates);
+          const { x, y } = polarToCartesian(angle, glyphRadius);
+
+          // Get color - the layer colour on secondary layers, otherwise the planet or registered object colour
+          const layerStyle = layerStyles[planetItem.layerId];
+          const planetColor =
+            layerStyle?.color ||
+            getObjectColor(planetItem.planetId, mergedVisualConfig) ||
+            mergedVisualConfig.strokeColor ||
+            '#333';
+          const planetFill = cssColor(
+            layerStyle?.color ? cssVariable('layer', planetItem.layerId) : cssVariable('planet', planetItem.planetId),
+            planetColor
+          );
+
+          // Displaced glyphs keep a leader line to a tick at their true longitude on the ring edge
+          if (placement && (Math.abs(placement.displayLon - placement.lon) > 1e-6 || level > 0)) {
+            const trueAngle = astroToSvgAngle(planetItem.lon, rotationOffset, coordinates);
+            const tickOuter = polarToCartesian(trueAngle, outerRadius);
+            const tickInner = polarToCartesian(trueAngle, outerRadius - 5);
+            const leaderEnd = polarToCartesian(angle, Math.min(glyphRadius + (mergedGlyphConfig.glyphSize || 12) * 0.8, outerRadius - 5));
+
+            itemsGroup
+              .append('path')
+              .keyed(planetItem.id)
+              .attr('class', `planet-leader planet-leader-${planetItem.planetId}`)
+              .attr('d', `M${tickOuter.x},${tickOuter.y}L${tickInner.x},${tickInner.y}L${leaderEnd.x},${leaderEnd.y}`)
+              .attr('fill', 'none')
+              .attr('stroke', mergedVisualConfig.strokeColor || '#999')
+              .style('stroke', strokeColor('#999'))
+              .attr('stroke-width', 0.5)
+              .attr('opacity', 0.6)
+              .attr('pointer-events', 'none');
+          }
+
+          const motion = getPlanetMotion(planetItem, planetMotion);
+
+          // Speed tick along the inner edge of the ring, from the true longitude in the direction of motion
+          if (planetMotion.speed && !(planetMotion.stationary && motion.stationary)) {
+            const tickRadius = innerRadius + 3;
+            const tickLength = 4 + 8 * motion.relativeSpeed;
+            const tickLon = planetItem.lon + (motion.direction * tickLength * 180 * coordinates.span) / (Math.PI * tickRadius * 360);
+            const tickStart = polarToCartesian(astroToSvgAngle(planetItem.lon, rotationOffset, coordinates), tickRadius);
+            const tickEnd = polarToCartesian(astroToSvgAngle(tickLon, rotationOffset, coordinates), tickRadius);
+            // Arrowhead: two short strokes back from the end, 30° either side of the tick
+            const back = Math.atan2(tickStart.y - tickEnd.y, tickStart.x - tickEnd.x);
+            const barb = (offset: number) =>
+              `${tickEnd.x + 3 * Math.cos(back + offset)},${tickEnd.y + 3 * Math.sin(back + offset)}`;
+
+            itemsGroup
+              .append('path')
+              .keyed(`${planetItem.id}-speed`)
+              .attr('class', `planet-speed planet-speed-${planetItem.planetId}${motion.direction < 0 ? ' retrograde' : ''}`)
+              .attr('d', `M${tickStart.x},${tickStart.y}L${tickEnd.x},${tickEnd.y}M${barb(Math.PI / 6)}L${tickEnd.x},${tickEnd.y}L${barb(-Math.PI / 6)}`)
+              .attr('fill', 'none')
+              .attr('stroke', planetColor)
+              .style('stroke', planetFill)
+              .attr('stroke-width', 1)
+              .attr('pointer-events', 'none');
+          }
+
+          // Draw planet indicator
+          const logicalId = deriveLogicalIdFromRingItem(ring, planetItem);
+          const planetGroup = itemsGroup
+            .append('g')
+            .keyed(planetItem.id)
+            .attr(
+              'class',
+              `planet planet-${planetItem.planetId} layer-${planetItem.layerId}${highlightClass(!!logicalId && highlightedObjects.has(logicalId))}${selectedClass(logicalId)}`
+            )
+            .attr('data-logical-id', logicalId)
+            .attr('transform', `translate(${x}, ${y}) rotate(${getLockRotation(planetLockMode, angle)})`);
+
+          // Draw planet glyph or circle
+          const glyphSize = (mergedGlyphConfig.glyphSize || 12) * (layerStyle?.glyphScale ?? 1);
+
+          // Ring around selected planets
+          if (logicalId && selected.has(logicalId)) {
+            planetGroup
+              .append('circle')
+              .attr('class', 'planet-selection')
+              .attr('r', glyphSize * 0.9)
+              .attr('fill', 'none')
+              .attr('stroke', planetColor)
+              .style('stroke', planetFill)
+              .attr('stroke-width', 1.5);
+          }
+          
+          // Glyph from the glyph set, the glyph config or the object itself, else a circle
+          const glyph = getObjectGlyph(planetItem.planetId, resolvedGlyphSet, mergedGlyphConfig);
+          if (glyph) {
+            appendGlyph(planetGroup, glyph, {
+              x: 0,
+              y: 0,
+              size: glyphSize,
+              color: planetColor,
+              cssColor: planetFill,
+              className: 'planet-glyph',
+              fontFamily: mergedGlyphConfig.glyphFont || 'Arial',
+            });
+          } else {
+            planetGroup
+              .append('circle')
+              .attr('class', 'planet-glyph')
+              .attr('r', glyphSize / 2)
+              .attr('fill', planetColor)
+              .style('fill', planetFill)
+              .attr('stroke', mergedVisualConfig.strokeColor || '#fff')
+              .style('stroke', strokeColor('#fff'))
+              .attr('stroke-width', 1);
+          }
+
+          // Motion markers to the right of the glyph: ℞ above, S (stationary) below
+          if (planetMotion.retrograde !== false && motion.retrograde) {
+            planetGroup
+              .append('text')
+              .attr('class', 'planet-retrograde')
+              .attr('x', glyphSize * 0.7)
+              .attr('y', -glyphSize * 0.4)
+              .attr('font-size', `${glyphSize * 0.55}px`)
+              .attr('fill', planetColor)
+              .style('fill', planetFill)
+              .text('℞');
+          }
+          if (planetMotion.stationary && motion.stationary) {
+            planetGroup
+              .append('text')
+              .attr('class', 'planet-stationary')
+              .attr('x', glyphSize * 0.7)
+              .attr('y', glyphSize * 0.4)
+              .attr('font-size', `${glyphSize * 0.55}px`)
+              .attr('fill', planetColor)
+              .style('fill', planetFill)
+              .text('S');
+          }
+
+          // Add planet label below glyph
+          const labelY = glyphSize + 4;
+          planetGroup
+            .append('text')
+            .attr('class', 'planet-label')
+            .attr('x', 0)
+            .attr('y', labelY)
+            .attr('fill', mergedVisualConfig.strokeColor || '#333')
+            .style('fill', labelColor('text'))
+            .text(getObjectInfo(planetItem.planetId).label);
+
+          // Add position below label
+          const degreesText = formatLongitude(planetItem.lon - zodiac.offset, degreeFormat, mergedGlyphConfig.signGlyphs);
+          planetGroup
+            .append('text')
+            .attr('class', 'planet-degrees')
+            .attr('x', 0)
+            .attr('y', labelY + 12)
+            .attr('fill', mergedVisualConfig.strokeColor || '#666')
+            .style('fill', labelColor('text-muted'))
+            .text(degreesText);
+
+          makeItemInteractive(planetGroup, item, ring);
+        } else if (item.kind === 'houseCusp') {
+          const houseItem = item as HouseRingItem;
+          const angle = astroToSvgAngle(houseItem.lon, rotationOffset, coordinates);
+          
+          // Get house color, from the house or the sign on its cusp
+          const cuspSignIndex = Math.floor(((((houseItem.lon - zodiac.offset) % 360) + 360) % 360) / 30);
+          const houseColorRef = getHouseColor(houseItem.houseIndex, cuspSignIndex, mergedVisualConfig, coloring);
+          const houseColor = houseColorRef?.color ?? (mergedVisualConfig.strokeColor || '#999');
+          const houseFill = houseColorRef ? cssColor(houseColorRef.variable, houseColor) : strokeColor('#999');
+          
+          // Draw house cusp line
+          const logicalId = deriveLogicalIdFromRingItem(ring, houseItem);
+          const lineGroup = itemsGroup
+            .append('g')
+            .keyed(houseItem.id)
+            .attr(
+              'class',
+              `house-cusp house-${houseItem.houseIndex}${highlightClass(!!logicalId && highlightedObjects.has(logicalId))}${selectedClass(logicalId)}`
+            )
+            .attr('data-logical-id', logicalId);
+
+          const start = polarToCartesian(angle, innerRadius);
+          const end = polarToCartesian(angle, outerRadius);
+
+          lineGroup
+            .append('line')
+            .attr('class', 'house-line')
+            .attr('x1', start.x)
+            .attr('y1', start.y)
+            .attr('x2', end.x)
+            .attr('y2', end.y)
+            .attr('stroke', houseColor)
+            .style('stroke', houseFill)
+            .attr('stroke-width', mergedVisualConfig.strokeWidth || 1)
+            .attr('opacity', 0.6);
+
+          // Add house number and degrees
+          const labelPos = polarToCartesian(angle, centerRadius);
+          const labelGroup = lineGroup
+            .append('g')
+            .attr('transform', `translate(${labelPos.x}, ${labelPos.y}) rotate(${getLockRotation(houseLockMode, angle)})`);
+          
+          // House number
+          labelGroup
+            .append('text')
+            .attr('class', 'house-number')
+            .attr('x', 0)
+            .attr('y', -6)
+            .attr('fill', houseColor)
+            .style('fill', houseFill)
+            .text(houseItem.houseIndex.toString());
+          
+          // Cusp position
+          const cuspDegreesText = formatLongitude(houseItem.lon - zodiac.offset, degreeFormat, mergedGlyphConfig.signGlyphs);
+          labelGroup
+            .append('text')
+            .attr('class', 'house-degrees')
+            .attr('x', 0)
+            .attr('y', 8)
+            .attr('fill', houseColor)
+            .style('fill', labelColor('text-muted'))
+            .attr('opacity', 0.8)
+            .text(cuspDegreesText);
+
+          makeItemInteractive(lineGroup, item, ring);
+        } else if (item.kind === 'sign' && !showDialScale) {
+          const signItem = item as SignRingItem;
+          const startLon = signItem.startLon + signOffset;
+          const endLon = signItem.endLon + signOffset;
+          const startAngle = astroToSvgAngle(startLon, rotationOffset, signCoordinates);
+          const endAngle = astroToSvgAngle(endLon, rotationOffset, signCoordinates);
+          
+          // Get sign index and color
+          const signIndex = signItem.index !== null && signItem.index !== undefined
+            ? signItem.index
+            : getSignIndex(signItem.id);
+          const signColorRef = signIndex !== null ? getSignColor(signIndex, mergedVisualConfig, coloring) : null;
+          const signColor = signColorRef?.color ?? (mergedVisualConfig.strokeColor || '#ccc');
+          const signName = signIndex !== null ? getSignName(signIndex) : null;
+          // Sign ids vary between payloads; the sign name class is the same everywhere (sign-aries)
+          const signClass = signName ? `sign-${signName.toLowerCase()}` : null;
+          const signFill = signColorRef ? cssColor(signColorRef.variable, signColor) : strokeColor('#ccc');
+          // Banded sign rings are filled in two alternating shades of the stroke colour
+          const isBanded = coloring.signs === 'band';
+          
+          // Create arc for sign segment
+          // d3.arc() sweeps clockwise from startAngle to endAngle (0 = top, like SVG angles). On counter-clockwise
+          // wheels longitude runs anticlockwise, so the sign's clockwise sweep starts at its end longitude.
+          const [sweepStart, sweepEnd] = signCoordinates.direction === 'cw' ? [startAngle, endAngle] : [endAngle, startAngle];
+          const startRad = (sweepStart * Math.PI) / 180;
+          let endRad = (sweepEnd * Math.PI) / 180;
+
+          // Signs crossing the top of the wheel (SVG 0°/360°) end past a full turn
+          if (endRad < startRad) {
+            endRad += 2 * Math.PI;
+          }
+          
+          const arc = d3.arc()({ innerRadius, outerRadius, startAngle: startRad, endAngle: endRad });
+
+          const signGroup = itemsGroup
+            .append('g')
+            .keyed(signItem.id)
+            .attr('class', `sign sign-${signItem.id}${signClass && signClass !== `sign-${signItem.id}` ? ` ${signClass}` : ''}`);
+
+          // Draw sign segment with color
+          signGroup
+            .append('path')
+            .attr('class', isBanded ? `sign-segment sign-band-${(signIndex ?? 0) % 2 === 0 ? 'even' : 'odd'}` : 'sign-segment')
+            .attr('d', arc)
+            .attr('fill', isBanded ? signColor : 'none')
+            .style('fill', isBanded ? signFill : null)
+            .attr('fill-opacity', isBanded ? ((signIndex ?? 0) % 2 === 0 ? 0.3 : 0.1) : null)
+            .attr('stroke', signColor)
+            .style('stroke', signFill)
+            .attr('stroke-width', mergedVisualConfig.strokeWidth || 0.5)
+            .attr('opacity', 0.4);
+
+          // Sign cusp degrees (at start of sign)
+          const cuspDegreesText = formatLongitude(signItem.startLon, degreeFormat, mergedGlyphConfig.signGlyphs);
+          const cuspAngle = astroToSvgAngle(startLon, rotationOffset, signCoordinates);
+          const cuspPos = polarToCartesian(cuspAngle, centerRadius);
+          
+          // Add sign glyph or label at center
+          // Calculate mid-angle properly handling wrap-around cases
+          // For signs, we always want the midpoint of the shorter arc (30° for each sign)
+          // The most reliable way is to calculate from the astronomical longitude midpoint
+          // and convert to SVG angle, rather than trying to average SVG angles that might wrap
+          const astroMidLon = (startLon + endLon) / 2;
+          const midAngle = astroToSvgAngle(astroMidLon, rotationOffset, signCoordinates);
+          const labelPos = polarToCartesian(midAngle, centerRadius);
+          const labelTransform = `rotate(${getLockRotation(signLockMode, midAngle)}, ${labelPos.x}, ${labelPos.y})`;
+          
+          const glyph = signIndex !== null ? getSignGlyph(signIndex, resolvedGlyphSet, mergedGlyphConfig) : null;
+          if (glyph) {
+            const glyphNode = appendGlyph(signGroup, glyph, {
+              x: labelPos.x,
+              y: labelPos.y,
+              size: (mergedGlyphConfig.glyphSize || 12) * 0.8,
+              color: signColor,
+              cssColor: signFill,
+              className: 'sign-glyph',
+              fontFamily: mergedGlyphConfig.glyphFont || 'Arial',
+              transform: labelTransform,
+            })
+              .attr('opacity', 1) // Ensure full opacity for glyph
+              .attr('pointer-events', 'none'); // Prevent glyph from blocking interactions
+
+            // Outline text glyphs in the background colour for better contrast
+            if (typeof glyph === 'string') {
+              glyphNode
+                .attr('stroke', mergedVisualConfig.backgroundColor || '#FFFFFF')
+                .style('stroke', cssColor(backgroundVariable, mergedVisualConfig.backgroundColor || '#FFFFFF'))
+                .attr('stroke-width', 0.5)
+                .attr('paint-order', 'stroke fill'); // Stroke first, then fill
+            }
+          } else {
+            // Fallback: use label
+            signGroup
+              .append('text')
+              .attr('class', 'sign-label')
+              .attr('x', labelPos.x)
+              .attr('y', labelPos.y)
+              .attr('transform', labelTransform)
+              .attr('fill', signColor)
+              .style('fill', signFill)
+              .attr('opacity', 1)
+              .text(signItem.label || signItem.id);
+          }
+          
+          // Add sign cusp degrees at the start of the sign
+          signGroup
+            .append('text')
+            .attr('class', 'sign-cusp')
+            .attr('x', cuspPos.x)
+            .attr('y', cuspPos.y)
+            .attr('fill', signColor)
+            .style('fill', labelColor('text-faint'))
+            .attr('opacity', 0.7)
+            .text(cuspDegreesText);
+
+          makeItemInteractive(signGroup, item, ring);
+        }
+      });
+    }
+  });
+
+  // Dials replace the sign ring with a degree scale
+  if (showDialScale) {
+    const zodiacRing = wheel.rings.find((ring) => ring.dataSource?.kind === 'static_zodiac');
+    if (zodiacRing) {
+      const innerRadius = zodiacRing.radius.inner * scale;
+      const outerRadius = zodiacRing.radius.outer * scale;
+      const size = coordinates.span;
+      const tickStep = size <= 90 ? 1 : 5;
+      const labelStep = size <= 90 ? 5 : size <= 180 ? 10 : 30;
+      const dialScale = g.append('g').keyed('dial-scale').attr('class', 'dial-scale').attr('pointer-events', 'none');
+
+      for (let degree = 0; degree < size; degree += tickStep) {
+        const angle = astroToSvgAngle(degree, rotationOffset, coordinates);
+        const isLabelled = degree % labelStep === 0;
+        const tickStart = polarToCartesian(angle, outerRadius);
+        const tickEnd = polarToCartesian(angle, outerRadius - (isLabelled ? 8 : 4));
+        dialScale
+          .append('line')
+          .attr('x1', tickStart.x)
+          .attr('y1', tickStart.y)
+          .attr('x2', tickEnd.x)
+          .attr('y2', tickEnd.y)
+          .attr('stroke', mergedVisualConfig.strokeColor || '#999')
+          .style('stroke', strokeColor('#999'))
+          .attr('stroke-width', isLabelled ? 1 : 0.5)
+          .attr('opacity', 0.6);
+
+        if (isLabelled) {
+          const labelPos = polarToCartesian(angle, (innerRadius + outerRadius - 8) / 2);
+          dialScale
+            .append('text')
+            .attr('class', 'dial-scale-label')
+            .attr('x', labelPos.x)
+            .attr('y', labelPos.y)
+            .attr('transform', `rotate(${getLockRotation(signLockMode, angle)}, ${labelPos.x}, ${labelPos.y})`)
+            .attr('font-size', '8px')
+            .attr('fill', mergedVisualConfig.strokeColor || '#999')
+            .style('fill', labelColor('text'))
+            .text(`${degree}°`);
+        }
+      }
+    }
+  }
+
+  // Draw aspect chords inside the innermost ring
+  const aspectLines = resolveAspectLines(renderData, indexes);
+  if (aspectLines.length > 0) {
+    const aspectRadius = getAspectRadius(renderData) * scale;
+    const aspectsGroup = g.append('g').keyed('aspects').attr('class', 'aspects');
+
+    aspectLines.forEach(({ aspect, fromLon, toLon, fromRingId, toRingId }) => {
+      const aspectType = aspect.aspect.type;
+      // Inter-layer aspects run across rings, from one layer's ring to the other's
+      const interLayer = isInterLayerAspect(aspect) && !!fromRingId && !!toRingId && fromRingId !== toRingId;
+      const fromRadius = interLayer ? indexes.ringById[fromRingId!].radius.inner * scale : aspectRadius;
+      const toRadius = interLayer ? indexes.ringById[toRingId!].radius.inner * scale : aspectRadius;
+      const start = polarToCartesian(astroToSvgAngle(fromLon, rotationOffset, coordinates), fromRadius);
+      const end = polarToCartesian(astroToSvgAngle(toLon, rotationOffset, coordinates), toRadius);
+      const maxOrb = renderData.settings.orbSettings?.[aspectType];
+      const aspectColor = mergedVisualConfig.aspectColors?.[aspectType] || mergedVisualConfig.strokeColor || '#999';
+
+      aspectsGroup
+        .append('line')
+        .keyed(aspect.id)
+        .attr(
+          'class',
+          `aspect aspect-${aspectType}${interLayer ? ' aspect-inter-layer' : ''}${highlightClass(highlightedAspects.has(aspect.id))}${selectedClass(aspect.id)}`
+        )
+        .attr('x1', start.x)
+        .attr('y1', start.y)
+        .attr('x2', end.x)
+        .attr('y2', end.y)
+        .attr('stroke', aspectColor)
+        .style('stroke', cssColor(cssVariable('aspect', aspectType), aspectColor))
+        .attr('stroke-width', getAspectStrokeWidth(mergedVisualConfig.aspectStrokeWidth || 2, aspect.aspect.orb, maxOrb))
+        .attr('stroke-dasharray', isSeparatingAspect(aspect) ? '4,3' : null)
+        .attr('opacity', 0.8)
+        .attr('role', 'img')
+        .attr('aria-label', getAspectAccessibleName(aspect, renderData))
+        .interact({ kind: 'aspect', aspect });
+    });
+  }
+
+  // Draw outer circle
+  g.append('circle')
+    .keyed('wheel-outline')
+    .attr('r', maxRadius)
+    .attr('fill', 'none')
+    .attr('stroke', mergedVisualConfig.strokeColor || '#000')
+    .style('stroke', strokeColor('#000'))
+    .attr('stroke-width', mergedVisualConfig.strokeWidth || 2)
+    .attr('class', 'wheel-outline');
+
+  // Comparison ring of the other zodiac just outside the wheel
+  const comparison: ZodiacFrame | null = !dualZodiac || dial
+    ? null
+    : zodiac.type === 'sidereal'
+      ? { type: 'tropical', offset: 0, ayanamsa: null }
+      : ayanamsa !== undefined
+        ? // The chart's settings name no ayanamsa for tropical charts, so the ring is labelled by its offset
+          { type: 'sidereal', offset: ayanamsa, ayanamsa: null }
+        : null;
+  if (comparison) {
+    const comparisonInner = maxRadius + 2;
+    const comparisonOuter = maxRadius + 14;
+    const comparisonGroup = g
+      .append('g')
+      .keyed('zodiac-comparison')
+      .attr('class', `zodiac-comparison zodiac-${comparison.type}`)
+      .attr('pointer-events', 'none');
+
+    comparisonGroup
+      .append('circle')
+      .attr('r', comparisonOuter)
+      .attr('fill', 'none')
+      .attr('stroke', mergedVisualConfig.strokeColor || '#999')
+      .style('stroke', strokeColor('#999'))
+      .attr('stroke-width', 0.5)
+      .attr('opacity', 0.6);
+
+    for (let signIndex = 0; signIndex < 12; signIndex++) {
+      const boundaryAngle = astroToSvgAngle(signIndex * 30 + comparison.offset, rotationOffset, signCoordinates);
+      const tickInner = polarToCartesian(boundaryAngle, comparisonInner);
+      const tickOuter = polarToCartesian(boundaryAngle, comparisonOuter);
+      comparisonGroup
+        .append('line')
+        .attr('x1', tickInner.x)
+        .attr('y1', tickInner.y)
+        .attr('x2', tickOuter.x)
+        .attr('y2', tickOuter.y)
+        .attr('stroke', mergedVisualConfig.strokeColor || '#999')
+        .style('stroke', strokeColor('#999'))
+        .attr('stroke-width', 0.5)
+        .attr('opacity', 0.6);
+
+      const midAngle = astroToSvgAngle(signIndex * 30 + 15 + comparison.offset, rotationOffset, signCoordinates);
+      const glyphPos = polarToCartesian(midAngle, (comparisonInner + comparisonOuter) / 2);
+      const comparisonColorRef = getSignColor(signIndex, mergedVisualConfig, coloring);
+      const comparisonColor = comparisonColorRef?.color ?? (mergedVisualConfig.strokeColor || '#ccc');
+      appendGlyph(comparisonGroup, getSignGlyph(signIndex, resolvedGlyphSet, mergedGlyphConfig) ?? '', {
+        x: glyphPos.x,
+        y: glyphPos.y,
+        size: (mergedGlyphConfig.glyphSize || 12) * 0.6,
+        color: comparisonColor,
+        cssColor: comparisonColorRef ? cssColor(comparisonColorRef.variable, comparisonColor) : strokeColor('#ccc'),
+        fontFamily: mergedGlyphConfig.glyphFont || 'Arial',
+        transform: `rotate(${getLockRotation(signLockMode, midAngle)}, ${glyphPos.x}, ${glyphPos.y})`,
+      });
+    }
+  }
+
+  // Dial pointer from the centre to just outside the wheel, dragged to read off midpoints
+  if (dial?.pointer !== undefined) {
+    const pointerAngle = astroToSvgAngle(dial.pointer, rotationOffset, coordinates);
+    const tip = polarToCartesian(pointerAngle, maxRadius + 10);
+    const barbLeft = polarToCartesian(pointerAngle - 2, maxRadius + 2);
+    const barbRight = polarToCartesian(pointerAngle + 2, maxRadius + 2);
+    const pointer = g
+      .append('g')
+      .keyed('dial-pointer')
+      .attr('class', 'dial-pointer')
+      .attr('data-lon', String(dial.pointer))
+      .attr('cursor', 'grab');
+
+    pointer
+      .append('line')
+      .attr('x1', 0)
+      .attr('y1', 0)
+      .attr('x2', tip.x)
+      .attr('y2', tip.y)
+      .attr('stroke', mergedVisualConfig.strokeColor || '#999')
+      .style('stroke', strokeColor('#999'))
+      .attr('stroke-width', 1.5);
+
+    pointer
+      .append('path')
+      .attr('d', `M ${tip.x} ${tip.y} L ${barbLeft.x} ${barbLeft.y} L ${barbRight.x} ${barbRight.y} Z`)
+      .attr('fill', mergedVisualConfig.strokeColor || '#999')
+      .style('fill', strokeColor('#999'));
+  }
+
+  // Zodiac label in the bottom-left corner
+  if (showZodiacLabel) {
+    const dialLabel = !dial ? '' : showDialScale ? `${coordinates.span}° dial · ` : `Harmonic ${getDialFactor(dial)} · `;
+    const zodiacLabel =
+      dialLabel + formatZodiacLabel(zodiac) + (comparison ? ` · outer ring ${formatZodiacLabel(comparison)}` : '');
+    svg
+      .append('text')
+      .keyed('zodiac-label')
+      .attr('class', `zodiac-label zodiac-${zodiac.type}`)
+      .attr('x', 16)
+      .attr('y', height - 16)
+      .attr('font-size', '11px')
+      .attr('font-family', 'Arial, sans-serif')
+      .attr('fill', mergedVisualConfig.strokeColor || '#333')
+      .style('fill', strokeColor('#333'))
+      .text(zodiacLabel);
+  }
+
+  // Legend for multi-layer wheels (outside the zoom container so it stays put)
+  const legendLayers = Object.values(layerStyles);
+  if (showLegend ?? legendLayers.length > 1) {
+    const legend = svg
+      .append('g')
+      .keyed('legend')
+      .attr('class', 'legend')
+      .attr('transform', 'translate(16, 16)');
+
+    legendLayers.forEach((layerStyle, index) => {
+      const entry = legend
+        .append('g')
+        .keyed(layerStyle.layerId)
+        .attr('class', `legend-item layer-${layerStyle.layerId}`)
+        .attr('transform', `translate(0, ${index * 18})`);
+
+      entry
+        .append('circle')
+        .attr('r', 5)
+        .attr('fill', layerStyle.color || mergedVisualConfig.strokeColor || '#333')
+        .style(
+          'fill',
+          layerStyle.color ? cssColor(cssVariable('layer', layerStyle.layerId), layerStyle.color) : strokeColor('#333')
+        );
+
+      entry
+        .append('text')
+        .attr('x', 12)
+        .attr('y', 0)
+        .attr('dominant-baseline', 'middle')
+        .attr('font-size', '11px')
+        .attr('font-family', 'Arial, sans-serif')
+        .attr('fill', mergedVisualConfig.strokeColor || '#333')
+        .style('fill', strokeColor('#333'))
+        .text(layerStyle.label);
+    });
+  }
+
+  appendSymbolDefs(svg, resolvedGlyphSet);
+  return svg;
+}
@@ -0,0 +1,304 @@
+import { ChartSceneOptions, buildChartScene } from './chartScene';
+import { SceneNode, serializeScene } from './scene';
+import { getSymbolReferences } from './glyphs';
+import chartStylesheet from '../components/ChartWheel.css?raw';
+
+export type ImageFormat = 'png' | 'jpeg';
+
+/**
+ * A font to embed in exported images (e.g. the glyph font set in glyphConfig.glyphFont)
+ */
+export interface ExportFont {
+  /**
+   * Font family name, as used in glyphConfig.glyphFont or CSS
+   */
+  family: string;
+  /**
+   * Font file contents, or a URL to fetch them from
+   */
+  src: string | ArrayBuffer | Uint8Array;
+  format?: 'woff2' | 'woff' | 'truetype' | 'opentype';
+  weight?: string | number;
+  style?: string;
+}
+
+export interface ExportImageOptions {
+  /**
+   * Image format (default: 'png')
+   */
+  format?: ImageFormat;
+  /**
+   * Output pixels per chart pixel, e.g. 2 for retina-quality images (default: 1)
+   */
+  pixelRatio?: number;
+  /**
+   * Leave out the background so the image is transparent (PNG only)
+   */
+  transparent?: boolean;
+  /**
+   * JPEG quality from 0 to 1 (default: 0.92)
+   */
+  quality?: number;
+  /**
+   * Fonts to inline, so glyphs render the same without the fonts installed. ChartWheel.exportImage defaults to
+   * the page's @font-face fonts for glyphConfig.glyphFont; elsewhere, pass the glyph font here.
+   */
+  fonts?: ExportFont[];
+  /**
+   * CSS to embed in the image. Defaults to the package's base chart styles (ChartWheel.css).
+   */
+  styles?: string;
+}
+
+/**
+ * The rules of a stylesheet that style the chart, with comments dropped and each rule on one line
+ */
+function getChartRules(stylesheet: string): string {
+  const rules = stylesheet.replace(/\/\*[\s\S]*?\*\//g, '').matchAll(/([^{}]+)\{([^{}]*)\}/g);
+  return Array.from(rules, ([, selector, body]) => {
+    const selectors = selector.split(',').map((part) => part.trim()).join(', ');
+    const declarations = body.split(';').map((part) => part.trim()).filter(Boolean).join('; ');
+    return `${selectors} { ${declarations}; }`;
+  })
+    .filter((rule) => rule.split('{')[0].includes('.chart-content'))
+    .join('\n');
+}
+
+/**
+ * The chart rules of ChartWheel.css (everything under .chart-content), one rule per line. Exported images can't see
+ * the page's stylesheets, so these are embedded in the SVG.
+ */
+export const defaultExportStyles = getChartRules(chartStylesheet);
+
+const DEFAULT_JPEG_QUALITY = 0.92;
+
+const fontMimeTypes: Record<NonNullable<ExportFont['format']>, string> = {
+  woff2: 'font/woff2',
+  woff: 'font/woff',
+  truetype: 'font/ttf',
+  opentype: 'font/otf',
+};
+
+/**
+ * Resolve export options to their defaults, rejecting combinations that can't be produced
+ */
+export function resolveExportImageOptions(options: ExportImageOptions = {}) {
+  const { format = 'png', pixelRatio = 1, transparent = false, quality = DEFAULT_JPEG_QUALITY } = options;
+  if (transparent && format === 'jpeg') {
+    throw new Error('ChartWheel: Transparent backgrounds are only supported for PNG exports');
+  }
+  if (!(pixelRatio > 0)) {
+    throw new Error(`ChartWheel: Invalid pixelRatio ${pixelRatio}`);
+  }
+  return { format, pixelRatio, transparent, quality };
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  // Chunked, so large fonts don't overflow the argument limit of fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function guessFontFormat(src: ExportFont['src']): NonNullable<ExportFont['format']> {
+  const extension = typeof src === 'string' ? src.split(/[?#]/)[0].split('.').pop()?.toLowerCase() : undefined;
+  if (extension === 'woff' || extension === 'woff2') return extension;
+  if (extension === 'otf') return 'opentype';
+  return 'truetype';
+}
+
+/**
+ * Build an @font-face rule with the font data inlined as a data URL
+ */
+async function buildFontFace(font: ExportFont): Promise<string> {
+  const format = font.format ?? guessFontFormat(font.src);
+  let bytes: Uint8Array;
+  if (typeof font.src === 'string') {
+    const response = await fetch(font.src);
+    if (!response.ok) {
+      throw new Error(`ChartWheel: Failed to load font "${font.family}" from ${font.src} (${response.status})`);
+    }
+    bytes = new Uint8Array(await response.arrayBuffer());
+  } else {
+    bytes = font.src instanceof Uint8Array ? font.src : new Uint8Array(font.src);
+  }
+
+  const descriptors = [
+    `font-family: "${font.family}"`,
+    `src: url(data:${fontMimeTypes[format]};base64,${toBase64(bytes)}) format("${format}")`,
+    font.weight !== undefined ? `font-weight: ${font.weight}` : null,
+    font.style ? `font-style: ${font.style}` : null,
+  ].filter(Boolean);
+  return `@font-face { ${descriptors.join('; ')}; }`;
+}
+
+/**
+ * Copy a page element into a scene node
+ */
+function elementToScene(element: Element): SceneNode {
+  const node = new SceneNode(element.localName);
+  Array.from(element.attributes).forEach((attr) => node.attr(attr.name, attr.value));
+  if (element.children.length === 0 && element.textContent) node.text(element.textContent);
+  Array.from(element.children).forEach((child) => node.children.push(elementToScene(child)));
+  return node;
+}
+
+/**
+ * The page's <symbol>s that the scene's glyphs reference but the scene doesn't define itself
+ */
+function collectPageSymbols(scene: SceneNode): SceneNode[] {
+  if (typeof document === 'undefined') return [];
+  const defined = new Set<string>();
+  const visit = (node: SceneNode) => {
+    if (node.tag === 'symbol' && node.attrs.id) defined.add(node.attrs.id);
+    node.children.forEach(visit);
+  };
+  visit(scene);
+
+  return getSymbolReferences(scene)
+    .filter((id) => !defined.has(id))
+    .map((id) => document.getElementById(id))
+    .filter((element): element is HTMLElement => element?.localName === 'symbol')
+    .map(elementToScene);
+}
+
+/**
+ * Build the standalone SVG for an image export: the chart at its default zoom,
+ * with styles and fonts embedded so it renders the same outside the page.
+ */
+export async function buildExportSvg(
+  sceneOptions: ChartSceneOptions,
+  options: ExportImageOptions = {}
+): Promise<string> {
+  const { transparent } = resolveExportImageOptions(options);
+  const svg = buildChartScene(sceneOptions);
+
+  if (transparent) {
+    const backgroundIndex = svg.children.findIndex((child) => child.attrs.class === 'chart-background');
+    if (backgroundIndex !== -1) svg.children.splice(backgroundIndex, 1);
+  }
+
+  const fontFaces = await Promise.all((options.fonts ?? []).map(buildFontFace));
+  const css = [...fontFaces, options.styles ?? defaultExportStyles].join('\n');
+  const defs = new SceneNode('defs');
+  defs.append('style').attr('type', 'text/css').text(css);
+  // Symbols from the page's sprite go with the image
+  defs.children.push(...collectPageSymbols(svg));
+  svg.children.unshift(defs);
+
+  return serializeScene(svg);
+}
+
+/**
+ * Collect the page's CSS rules that style the chart, so browser exports match what's on screen.
+ * Stylesheets from other origins can't be read and are skipped.
+ */
+export function collectChartStyles(): string | null {
+  const rules: string[] = [];
+  for (const sheet of Array.from(document.styleSheets)) {
+    let cssRules: CSSRuleList;
+    try {
+      cssRules = sheet.cssRules;
+    } catch {
+      continue;
+    }
+    for (const rule of Array.from(cssRules)) {
+      if (rule.cssText.includes('.chart-content')) rules.push(rule.cssText);
+    }
+  }
+  return rules.length > 0 ? rules.join('\n') : null;
+}
+
+/**
+ * The page's @font-face fonts for the given font families (a CSS font-family list, e.g. glyphConfig.glyphFont),
+ * so exported images can inline the web fonts the chart is drawn with. Fonts without a URL source are skipped.
+ */
+export function collectPageFonts(fontFamily: string): ExportFont[] {
+  const families = new Set(fontFamily.split(',').map((family) => family.trim().replace(/^["']|["']$/g, '')));
+  const fonts: ExportFont[] = [];
+  for (const sheet of Array.from(document.styleSheets)) {
+    let cssRules: CSSRuleList;
+    try {
+      cssRules = sheet.cssRules;
+    } catch {
+      continue;
+    }
+    for (const rule of Array.from(cssRules)) {
+      if (!rule.cssText.startsWith('@font-face')) continue;
+      const { style } = rule as CSSFontFaceRule;
+      const family = style.getPropertyValue('font-family').trim().replace(/^["']|["']$/g, '');
+      const source = style.getPropertyValue('src').match(/url\(\s*["']?([^"')]+)["']?\s*\)(?:\s*format\(\s*["']?([a-z0-9]+))?/i);
+      if (!families.has(family) || !source || source[1].startsWith('data:')) continue;
+      const [, url, format] = source;
+      fonts.push({
+        family,
+        src: new URL(url, sheet.href ?? document.baseURI).href,
+        format: format && format in fontMimeTypes ? (format as ExportFont['format']) : undefined,
+        weight: style.getPropertyValue('font-weight') || undefined,
+        style: style.getPropertyValue('font-style') || undefined,
+      });
+    }
+  }
+  return fonts;
+}
+
+/**
+ * Values of the chart's --aphrodite-* custom properties as set on the page (on the chart or any ancestor), as a rule
+ * on the chart root. Exported images lose the chart's ancestors, so the values are carried over onto the root.
+ */
+export function collectChartVariables(svgElement: SVGSVGElement, styles: string = ''): string | null {
+  const names = new Set(Array.from(`${svgElement.outerHTML}\n${styles}`.matchAll(/var\((--aphrodite-[a-z0-9_-]+)/g), (match) => match[1]));
+  const computed = getComputedStyle(svgElement);
+  const declarations = Array.from(names)
+    .map((name) => [name, computed.getPropertyValue(name).trim()])
+    .filter(([, value]) => value)
+    .map(([name, value]) => `${name}: ${value};`);
+  return declarations.length > 0 ? `.chart-wheel { ${declarations.join(' ')} }` : null;
+}
+
+function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('ChartWheel: Failed to load the chart SVG for export'));
+    image.src = url;
+  });
+}
+
+/**
+ * Rasterize an SVG string in the browser by drawing it onto a canvas
+ */
+export async function rasterizeSvg(
+  svg: string,
+  width: number,
+  height: number,
+  options: ExportImageOptions = {}
+): Promise<Blob> {
+  const { format, pixelRatio, quality } = resolveExportImageOptions(options);
+  const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml;charset=utf-8' }));
+
+  try {
+    const image = await loadImage(url);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(width * pixelRatio);
+    canvas.height = Math.round(height * pixelRatio);
+
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('ChartWheel: Canvas 2D context is not available');
+    }
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(
+        (blob) => (blob ? resolve(blob) : reject(new Error('ChartWheel: Failed to encode the image'))),
+        `image/${format}`,
+        format === 'jpeg' ? quality : undefined
+      );
+    });
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
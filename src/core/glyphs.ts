@@ -0,0 +1,120 @@
+import { SceneNode } from './scene';
+import { GlyphSet, GlyphSource } from '../utils/glyphSets';
+
+export interface GlyphOptions {
+  x: number;
+  y: number;
+  /**
+   * Font size of text glyphs, and width and height of path and symbol glyphs
+   */
+  size: number;
+  /**
+   * Colour attribute, for renderers without CSS
+   */
+  color: string;
+  /**
+   * Colour style, e.g. a custom property falling back to the colour
+   */
+  cssColor: string;
+  className?: string;
+  fontFamily?: string;
+  /**
+   * Transform applied around the glyph's position, e.g. a lock rotation
+   */
+  transform?: string;
+}
+
+/**
+ * Draw a glyph centred on (x, y): text for Unicode glyphs, a <path> scaled to the glyph size for path data,
+ * or a <use> of the referenced <symbol>. Returns the glyph element.
+ */
+export function appendGlyph(parent: SceneNode, glyph: GlyphSource, options: GlyphOptions): SceneNode {
+  const { x, y, size, color, cssColor, className, fontFamily = 'Arial', transform } = options;
+
+  if (typeof glyph === 'string') {
+    return parent
+      .append('text')
+      .attr('class', className)
+      .attr('x', x)
+      .attr('y', y)
+      .attr('transform', transform)
+      .attr('font-size', `${size}px`)
+      .attr('font-family', fontFamily)
+      .attr('fill', color)
+      .style('fill', cssColor)
+      .text(glyph);
+  }
+
+  if ('symbol' in glyph) {
+    // Symbols drawn with currentColor pick up the glyph colour
+    return parent
+      .append('use')
+      .attr('class', className)
+      .attr('href', `#${glyph.symbol}`)
+      .attr('x', x - size / 2)
+      .attr('y', y - size / 2)
+      .attr('width', size)
+      .attr('height', size)
+      .attr('transform', transform)
+      .attr('color', color)
+      .style('color', cssColor)
+      .attr('fill', color)
+      .style('fill', cssColor);
+  }
+
+  const pathSize = glyph.size ?? 100;
+  const placement = `translate(${x - size / 2}, ${y - size / 2}) scale(${size / pathSize})`;
+  const path = parent
+    .append('path')
+    .attr('class', className)
+    .attr('d', glyph.path)
+    .attr('transform', transform ? `${transform} ${placement}` : placement);
+
+  if (glyph.stroke) {
+    return path
+      .attr('fill', 'none')
+      .attr('stroke', color)
+      .style('stroke', cssColor)
+      .attr('stroke-width', pathSize * 0.07)
+      .attr('stroke-linecap', 'round')
+      .attr('stroke-linejoin', 'round');
+  }
+  return path.attr('fill', color).style('fill', cssColor);
+}
+
+/**
+ * Ids of the symbols referenced by <use> elements in a scene
+ */
+export function getSymbolReferences(scene: SceneNode): string[] {
+  const ids = new Set<string>();
+  const visit = (node: SceneNode) => {
+    const href = node.tag === 'use' ? node.attrs.href : undefined;
+    if (href?.startsWith('#')) ids.add(href.slice(1));
+    node.children.forEach(visit);
+  };
+  visit(scene);
+  return Array.from(ids);
+}
+
+/**
+ * Append <defs> with the <symbol>s the scene's glyphs reference and the glyph set has path data for,
+ * so the SVG draws them without the page (server rendering, exports)
+ */
+export function appendSymbolDefs(scene: SceneNode, glyphSet: GlyphSet | null): void {
+  const definitions = new Map<string, { path: string; size?: number }>();
+  for (const glyphs of [glyphSet?.signs, glyphSet?.objects, glyphSet?.aspects]) {
+    for (const glyph of Object.values(glyphs ?? {})) {
+      if (typeof glyph !== 'string' && 'symbol' in glyph && glyph.path) {
+        definitions.set(glyph.symbol, { path: glyph.path, size: glyph.size });
+      }
+    }
+  }
+
+  const ids = getSymbolReferences(scene).filter((id) => definitions.has(id));
+  if (ids.length === 0) return;
+  const defs = scene.append('defs').keyed('glyph-symbols');
+  for (const id of ids) {
+    const { path, size = 100 } = definitions.get(id)!;
+    defs.append('symbol').keyed(id).attr('id', id).attr('viewBox', `0 0 ${size} ${size}`).append('path').attr('d', path);
+  }
+}
@@ -0,0 +1,50 @@
+import { RenderResponse } from '@gaia-tools/iris-core';
+import { buildIndexes } from '../utils/buildIndexes';
+import { ExportImageOptions, buildExportSvg, resolveExportImageOptions } from './exportImage';
+import { RenderChartToSvgStringOptions } from './renderToString';
+
+export interface RenderChartToImageOptions extends RenderChartToSvgStringOptions, ExportImageOptions {}
+
+/**
+ * The parts of sharp's API used for rasterizing
+ */
+interface SharpInstance {
+  png(options?: Record<string, unknown>): SharpInstance;
+  jpeg(options?: { quality?: number }): SharpInstance;
+  toBuffer(): Promise<Uint8Array>;
+}
+
+type SharpFactory = (input: Uint8Array, options?: { density?: number }) => SharpInstance;
+
+/**
+ * SVG user units per inch, which sharp (librsvg) renders at 1:1
+ */
+const SVG_DPI = 72;
+
+async function loadSharp(): Promise<SharpFactory> {
+  // Imported by name at runtime, so bundlers leave the optional dependency alone
+  const moduleName = 'sharp';
+  try {
+    const sharpModule = await import(/* @vite-ignore */ moduleName);
+    return (sharpModule.default ?? sharpModule) as SharpFactory;
+  } catch {
+    throw new Error("renderChartToImage requires the optional 'sharp' package. Install it with `npm install sharp`.");
+  }
+}
+
+/**
+ * Render a chart to a PNG or JPEG image without a DOM, using sharp.
+ * Produces the same image ChartWheel.exportImage does for the same options.
+ */
+export async function renderChartToImage(
+  renderData: RenderResponse,
+  options: RenderChartToImageOptions = {}
+): Promise<Uint8Array> {
+  const { format, pixelRatio, quality } = resolveExportImageOptions(options);
+  const { indexes = buildIndexes(renderData), ...rest } = options;
+  const svg = await buildExportSvg({ ...rest, renderData, indexes }, options);
+
+  const sharp = await loadSharp();
+  const image = sharp(new TextEncoder().encode(svg), { density: SVG_DPI * pixelRatio });
+  return format === 'jpeg' ? image.jpeg({ quality: Math.round(quality * 100) }).toBuffer() : image.png().toBuffer();
+}
@@ -0,0 +1,24 @@
+import { RenderResponse, IndexesDTO } from '@gaia-tools/iris-core';
+import { buildIndexes } from '../utils/buildIndexes';
+import { ChartSceneOptions, buildChartScene } from './chartScene';
+import { serializeScene } from './scene';
+
+export interface RenderChartToSvgStringOptions extends Omit<ChartSceneOptions, 'renderData' | 'indexes'> {
+  /**
+   * Prebuilt indexes for the render data (built on the fly if omitted)
+   */
+  indexes?: IndexesDTO;
+}
+
+/**
+ * Render a chart to a standalone SVG string, without a DOM.
+ * Produces the same markup ChartWheel renders on the client for the same options,
+ * minus the interactivity (click handlers, zoom and pan).
+ */
+export function renderChartToSvgString(
+  renderData: RenderResponse,
+  options: RenderChartToSvgStringOptions = {}
+): string {
+  const { indexes = buildIndexes(renderData), ...sceneOptions } = options;
+  return serializeScene(buildChartScene({ ...sceneOptions, renderData, indexes }));
+}
@@ -0,0 +1,114 @@
+import { RingItemDTO, RingDTO, AspectPairDTO } from '@gaia-tools/iris-core';
+
+export const SVG_NAMESPACE = 'http://www.w3.org/2000/svg';
+
+export type SceneAttrValue = string | number | null | undefined;
+
+/**
+ * What a scene node represents, so renderers can attach interaction to it
+ */
+export type SceneInteraction =
+  | { kind: 'item'; item: RingItemDTO; ring: RingDTO }
+  | { kind: 'aspect'; aspect: AspectPairDTO };
+
+/**
+ * A DOM-free SVG element description.
+ *
+ * The chart is built as a tree of scene nodes with a small d3-like chaining API, then either
+ * materialized into the DOM (ChartWheel) or serialized to a string (server rendering),
+ * so both produce the same markup.
+ */
+export class SceneNode {
+  readonly tag: string;
+  readonly attrs: Record<string, string> = {};
+  readonly children: SceneNode[] = [];
+  textContent: string | null = null;
+  interaction: SceneInteraction | null = null;
+  /**
+   * Identity among its siblings (e.g. ring, item or aspect id), used to match nodes across renders
+   */
+  key: string | null = null;
+
+  constructor(tag: string) {
+    this.tag = tag;
+  }
+
+  /**
+   * Append a child element and return it
+   */
+  append(tag: string): SceneNode {
+    const child = new SceneNode(tag);
+    this.children.push(child);
+    return child;
+  }
+
+  /**
+   * Set an attribute. null/undefined removes it, like d3's selection.attr.
+   */
+  attr(name: string, value: SceneAttrValue): this {
+    if (value === null || value === undefined) {
+      delete this.attrs[name];
+    } else {
+      this.attrs[name] = String(value);
+    }
+    return this;
+  }
+
+  /**
+   * Set a property in the style attribute, like d3's selection.style. null/undefined removes it.
+   */
+  style(name: string, value: SceneAttrValue): this {
+    const declarations = (this.attrs.style ?? '')
+      .split(';')
+      .map((declaration) => declaration.trim())
+      .filter((declaration) => declaration && !declaration.startsWith(`${name}:`));
+    if (value !== null && value !== undefined) declarations.push(`${name}: ${value}`);
+    return this.attr('style', declarations.length > 0 ? `${declarations.join('; ')};` : null);
+  }
+
+  /**
+   * Set the node's key among its siblings
+   */
+  keyed(key: string): this {
+    this.key = key;
+    return this;
+  }
+
+  text(value: string): this {
+    this.textContent = value;
+    return this;
+  }
+
+  /**
+   * Mark the node as interactive (clickable item or aspect)
+   */
+  interact(interaction: SceneInteraction): this {
+    this.interaction = interaction;
+    return this;
+  }
+}
+
+function escapeText(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function escapeAttr(value: string): string {
+  return escapeText(value).replace(/"/g, '&quot;');
+}
+
+/**
+ * Serialize a scene tree to SVG markup. The root gets an xmlns so the output is a standalone SVG document.
+ */
+export function serializeScene(node: SceneNode, isRoot: boolean = true): string {
+  const attrs = Object.entries(node.attrs)
+    .map(([name, value]) => ` ${name}="${escapeAttr(value)}"`)
+    .join('');
+  const xmlns = isRoot && node.tag === 'svg' ? ` xmlns="${SVG_NAMESPACE}"` : '';
+  const content =
+    (node.textContent !== null ? escapeText(node.textContent) : '') +
+    node.children.map((child) => serializeScene(child, false)).join('');
+
+  return content
+    ? `<${node.tag}${xmlns}${attrs}>${content}</${node.tag}>`
+    : `<${node.tag}${xmlns}${attrs}/>`;
+}
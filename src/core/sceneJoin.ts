@@ -0,0 +1,101 @@
+import * as d3 from 'd3';
+import { SceneNode, SceneInteraction, SVG_NAMESPACE } from './scene';
+
+/**
+ * Handles pointer, focus and keyboard events on interactive scene nodes; the event's type tells which one
+ */
+export type SceneInteractionHandler = (interaction: SceneInteraction, event: Event) => void;
+
+/**
+ * Events forwarded from interactive elements
+ */
+const interactionEvents = ['click', 'mouseenter', 'mouseleave', 'focus', 'keydown'] as const;
+
+/**
+ * Scene node last rendered into each element, so attributes the scene no longer sets can be removed
+ * without touching attributes set by others (e.g. the zoom transform)
+ */
+const renderedNodes = new WeakMap<Element, SceneNode>();
+
+/**
+ * Join keys of rendered scene nodes
+ */
+const joinKeys = new WeakMap<SceneNode, string>();
+
+/**
+ * Assign join keys to sibling nodes: the node's key if it has one,
+ * otherwise its position among unkeyed siblings with the same tag
+ */
+function assignJoinKeys(nodes: SceneNode[]): void {
+  const positions: Record<string, number> = {};
+  for (const node of nodes) {
+    if (node.key !== null) {
+      joinKeys.set(node, `${node.tag}|${node.key}`);
+    } else {
+      positions[node.tag] = (positions[node.tag] ?? 0) + 1;
+      joinKeys.set(node, `${node.tag}#${positions[node.tag]}`);
+    }
+  }
+}
+
+/**
+ * Bring an element's attributes, text and event handlers in line with its scene node.
+ * Only values that changed since the last render are written to the DOM.
+ */
+export function syncSceneElement(
+  element: Element,
+  node: SceneNode,
+  onInteraction: SceneInteractionHandler
+): void {
+  const previous = renderedNodes.get(element);
+
+  for (const name of Object.keys(previous?.attrs ?? {})) {
+    if (!(name in node.attrs)) element.removeAttribute(name);
+  }
+  for (const [name, value] of Object.entries(node.attrs)) {
+    if (previous?.attrs[name] !== value) element.setAttribute(name, value);
+  }
+  if (node.textContent !== null && element.textContent !== node.textContent) {
+    element.textContent = node.textContent;
+  }
+
+  if (!previous || !!previous.interaction !== !!node.interaction) {
+    const selection = d3.select(element);
+    for (const type of interactionEvents) {
+      if (node.interaction) {
+        // Reads the node when the event fires, so the handler doesn't need rebinding on updates
+        selection.on(type, (event: Event) => {
+          const current = renderedNodes.get(element)?.interaction;
+          if (current) onInteraction(current, event);
+        });
+      } else {
+        selection.on(type, null);
+      }
+    }
+  }
+
+  renderedNodes.set(element, node);
+  joinSceneChildren(element, node.children, onInteraction);
+}
+
+/**
+ * Render scene nodes as the children of an element with a keyed D3 data join.
+ * Elements are matched to nodes by key (ring, item or aspect id), so an update only
+ * touches what changed: new nodes are entered, missing ones exit, the rest are updated in place.
+ */
+export function joinSceneChildren(
+  parent: Element,
+  nodes: SceneNode[],
+  onInteraction: SceneInteractionHandler
+): void {
+  assignJoinKeys(nodes);
+
+  d3.select(parent)
+    .selectChildren<Element, SceneNode>()
+    .data(nodes, (node) => joinKeys.get(node) ?? '')
+    .join((enter) => enter.append((node) => document.createElementNS(SVG_NAMESPACE, node.tag)))
+    .order()
+    .each(function (node) {
+      syncSceneElement(this, node, onInteraction);
+    });
+}
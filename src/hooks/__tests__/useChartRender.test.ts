@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, beforeEach, afterEach, type MockInstance } from 'vitest';
+import { renderHook, waitFor, act } from '@testing-library/react';
+import { useChartRender } from '../useChartRender';
+import { createMockApiClient, createMockRenderResponse } from '../../test/fixtures';
+import type { RenderResponse } from '@gaia-tools/iris-core';
+
+describe('useChartRender', () => {
+  let consoleError: MockInstance<any[], void>;
+
+  beforeEach(() => {
+    consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleError.mockRestore();
+  });
+
+  it('fetches render data and builds indexes', async () => {
+    const renderData = createMockRenderResponse();
+    const { client, render } = createMockApiClient(renderData);
+
+    const { result } = renderHook(() => useChartRender(client, { instanceId: 'instance-1' }));
+
+    expect(result.current.isLoading).toBe(true);
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    expect(render).toHaveBeenCalledWith('instance-1', undefined);
+    expect(result.current.data).toBe(renderData);
+    expect(result.current.isError).toBe(false);
+    expect(result.current.indexes?.ringById['planets']).toBeDefined();
+    expect(result.current.indexes?.itemsByLogicalId['natal:planet:sun']).toBeDefined();
+  });
+
+  it('passes wheelIdOverride to the render endpoint', async () => {
+    const { client, render } = createMockApiClient();
+
+    const { result } = renderHook(() =>
+      useChartRender(client, { instanceId: 'instance-1', wheelIdOverride: 'wheel-2' })
+    );
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    expect(render).toHaveBeenCalledWith('instance-1', { wheelId: 'wheel-2' });
+  });
+
+  it('does not fetch when disabled', () => {
+    const { client, render } = createMockApiClient();
+
+    const { result } = renderHook(() =>
+      useChartRender(client, { instanceId: 'instance-1', enabled: false })
+    );
+
+    expect(render).not.toHaveBeenCalled();
+    expect(result.current.isLoading).toBe(false);
+    expect(result.current.data).toBeNull();
+    expect(result.current.indexes).toBeNull();
+  });
+
+  it('exposes errors and clears data when the request fails', async () => {
+    const failure = Object.assign(new Error('Request failed'), {
+      response: { status: 404, data: { detail: 'Instance not found' } },
+    });
+    const { client } = createMockApiClient(() => Promise.reject(failure));
+
+    const { result } = renderHook(() => useChartRender(client, { instanceId: 'missing' }));
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    expect(result.current.isError).toBe(true);
+    expect(result.current.error).toBe(failure);
+    expect(result.current.data).toBeNull();
+    expect(result.current.indexes).toBeNull();
+    expect(consoleError).toHaveBeenCalledWith(
+      'Chart render error:',
+      expect.objectContaining({ instanceId: 'missing', error: 'Instance not found', status: 404 })
+    );
+  });
+
+  it('refetches on demand', async () => {
+    const first = createMockRenderResponse();
+    const second = createMockRenderResponse({
+      chartInstance: { ...first.chartInstance, title: 'Updated Chart' },
+    });
+    const { client, render } = createMockApiClient(first);
+
+    const { result } = renderHook(() => useChartRender(client, { instanceId: 'instance-1' }));
+    await waitFor(() => expect(result.current.data).toBe(first));
+
+    render.mockImplementation(() => Promise.resolve(second));
+    act(() => {
+      result.current.refetch();
+    });
+
+    await waitFor(() => expect(result.current.data).toBe(second));
+    expect(render).toHaveBeenCalledTimes(2);
+  });
+
+  it('ignores responses for a superseded instanceId', async () => {
+    const stale = createMockRenderResponse();
+    const fresh = createMockRenderResponse({
+      chartInstance: { ...stale.chartInstance, id: 'instance-2' },
+    });
+    let resolveStale: (value: RenderResponse) => void = () => {};
+    const { client } = createMockApiClient((instanceId) =>
+      instanceId === 'instance-1'
+        ? new Promise<RenderResponse>((resolve) => {
+            resolveStale = resolve;
+          })
+        : Promise.resolve(fresh)
+    );
+
+    const { result, rerender } = renderHook(
+      ({ instanceId }) => useChartRender(client, { instanceId }),
+      { initialProps: { instanceId: 'instance-1' } }
+    );
+
+    rerender({ instanceId: 'instance-2' });
+    await waitFor(() => expect(result.current.data).toBe(fresh));
+
+    await act(async () => {
+      resolveStale(stale);
+    });
+
+    expect(result.current.data).toBe(fresh);
+  });
+});
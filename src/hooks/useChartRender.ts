@@ -1,4 +1,4 @@
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import { IrisApiClient, RenderResponse, IndexesDTO } from '@gaia-tools/iris-core';
 import { buildIndexes } from '../utils/buildIndexes';
 
@@ -31,50 +31,57 @@ export function useChartRender(
   const [isError, setIsError] = useState<boolean>(false);
   const [error, setError] = useState<unknown>(null);
 
-  useEffect(() => {
-    if (!enabled) return;
+  // Every request gets an id; responses from anything but the latest request
+  // (superseded by a refetch, a changed instanceId, or unmount) are dropped.
+  const latestRequestRef = useRef(0);
 
-    let cancelled = false;
+  const fetchData = useCallback(async () => {
+    const requestId = ++latestRequestRef.current;
+    const cancelled = () => requestId !== latestRequestRef.current;
 
-    const fetchData = async () => {
-      setIsLoading(true);
-      setIsError(false);
-      setError(null);
+    setIsLoading(true);
+    setIsError(false);
+    setError(null);
 
-      try {
-        // Note: iris-core only has render endpoint, not instances
-        // This hook may need to be updated to work with the new API structure
-        throw new Error('useChartRender needs to be updated for iris-core API structure');
-        if (!cancelled) {
-          setData(renderData);
-        }
-      } catch (err: any) {
-        if (!cancelled) {
-          setIsError(true);
-          // Include more error details for debugging
-          const errorMessage = err.response?.data?.detail || err.message || String(err);
-          console.error('Chart render error:', {
-            instanceId,
-            error: errorMessage,
-            response: err.response?.data,
-            status: err.response?.status,
-          });
-          setError(err);
-          setData(null);
-        }
-      } finally {
-        if (!cancelled) {
-          setIsLoading(false);
-        }
+    try {
+      const renderData = await apiClient.render(
+        instanceId,
+        wheelIdOverride ? { wheelId: wheelIdOverride } : undefined
+      );
+      if (!cancelled()) {
+        setData(renderData);
       }
-    };
+    } catch (err: any) {
+      if (!cancelled()) {
+        setIsError(true);
+        // Include more error details for debugging
+        const errorMessage = err?.response?.data?.detail || err?.message || String(err);
+        console.error('Chart render error:', {
+          instanceId,
+          error: errorMessage,
+          response: err?.response?.data,
+          status: err?.response?.status,
+        });
+        setError(err);
+        setData(null);
+      }
+    } finally {
+      if (!cancelled()) {
+        setIsLoading(false);
+      }
+    }
+  }, [apiClient, instanceId, wheelIdOverride]);
+
+  useEffect(() => {
+    if (!enabled) return;
 
     fetchData();
 
     return () => {
-      cancelled = true;
+      // Invalidate the in-flight request
+      latestRequestRef.current++;
     };
-  }, [apiClient, instanceId, wheelIdOverride, enabled]);
+  }, [fetchData, enabled]);
 
   // Derive indexes from data (purely derived, no separate network call)
   const indexes = useMemo(() => {
@@ -82,25 +89,9 @@ export function useChartRender(
     return buildIndexes(data);
   }, [data]);
 
-  const refetch = () => {
-    setIsLoading(true);
-    setIsError(false);
-    setError(null);
-
-    // Note: iris-core only has render endpoint, not instances
-    // This hook may need to be updated to work with the new API structure
-    Promise.reject(new Error('useChartRender needs to be updated for iris-core API structure'))
-      .then((renderData) => {
-        setData(renderData);
-        setIsLoading(false);
-      })
-      .catch((err) => {
-        setIsError(true);
-        setError(err);
-        setData(null);
-        setIsLoading(false);
-      });
-  };
+  const refetch = useCallback(() => {
+    void fetchData();
+  }, [fetchData]);
 
   return {
     data: data || null,
@@ -111,4 +102,3 @@ export function useChartRender(
     refetch,
   };
 }
-
@@ -2,8 +2,35 @@
 export { useChartRender, type UseChartRenderOptions, type UseChartRenderResult } from './hooks/useChartRender';
 export { useOrientation, type UseOrientationOptions, type UseOrientationResult } from './hooks/useOrientation';
 
-// Re-export ChartWheel from aphrodite-core (framework-agnostic)
-export { ChartWheel, type ChartWheelOptions, type Theme } from '@gaia-tools/aphrodite-core';
+// React components
+export { ChartWheel, type ChartWheelProps } from './components/ChartWheel';
+export { AspectGrid, type AspectGridProps } from './components/AspectGrid';
+export { PositionsTable, type PositionsTableProps } from './components/PositionsTable';
+
+// Framework-agnostic ChartWheel renderer (for non-React hosts or imperative use)
+export { ChartWheel as ChartWheelCore, type ChartWheelOptions, type Theme } from './core/ChartWheel';
+export { AspectGrid as AspectGridCore, type AspectGridOptions } from './core/AspectGrid';
+export type { DegreeFormat } from './utils/chartWheelHelpers';
+export { registerTheme, getThemeNames, type ColorScheme, type ThemeConfig } from './utils/themes';
+export { cssVariable, getThemeCssVariables, buildThemeCss } from './utils/cssVariables';
+export type { ChartColoring, SignColoring, HouseColoring, ZodiacElement, Modality } from './utils/coloring';
+export { registerGlyphSet, type GlyphSet, type GlyphSource } from './utils/glyphSets';
+export {
+  registerObject,
+  getObjectDefinition,
+  getObjectIds,
+  type ObjectCategory,
+  type ObjectCategoryVisibility,
+  type ChartObjectDefinition,
+} from './utils/objects';
+export type { LayerStyle } from './utils/layers';
+export type { GlyphLayoutOptions } from './utils/glyphLayout';
+export type { PlanetMotionOptions } from './utils/planetMotion';
+export type { ChartTransition } from './utils/transitions';
+export type { ChartHighlight } from './utils/hover';
+export type { DialOptions } from './utils/dial';
+export { buildLayerPositions, type LayerPositions, type PlanetPosition, type CuspPosition } from './utils/positions';
+export type { ExportImageOptions, ExportFont, ImageFormat } from './core/exportImage';
 
 // Re-export buildIndexes from iris-core
 export { buildIndexes } from '@gaia-tools/iris-core';
@@ -1,3 +1,26 @@
 // Server-side exports (no React dependencies)
 export { buildIndexes } from '@gaia-tools/iris-core';
 
+// Static SVG and image rendering (no DOM required)
+export { renderChartToSvgString, type RenderChartToSvgStringOptions } from './core/renderToString';
+export { renderChartToImage, type RenderChartToImageOptions } from './core/renderToImage';
+export type { ChartSceneOptions } from './core/chartScene';
+export type { ChartHighlight } from './utils/hover';
+export type { DialOptions } from './utils/dial';
+export type { ExportImageOptions, ExportFont, ImageFormat } from './core/exportImage';
+export type { Theme, DegreeFormat } from './utils/chartWheelHelpers';
+export { registerTheme, getThemeNames, type ColorScheme, type ThemeConfig } from './utils/themes';
+export { cssVariable, getThemeCssVariables, buildThemeCss } from './utils/cssVariables';
+export type { ChartColoring, SignColoring, HouseColoring, ZodiacElement, Modality } from './utils/coloring';
+export { registerGlyphSet, type GlyphSet, type GlyphSource } from './utils/glyphSets';
+export {
+  registerObject,
+  getObjectDefinition,
+  getObjectIds,
+  type ObjectCategory,
+  type ObjectCategoryVisibility,
+  type ChartObjectDefinition,
+} from './utils/objects';
+export type { LayerStyle } from './utils/layers';
+export type { GlyphLayoutOptions } from './utils/glyphLayout';
+export type { PlanetMotionOptions } from './utils/planetMotion';
@@ -1,4 +1,6 @@
+import { vi } from 'vitest';
 import type {
+  IrisApiClient,
   RenderResponse,
   IndexesDTO,
   ChartInstanceSummary,
@@ -57,7 +59,7 @@ export function createMockRenderResponse(overrides?: Partial<RenderResponse>): R
     coordinateSystem: {
       angleUnit: 'degrees',
       angleRange: [0, 360],
-      direction: 'cw',
+      direction: 'ccw',
       zeroPoint: {
         type: 'zodiac',
         signStart: 'aries',
@@ -259,7 +261,7 @@ export function createMinimalRenderResponse(): RenderResponse {
     coordinateSystem: {
       angleUnit: 'degrees',
       angleRange: [0, 360],
-      direction: 'cw',
+      direction: 'ccw',
       zeroPoint: {
         type: 'zodiac',
         signStart: 'aries',
@@ -282,6 +284,25 @@ export function createMinimalRenderResponse(): RenderResponse {
   };
 }
 
+/**
+ * Creates the mock RenderResponse with the Sun's planet ring item moved to the given longitude
+ */
+export function createRenderResponseWithSunAt(lon: number): RenderResponse {
+  const renderData = createMockRenderResponse();
+  const planetRing = renderData.wheel.rings[2];
+  return {
+    ...renderData,
+    wheel: {
+      ...renderData.wheel,
+      rings: [
+        renderData.wheel.rings[0],
+        renderData.wheel.rings[1],
+        { ...planetRing, items: planetRing.items!.map((item) => (item.id === 'planet-sun' ? { ...item, lon } : item)) },
+      ],
+    },
+  };
+}
+
 /**
  * Creates a RenderResponse with aspects
  */
@@ -343,3 +364,117 @@ export function createMockIndexes(overrides?: Partial<IndexesDTO>): IndexesDTO {
   };
 }
 
+
+/**
+ * Creates a mock IrisApiClient whose render endpoint resolves with the given response.
+ * Pass a function to control the response per call (e.g. to reject or delay).
+ */
+export function createMockApiClient(
+  response:
+    | RenderResponse
+    | ((instanceId: string, params?: { wheelId?: string }) => Promise<RenderResponse>) = createMockRenderResponse()
+) {
+  const render = vi.fn(
+    typeof response === 'function'
+      ? response
+      : () => Promise.resolve(response)
+  );
+
+  return {
+    client: { render } as unknown as IrisApiClient,
+    render,
+  };
+}
+
+/**
+ * Creates a bi-wheel RenderResponse: natal planets inside, transit planets on an outer ring,
+ * with an inter-layer (transit to natal) aspect set
+ */
+export function createMultiLayerRenderResponse(): RenderResponse {
+  const base = createMockRenderResponse();
+  return {
+    ...base,
+    layers: {
+      ...base.layers,
+      transit: {
+        id: 'transit',
+        label: 'Transits',
+        kind: 'transit',
+        dateTime: '2024-01-01T12:00:00Z',
+        positions: {
+          planets: {
+            sun: { lon: 280.0, lat: 0, speedLon: 1.0, retrograde: false },
+            mars: { lon: 160.5, lat: 1.1, speedLon: 0.6, retrograde: false },
+          },
+        },
+      },
+    },
+    aspects: {
+      sets: {
+        'transit-natal': {
+          id: 'transit-natal',
+          label: 'Transit to Natal',
+          kind: 'inter_layer',
+          layerIds: ['transit', 'natal'],
+          pairs: [
+            {
+              id: 'aspect-transit-mars-natal-moon',
+              from: { layerId: 'transit', objectType: 'planet', objectId: 'mars' },
+              to: { layerId: 'natal', objectType: 'planet', objectId: 'moon' },
+              aspect: {
+                type: 'trine',
+                exactAngle: 120.0,
+                orb: 0.25,
+                isApplying: true,
+                isExact: false,
+              },
+            },
+          ],
+        },
+      },
+    },
+    wheel: {
+      ...base.wheel,
+      radius: { inner: 0, outer: 130 },
+      rings: [
+        ...base.wheel.rings,
+        {
+          id: 'transit-planets',
+          type: 'planets',
+          label: 'Transit Planets',
+          order: 3,
+          radius: { inner: 100, outer: 130 },
+          dataSource: { kind: 'layer_planets', layerId: 'transit' },
+          items: [
+            {
+              id: 'transit-planet-sun',
+              kind: 'planet',
+              planetId: 'sun',
+              layerId: 'transit',
+              lon: 280.0,
+              lat: 0,
+              speedLon: 1.0,
+              retrograde: false,
+              signIndex: 9,
+              signDegree: 10.0,
+              houseIndex: 10,
+            },
+            {
+              id: 'transit-planet-mars',
+              kind: 'planet',
+              planetId: 'mars',
+              layerId: 'transit',
+              lon: 160.5,
+              lat: 1.1,
+              speedLon: 0.6,
+              retrograde: false,
+              signIndex: 5,
+              signDegree: 10.5,
+              houseIndex: 5,
+            },
+          ] as PlanetRingItem[],
+        },
+      ],
+    },
+  };
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getNavigationOrder,
+  getItemAccessibleName,
+  getAspectAccessibleName,
+  buildChartSummary,
+} from '../accessibility';
+import { buildIndexes } from '../buildIndexes';
+import type { PlanetRingItem } from '@gaia-tools/iris-core';
+import { createRenderResponseWithAspects, createMultiLayerRenderResponse } from '../../test/fixtures';
+
+describe('getNavigationOrder', () => {
+  it('orders items across rings by longitude', () => {
+    expect(getNavigationOrder(createRenderResponseWithAspects())).toEqual([
+      'signs/sign-aries',
+      'houses/house-1',
+      'signs/sign-taurus',
+      'planets/planet-moon',
+      'houses/house-2',
+      'planets/planet-sun',
+    ]);
+  });
+});
+
+describe('getItemAccessibleName', () => {
+  it('names planets by sign, degree and house', () => {
+    const renderData = createRenderResponseWithAspects();
+    const [sun, moon] = renderData.wheel.rings[2].items! as PlanetRingItem[];
+
+    expect(getItemAccessibleName(sun, renderData)).toBe("Sun in Capricorn 10°30', house 10");
+    expect(getItemAccessibleName({ ...moon, retrograde: true }, renderData)).toBe(
+      "Moon in Taurus 10°15', house 1, retrograde"
+    );
+  });
+
+  it('names house cusps and signs', () => {
+    const renderData = createRenderResponseWithAspects();
+
+    expect(getItemAccessibleName(renderData.wheel.rings[1].items![0], renderData)).toBe('House 1 cusp in Aries 15°');
+    expect(getItemAccessibleName(renderData.wheel.rings[0].items![0], renderData)).toBe('Aries, 0° to 30°');
+  });
+
+  it('names the layer on multi-layer wheels', () => {
+    const renderData = createMultiLayerRenderResponse();
+
+    expect(getItemAccessibleName(renderData.wheel.rings[3].items![1], renderData)).toMatch(/^Transits Mars in /);
+  });
+});
+
+describe('getAspectAccessibleName', () => {
+  it('names the aspect with its orb and phase', () => {
+    const renderData = createRenderResponseWithAspects();
+    const aspect = renderData.aspects.sets['natal-aspects'].pairs[0];
+
+    expect(getAspectAccessibleName(aspect, renderData)).toBe("Sun trine Moon, orb 0°15', separating");
+  });
+});
+
+describe('buildChartSummary', () => {
+  it('tabulates positions and aspects', () => {
+    const renderData = createRenderResponseWithAspects();
+    const [positions, aspects] = buildChartSummary(renderData, buildIndexes(renderData));
+
+    expect(positions.columns).toEqual(['Object', 'Position', 'House', 'Motion']);
+    expect(positions.rows).toContainEqual(['Sun', "Capricorn 10°30'", '10', 'Direct']);
+    expect(positions.rows).toContainEqual(['House 2 cusp', 'Taurus 15°', '2', '']);
+    expect(aspects.rows).toEqual([['Sun trine Moon', "Orb 0°15'", 'Separating']]);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { resolveAspectGridSet, getAspectGridLayout, getAspectGridCellKey } from '../aspectGrid';
+import { createRenderResponseWithAspects, createMultiLayerRenderResponse } from '../../test/fixtures';
+
+describe('resolveAspectGridSet', () => {
+  it('picks the given set, or the first one', () => {
+    const renderData = createMultiLayerRenderResponse();
+    expect(resolveAspectGridSet(renderData)?.id).toBe('transit-natal');
+    expect(resolveAspectGridSet(renderData, 'transit-natal')?.id).toBe('transit-natal');
+    expect(resolveAspectGridSet(renderData, 'missing')).toBeNull();
+  });
+});
+
+describe('getAspectGridLayout', () => {
+  it('lays out aspects within a layer as a triangle, planets in the usual order', () => {
+    const renderData = createRenderResponseWithAspects();
+    const layout = getAspectGridLayout(renderData, renderData.aspects.sets['natal-aspects']);
+
+    expect(layout.shape).toBe('triangle');
+    expect(layout.rows.map((ref) => ref.objectId)).toEqual(['sun', 'moon', 'mercury', 'venus', 'mars']);
+    expect(layout.columns).toBe(layout.rows);
+    // Sun trine Moon lands below the diagonal: the Moon's row, the Sun's column
+    const [sun, moon] = layout.rows;
+    expect(layout.cells[getAspectGridCellKey(moon, sun)]?.id).toBe('aspect-1');
+    expect(layout.cells[getAspectGridCellKey(sun, moon)]).toBeUndefined();
+  });
+
+  it('lays out aspects between layers as a rectangle, rows from the first layer', () => {
+    const renderData = createMultiLayerRenderResponse();
+    const layout = getAspectGridLayout(renderData, renderData.aspects.sets['transit-natal']);
+
+    expect(layout.shape).toBe('rectangle');
+    expect(layout.rows.map((ref) => `${ref.layerId}:${ref.objectId}`)).toEqual(['transit:sun', 'transit:mars']);
+    expect(layout.columns.map((ref) => ref.objectId)).toEqual(['sun', 'moon', 'mercury', 'venus', 'mars']);
+    expect(layout.cells[getAspectGridCellKey(layout.rows[1], layout.columns[1])]?.id).toBe(
+      'aspect-transit-mars-natal-moon'
+    );
+  });
+
+  it('adds objects the aspects refer to that are not planets', () => {
+    const renderData = createRenderResponseWithAspects();
+    const set = renderData.aspects.sets['natal-aspects'];
+    set.pairs[0].to = { layerId: 'natal', objectType: 'angle', objectId: 'asc' };
+    const layout = getAspectGridLayout(renderData, set);
+
+    expect(layout.rows.map((ref) => ref.objectId)).toEqual(['sun', 'moon', 'mercury', 'venus', 'mars', 'asc']);
+    expect(layout.cells[getAspectGridCellKey(layout.rows[5], layout.rows[0])]?.id).toBe('aspect-1');
+  });
+});
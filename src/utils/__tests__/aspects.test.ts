@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import {
+  resolveAspectLines,
+  resolveAspectObjectLon,
+  getAspectStrokeWidth,
+  isSeparatingAspect,
+} from '../aspects';
+import { buildIndexes } from '../buildIndexes';
+import { createRenderResponseWithAspects, createMockRenderResponse } from '../../test/fixtures';
+
+describe('aspects', () => {
+  describe('resolveAspectObjectLon', () => {
+    it('resolves planets through the ring item indexes', () => {
+      const renderData = createRenderResponseWithAspects();
+      const indexes = buildIndexes(renderData);
+
+      expect(
+        resolveAspectObjectLon({ layerId: 'natal', objectType: 'planet', objectId: 'sun' }, renderData, indexes)
+      ).toBe(280.5);
+    });
+
+    it('falls back to layer positions for objects not on a ring', () => {
+      const renderData = createRenderResponseWithAspects();
+      const indexes = buildIndexes(renderData);
+
+      expect(
+        resolveAspectObjectLon({ layerId: 'natal', objectType: 'planet', objectId: 'mars' }, renderData, indexes)
+      ).toBe(120.0);
+      expect(
+        resolveAspectObjectLon({ layerId: 'natal', objectType: 'angle', objectId: 'asc' }, renderData, indexes)
+      ).toBe(15.0);
+    });
+
+    it('returns null for unknown objects', () => {
+      const renderData = createRenderResponseWithAspects();
+      const indexes = buildIndexes(renderData);
+
+      expect(
+        resolveAspectObjectLon({ layerId: 'transit', objectType: 'planet', objectId: 'sun' }, renderData, indexes)
+      ).toBeNull();
+    });
+  });
+
+  describe('resolveAspectLines', () => {
+    it('resolves every pair of every aspect set', () => {
+      const renderData = createRenderResponseWithAspects();
+      const lines = resolveAspectLines(renderData, buildIndexes(renderData));
+
+      expect(lines).toHaveLength(1);
+      expect(lines[0]).toMatchObject({ fromLon: 280.5, toLon: 40.25, fromRingId: 'planets', toRingId: 'planets' });
+      expect(lines[0].aspect.id).toBe('aspect-1');
+    });
+
+    it('only draws aspects listed on an aspect ring when there is one', () => {
+      const base = createRenderResponseWithAspects();
+      const pair = base.aspects.sets['natal-aspects'].pairs[0];
+      const renderData = {
+        ...base,
+        aspects: {
+          sets: {
+            'natal-aspects': {
+              ...base.aspects.sets['natal-aspects'],
+              pairs: [pair, { ...pair, id: 'aspect-2' }],
+            },
+          },
+        },
+        wheel: {
+          ...base.wheel,
+          rings: [
+            ...base.wheel.rings,
+            {
+              id: 'aspects',
+              type: 'aspects',
+              label: 'Aspects',
+              order: 3,
+              radius: { inner: 0, outer: 30 },
+              items: [{ id: 'aspect-item-2', kind: 'aspect' as const, aspectId: 'aspect-2' }],
+            },
+          ],
+        },
+      };
+
+      const lines = resolveAspectLines(renderData, buildIndexes(renderData));
+
+      expect(lines.map((line) => line.aspect.id)).toEqual(['aspect-2']);
+    });
+
+    it('returns no lines when there are no aspects', () => {
+      const renderData = createMockRenderResponse();
+      expect(resolveAspectLines(renderData, buildIndexes(renderData))).toEqual([]);
+    });
+  });
+
+  describe('getAspectStrokeWidth', () => {
+    it('uses the full width for exact aspects and half at the orb limit', () => {
+      expect(getAspectStrokeWidth(2, 0, 8)).toBe(2);
+      expect(getAspectStrokeWidth(2, 4, 8)).toBe(1.5);
+      expect(getAspectStrokeWidth(2, 8, 8)).toBe(1);
+      expect(getAspectStrokeWidth(2, 12, 8)).toBe(1);
+    });
+  });
+
+  describe('isSeparatingAspect', () => {
+    it('is true only for aspects that are neither applying nor exact', () => {
+      const { pairs } = createRenderResponseWithAspects().aspects.sets['natal-aspects'];
+      const aspect = pairs[0];
+
+      expect(isSeparatingAspect(aspect)).toBe(true);
+      expect(isSeparatingAspect({ ...aspect, aspect: { ...aspect.aspect, isApplying: true } })).toBe(false);
+      expect(isSeparatingAspect({ ...aspect, aspect: { ...aspect.aspect, isExact: true } })).toBe(false);
+    });
+  });
+});
@@ -1,137 +1,227 @@
 import { describe, it, expect } from 'vitest';
-
-/**
- * These tests are for helper functions that are currently internal to ChartWheel.tsx
- * To test them properly, they should be extracted to a separate utils file and exported.
- * 
- * For now, these tests document the expected behavior of these functions.
- * Once extracted, these tests can be updated to import and test the functions directly.
- */
+import {
+  astroToSvgAngle,
+  svgToAstroAngle,
+  getWheelCoordinates,
+  polarToCartesian,
+  formatDegreesMinutes,
+  formatSignDegreesMinutes,
+  formatLongitude,
+  getObjectInfo,
+  getSignIndex,
+  getAspectRadius,
+  mergeVisualConfig,
+  mergeGlyphConfig,
+  getDarkModeTheme,
+} from '../chartWheelHelpers';
+import { createMockRenderResponse } from '../../test/fixtures';
 
 describe('ChartWheel Helper Functions', () => {
   describe('astroToSvgAngle', () => {
     it('should convert astronomical angle to SVG angle', () => {
-      // Expected behavior:
-      // - Astronomical: 0° = Aries, clockwise
-      // - SVG: 0° = top, counter-clockwise
-      // - Formula: svg = 90 - (astro + rotationOffset)
-      
-      // Test cases (to be implemented when function is exported):
-      // - 0° (Aries) with no offset should map correctly
-      // - 90° with no offset should map correctly
-      // - 180° with no offset should map correctly
-      // - 270° with no offset should map correctly
-      // - Should normalize negative angles to 0-360 range
-      // - Should normalize angles >= 360 to 0-360 range
-      // - Should apply rotationOffset correctly
+      // Formula: svg = 90 - (astro + rotationOffset)
+      expect(astroToSvgAngle(0)).toBe(90);
+      expect(astroToSvgAngle(90)).toBe(0);
+      expect(astroToSvgAngle(180)).toBe(270);
+      expect(astroToSvgAngle(270)).toBe(180);
+    });
+
+    it('should normalize to the 0-360 range', () => {
+      expect(astroToSvgAngle(100)).toBe(350);
+      expect(astroToSvgAngle(-300)).toBe(30);
+    });
+
+    it('should apply rotationOffset', () => {
+      expect(astroToSvgAngle(0, 90)).toBe(0);
+      expect(astroToSvgAngle(0, -90)).toBe(180);
+    });
+
+    it('should run clockwise on clockwise wheels', () => {
+      const clockwise = { direction: 'cw', span: 360 } as const;
+      expect(astroToSvgAngle(0, 0, clockwise)).toBe(90);
+      expect(astroToSvgAngle(90, 0, clockwise)).toBe(180);
+      expect(astroToSvgAngle(270, 0, clockwise)).toBe(0);
+      expect(astroToSvgAngle(0, 90, clockwise)).toBe(180);
+    });
+
+    it('should spread a narrower angle range across the full circle', () => {
+      const dial = { direction: 'ccw', span: 90 } as const;
+      expect(astroToSvgAngle(45, 0, dial)).toBe(270);
+      expect(astroToSvgAngle(90, 0, dial)).toBe(90);
+      expect(astroToSvgAngle(100, 0, dial)).toBe(50);
+    });
+  });
+
+  describe('svgToAstroAngle', () => {
+    it('should invert astroToSvgAngle', () => {
+      expect(svgToAstroAngle(90)).toBe(0);
+      expect(svgToAstroAngle(0)).toBe(90);
+      expect(svgToAstroAngle(180, 90)).toBe(180);
+      expect(svgToAstroAngle(180, 0, { direction: 'cw', span: 360 })).toBe(90);
+    });
+
+    it('should return positions within a narrower angle range', () => {
+      const dial = { direction: 'ccw', span: 90 } as const;
+      expect(svgToAstroAngle(270, 0, dial)).toBe(45);
+      expect(svgToAstroAngle(astroToSvgAngle(100, 30, dial), 30, dial)).toBeCloseTo(10);
+    });
+  });
+
+  describe('getWheelCoordinates', () => {
+    it('should read the direction and angle range from the coordinate system', () => {
+      const renderData = createMockRenderResponse();
+      expect(getWheelCoordinates(renderData)).toEqual({ direction: 'ccw', span: 360 });
+
+      renderData.coordinateSystem.direction = 'cw';
+      renderData.coordinateSystem.angleRange = [-180, 180];
+      expect(getWheelCoordinates(renderData)).toEqual({ direction: 'cw', span: 360 });
+
+      renderData.coordinateSystem.angleRange = [0, 90];
+      expect(getWheelCoordinates(renderData).span).toBe(90);
+    });
+
+    it('should fall back to a full circle for invalid ranges', () => {
+      const renderData = createMockRenderResponse();
+      renderData.coordinateSystem.angleRange = [360, 0];
+      expect(getWheelCoordinates(renderData).span).toBe(360);
     });
   });
 
   describe('polarToCartesian', () => {
-    it('should convert polar coordinates to cartesian', () => {
-      // Expected behavior:
-      // - SVG: 0° = top (12 o'clock), angles increase clockwise
-      // - Math: 0° = right (3 o'clock), angles increase counter-clockwise
-      // - Formula: mathAngle = (90 - angleDeg) * (Math.PI / 180)
-      
-      // Test cases (to be implemented when function is exported):
-      // - 0° should map to (0, -radius) in SVG coordinates
-      // - 90° should map to (radius, 0)
-      // - 180° should map to (0, radius)
-      // - 270° should map to (-radius, 0)
-      // - Should handle different radius values correctly
+    it('should convert polar coordinates to cartesian, 0° at the top and clockwise', () => {
+      const top = polarToCartesian(0, 100);
+      expect(top.x).toBeCloseTo(0);
+      expect(top.y).toBeCloseTo(-100);
+
+      const right = polarToCartesian(90, 100);
+      expect(right.x).toBeCloseTo(100);
+      expect(right.y).toBeCloseTo(0);
+
+      const bottom = polarToCartesian(180, 50);
+      expect(bottom.x).toBeCloseTo(0);
+      expect(bottom.y).toBeCloseTo(50);
+
+      const left = polarToCartesian(270, 50);
+      expect(left.x).toBeCloseTo(-50);
+      expect(left.y).toBeCloseTo(0);
     });
   });
 
   describe('formatDegreesMinutes', () => {
     it('should format longitude as degrees and minutes', () => {
-      // Expected behavior:
-      // - Input: longitude in degrees (0-360)
-      // - Output: formatted string like "15°23'" or "15°"
-      
-      // Test cases (to be implemented when function is exported):
-      // - 15.5° should format as "15°30'"
-      // - 15.0° should format as "15°"
-      // - 15.01° should format as "15°00'"
-      // - 359.5° should format correctly
-      // - Should handle showMinutes=false to return just degrees
+      expect(formatDegreesMinutes(15.5)).toBe("15°30'");
+      expect(formatDegreesMinutes(15)).toBe('15°');
+      expect(formatDegreesMinutes(15.125)).toBe("15°07'");
+      expect(formatDegreesMinutes(359.5)).toBe("359°30'");
+    });
+
+    it('should return just degrees when showMinutes is false', () => {
+      expect(formatDegreesMinutes(15.5, false)).toBe('15°');
     });
   });
 
   describe('formatSignDegreesMinutes', () => {
     it('should format longitude as sign degrees and minutes', () => {
-      // Expected behavior:
-      // - Input: longitude in degrees (0-360)
-      // - Output: formatted string with 0-29 degrees within sign
-      
-      // Test cases (to be implemented when function is exported):
-      // - 15.5° (Aries) should format as "15°30'"
-      // - 45.5° (Taurus) should format as "15°30'"
-      // - 0° should format as "0°"
-      // - 29.99° should format correctly
-      // - Should handle showMinutes=false
+      expect(formatSignDegreesMinutes(15.5)).toBe("15°30'");
+      expect(formatSignDegreesMinutes(45.5)).toBe("15°30'");
+      expect(formatSignDegreesMinutes(0)).toBe('0°');
+      expect(formatSignDegreesMinutes(30)).toBe('0°');
+    });
+
+    it('should return just degrees when showMinutes is false', () => {
+      expect(formatSignDegreesMinutes(45.5, false)).toBe('15°');
+    });
+  });
+
+  describe('formatLongitude', () => {
+    it('should format sign-relative degrees with the sign glyph by default', () => {
+      expect(formatLongitude(280.5)).toBe("10♑30'");
+      expect(formatLongitude(15)).toBe("15♈00'");
+      expect(formatLongitude(359.99)).toBe("29♓59'");
+    });
+
+    it('should format absolute, seconds and decimal modes', () => {
+      expect(formatLongitude(280.5, 'absolute')).toBe("280°30'");
+      expect(formatLongitude(280.5042, 'dms')).toBe("10♑30'15\"");
+      expect(formatLongitude(280.5, 'decimal')).toBe('280.50°');
+    });
+
+    it('should normalize longitudes outside 0-360', () => {
+      expect(formatLongitude(-10, 'absolute')).toBe('350°');
+      expect(formatLongitude(370)).toBe("10♈00'");
+    });
+
+    it('should use the given sign glyphs', () => {
+      expect(formatLongitude(280.5, 'sign', { 9: 'Cp' })).toBe("10Cp30'");
     });
   });
 
   describe('getObjectInfo', () => {
     it('should map planet/object ID to display info', () => {
-      // Expected behavior:
-      // - Returns: { index: number | null, label: string, glyph: string | null }
-      // - Planet indices: 0=Sun, 1=Moon, 2=Mercury, etc.
-      
-      // Test cases (to be implemented when function is exported):
-      // - "sun" should return { index: 0, label: "Sun", glyph: "☉" }
-      // - "moon" should return { index: 1, label: "Moon", glyph: "☽" }
-      // - "chiron" should return { index: null, label: "Chiron", glyph: "⚷" }
-      // - "unknown" should return { index: null, label: "unknown", glyph: null }
-      // - Should be case-insensitive
+      expect(getObjectInfo('sun')).toEqual({ index: 0, label: 'Sun', glyph: '☉' });
+      expect(getObjectInfo('moon')).toEqual({ index: 1, label: 'Moon', glyph: '☽' });
+      expect(getObjectInfo('chiron')).toEqual({ index: null, label: 'Chiron', glyph: '⚷' });
+      expect(getObjectInfo('unknown')).toEqual({ index: null, label: 'unknown', glyph: null });
+    });
+
+    it('should be case-insensitive', () => {
+      expect(getObjectInfo('Sun').index).toBe(0);
     });
   });
 
   describe('getSignIndex', () => {
     it('should map sign name to sign index', () => {
-      // Expected behavior:
-      // - Returns: number | null
-      // - Sign indices: 0=Aries, 1=Taurus, 2=Gemini, etc.
-      
-      // Test cases (to be implemented when function is exported):
-      // - "aries" should return 0
-      // - "taurus" should return 1
-      // - "pisces" should return 11
-      // - "unknown" should return null
-      // - Should be case-insensitive
+      expect(getSignIndex('aries')).toBe(0);
+      expect(getSignIndex('taurus')).toBe(1);
+      expect(getSignIndex('pisces')).toBe(11);
+      expect(getSignIndex('unknown')).toBeNull();
+      expect(getSignIndex('Leo')).toBe(4);
+    });
+  });
+
+  describe('getAspectRadius', () => {
+    it('should draw within the innermost ring when it reaches the centre', () => {
+      // The innermost ring (signs) spans 0-30
+      expect(getAspectRadius(createMockRenderResponse())).toBe(30);
     });
   });
 
   describe('mergeVisualConfig', () => {
-    it('should merge visual config with defaults', () => {
-      // Expected behavior:
-      // - Returns: Required<VisualConfig>
-      // - Merges provided config with defaults
-      // - Arrays (signColors, houseColors, planetColors) should use provided or default
-      // - Objects (aspectColors) should be merged
-      
-      // Test cases (to be implemented when function is exported):
-      // - undefined should return all defaults
-      // - Partial config should merge with defaults
-      // - Full config should override defaults
-      // - aspectColors should be merged (not replaced)
+    it('should return the defaults (dark traditional) without a config', () => {
+      const merged = mergeVisualConfig();
+      expect(merged.backgroundColor).toBe(getDarkModeTheme('traditional').backgroundColor);
+      expect(merged.ringWidth).toBe(30);
+    });
+
+    it('should use theme colours when a theme is given', () => {
+      expect(mergeVisualConfig(undefined, 'modern').backgroundColor).toBe(getDarkModeTheme('modern').backgroundColor);
+    });
+
+    it('should merge a partial config with the defaults, merging aspectColors', () => {
+      const merged = mergeVisualConfig({ strokeColor: '#123456', aspectColors: { trine: '#00ff00' } }, 'modern');
+      expect(merged.strokeColor).toBe('#123456');
+      expect(merged.ringWidth).toBe(30);
+      expect(merged.aspectColors.trine).toBe('#00ff00');
+      expect(merged.aspectColors.square).toBe(mergeVisualConfig().aspectColors.square);
+    });
+
+    it('should use the light variant of the theme and defaults in the light scheme', () => {
+      expect(mergeVisualConfig(undefined, 'modern', 'light').backgroundColor).toBe('#FFFFFF');
+      expect(mergeVisualConfig(undefined, undefined, 'light').backgroundColor).not.toBe(
+        mergeVisualConfig().backgroundColor
+      );
     });
   });
 
   describe('mergeGlyphConfig', () => {
     it('should merge glyph config with defaults', () => {
-      // Expected behavior:
-      // - Returns: Required<GlyphConfig>
-      // - Merges provided config with defaults
-      // - Objects (signGlyphs, planetGlyphs, aspectGlyphs) should be merged
-      
-      // Test cases (to be implemented when function is exported):
-      // - undefined should return all defaults
-      // - Partial config should merge with defaults
-      // - signGlyphs should be merged (not replaced)
-      // - planetGlyphs should be merged (not replaced)
+      expect(mergeGlyphConfig().glyphSize).toBe(12);
+
+      const merged = mergeGlyphConfig({ planetGlyphs: { 0: 'S' }, glyphSize: 16 });
+      expect(merged.glyphSize).toBe(16);
+      expect(merged.planetGlyphs[0]).toBe('S');
+      expect(merged.planetGlyphs[1]).toBe('☽');
+      expect(merged.signGlyphs[0]).toBe('♈');
     });
   });
 });
-
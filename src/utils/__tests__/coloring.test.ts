@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { getHouseColor, getSignColor, getSignElement, getSignModality, getSignRuler } from '../coloring';
+import { getThemeConfig } from '../themes';
+
+describe('coloring', () => {
+  const config = getThemeConfig('traditional', 'dark');
+  const signColors = config.signColors!;
+  const planetColors = config.planetColors!;
+
+  it('knows the element, modality and ruler of each sign', () => {
+    expect([0, 1, 2, 3, 4, 11].map(getSignElement)).toEqual(['fire', 'earth', 'air', 'water', 'fire', 'water']);
+    expect([0, 1, 2, 3, 10].map(getSignModality)).toEqual(['cardinal', 'fixed', 'mutable', 'cardinal', 'fixed']);
+    expect(getSignRuler(7)).toBe('pluto');
+    expect(getSignRuler(7, 'traditional')).toBe('mars');
+    expect(getSignRuler(10, 'traditional')).toBe('saturn');
+  });
+
+  it('colours each sign on its own by default', () => {
+    expect(getSignColor(5, config)).toEqual({ color: signColors[5], variable: '--aphrodite-sign-virgo' });
+  });
+
+  it('colours signs by element and modality from the theme or the given colours', () => {
+    // Leo is a fire sign: Aries' colour
+    expect(getSignColor(4, config, { signs: 'element' })).toEqual({
+      color: signColors[0],
+      variable: '--aphrodite-element-fire',
+    });
+    expect(getSignColor(4, config, { signs: 'element', elementColors: { fire: '#f00' } })?.color).toBe('#f00');
+    // Scorpio is fixed: Taurus' colour
+    expect(getSignColor(7, config, { signs: 'modality' })).toEqual({
+      color: signColors[1],
+      variable: '--aphrodite-modality-fixed',
+    });
+    expect(getSignColor(7, config, { signs: 'band' })).toBeNull();
+  });
+
+  it('colours houses by the sign on the cusp', () => {
+    expect(getHouseColor(1, 0, config)?.variable).toBe('--aphrodite-house-1');
+    expect(getHouseColor(1, 2, config, { houses: 'element' })?.variable).toBe('--aphrodite-element-air');
+    // Cancer on the cusp: ruled by the Moon
+    expect(getHouseColor(4, 3, config, { houses: 'ruler' })).toEqual({
+      color: planetColors[1],
+      variable: '--aphrodite-planet-moon',
+    });
+    expect(getHouseColor(4, 11, config, { houses: 'ruler', rulership: 'traditional' })?.color).toBe(planetColors[5]);
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { buildThemeCss, cssColor, cssVariable, getThemeCssVariables } from '../cssVariables';
+
+describe('cssVariables', () => {
+  it('names custom properties', () => {
+    expect(cssVariable('sign', 'Aries')).toBe('--aphrodite-sign-aries');
+    expect(cssVariable('house', 10)).toBe('--aphrodite-house-10');
+    expect(cssVariable('planet', 'north_node')).toBe('--aphrodite-planet-north_node');
+    expect(cssVariable('layer', 'partner 2')).toBe('--aphrodite-layer-partner-2');
+    expect(cssColor('--aphrodite-stroke', '#999')).toBe('var(--aphrodite-stroke, #999)');
+  });
+
+  it('lists the custom properties of a visual config', () => {
+    const variables = getThemeCssVariables({
+      backgroundColor: '#fff',
+      signColors: ['#f00', '#0f0'],
+      planetColors: ['#fa0'],
+      houseColors: ['#eee'],
+      aspectColors: { trine: '#00f' },
+    });
+
+    expect(variables).toEqual({
+      '--aphrodite-background': '#fff',
+      '--aphrodite-sign-aries': '#f00',
+      '--aphrodite-sign-taurus': '#0f0',
+      '--aphrodite-planet-sun': '#fa0',
+      '--aphrodite-house-1': '#eee',
+      '--aphrodite-aspect-trine': '#00f',
+    });
+  });
+
+  it('writes a visual config as a CSS rule', () => {
+    expect(buildThemeCss('.scheme-light', { strokeColor: '#222', aspectColors: { square: '#c00' } })).toBe(
+      '.scheme-light {\n  --aphrodite-stroke: #222;\n  --aphrodite-aspect-square: #c00;\n}'
+    );
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { getDialFactor, isDialScale, applyDialCoordinates, findDialAspects, applyDialAspects } from '../dial';
+import { createMockRenderResponse } from '../../test/fixtures';
+
+// Mars 89.75° from the Sun: a square that only shows up within the dial orb
+const createSquareResponse = () => {
+  const renderData = createMockRenderResponse();
+  renderData.layers.natal.positions.planets.mars.lon = 190.75;
+  return renderData;
+};
+
+describe('getDialFactor', () => {
+  it('multiplies by 360 / size on dials and by the harmonic on harmonic charts', () => {
+    expect(getDialFactor({})).toBe(4);
+    expect(getDialFactor({ size: 45 })).toBe(8);
+    expect(getDialFactor({ size: 360 })).toBe(1);
+    expect(getDialFactor({ harmonic: 5, size: 45 })).toBe(5);
+  });
+
+  it('falls back to the plain wheel for invalid sizes', () => {
+    expect(getDialFactor({ size: 0 })).toBe(1);
+    expect(getDialFactor({ harmonic: -2 })).toBe(1);
+  });
+});
+
+describe('isDialScale', () => {
+  it('shows the degree scale on dials only', () => {
+    expect(isDialScale({ size: 90 })).toBe(true);
+    expect(isDialScale({ harmonic: 4 })).toBe(false);
+  });
+});
+
+describe('applyDialCoordinates', () => {
+  it('narrows the wheel span by the dial factor', () => {
+    expect(applyDialCoordinates({ direction: 'ccw', span: 360 }, { size: 90 })).toEqual({ direction: 'ccw', span: 90 });
+    expect(applyDialCoordinates({ direction: 'cw', span: 360 }, { harmonic: 5 })).toEqual({ direction: 'cw', span: 72 });
+  });
+});
+
+describe('findDialAspects', () => {
+  it('finds hard aspects within the dial orb', () => {
+    const sets = findDialAspects(createSquareResponse(), { size: 90 });
+
+    expect(Object.keys(sets)).toEqual(['dial:natal']);
+    expect(sets['dial:natal'].kind).toBe('intra_layer');
+    const [pair] = sets['dial:natal'].pairs;
+    expect(pair.id).toBe('dial:natal:sun:natal:mars');
+    expect(pair.aspect.type).toBe('square');
+    expect(pair.aspect.exactAngle).toBe(90);
+    expect(pair.aspect.orb).toBeCloseTo(-0.25);
+    // The faster Sun pulls away from Mars, towards the exact square
+    expect(pair.aspect.isApplying).toBe(true);
+  });
+
+  it('finds semisquares and sesquiquadrates on the 90° dial', () => {
+    const renderData = createMockRenderResponse();
+    renderData.layers.natal.positions.planets.mars.lon = 235.25;
+    renderData.layers.natal.positions.planets.moon.lon = 145.75;
+
+    const pairs = findDialAspects(renderData, { size: 90 })['dial:natal'].pairs;
+    const sunMars = pairs.find((pair) => pair.id === 'dial:natal:sun:natal:mars');
+    const sunMoon = pairs.find((pair) => pair.id === 'dial:natal:sun:natal:moon');
+    expect(sunMars?.aspect).toEqual(expect.objectContaining({ type: 'semisquare', exactAngle: 45 }));
+    expect(sunMoon?.aspect).toEqual(expect.objectContaining({ type: 'sesquiquadrate', exactAngle: 135 }));
+  });
+
+  it('finds only conjunctions of the harmonic on harmonic charts', () => {
+    const renderData = createMockRenderResponse();
+    renderData.layers.natal.positions.planets.mars.lon = 235.25;
+
+    expect(findDialAspects(renderData, { harmonic: 4 })).toEqual({});
+  });
+
+  it('leaves out pairs outside the orb', () => {
+    expect(findDialAspects(createSquareResponse(), { size: 90, orb: 0.1 })).toEqual({});
+    expect(findDialAspects(createMockRenderResponse(), { size: 90 })).toEqual({});
+  });
+
+  it('finds aspects between layers', () => {
+    const renderData = createSquareResponse();
+    renderData.layers.transit = {
+      ...renderData.layers.natal,
+      id: 'transit',
+      positions: { ...renderData.layers.natal.positions, planets: { pluto: { lon: 10.6, lat: 0, speedLon: 0, retrograde: false } } },
+    };
+
+    const sets = findDialAspects(renderData, { size: 45 });
+    expect(sets['dial:natal:transit'].kind).toBe('inter_layer');
+    expect(sets['dial:natal:transit'].pairs.map((pair) => [pair.from.objectId, pair.aspect.type])).toEqual([
+      ['sun', 'square'],
+      ['mars', 'opposition'],
+    ]);
+  });
+});
+
+describe('applyDialAspects', () => {
+  it("replaces the chart's aspects with the dial's", () => {
+    const dialData = applyDialAspects(createSquareResponse(), { size: 90, orb: 1.5 });
+
+    expect(Object.keys(dialData.aspects.sets)).toEqual(['dial:natal']);
+    expect(dialData.settings.orbSettings).toEqual({ square: 1.5 });
+    expect(dialData.wheel.rings.flatMap((ring) => ring.items ?? []).some((item) => item.kind === 'aspect')).toBe(false);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { layoutGlyphs } from '../glyphLayout';
+
+function angularDistance(a: number, b: number): number {
+  const d = Math.abs(a - b) % 360;
+  return d > 180 ? 360 - d : d;
+}
+
+describe('layoutGlyphs', () => {
+  it('leaves well separated glyphs at their longitude', () => {
+    const placements = layoutGlyphs([
+      { id: 'sun', lon: 280.5 },
+      { id: 'moon', lon: 40.25 },
+    ]);
+
+    expect(placements).toEqual(
+      expect.arrayContaining([
+        { id: 'sun', lon: 280.5, displayLon: 280.5, level: 0, levels: 1 },
+        { id: 'moon', lon: 40.25, displayLon: 40.25, level: 0, levels: 1 },
+      ])
+    );
+  });
+
+  it('spreads a stellium apart around its centre, keeping zodiacal order', () => {
+    const placements = layoutGlyphs(
+      [
+        { id: 'sun', lon: 280.5 },
+        { id: 'mercury', lon: 275 },
+        { id: 'venus', lon: 285 },
+      ],
+      { minSpacing: 8 }
+    );
+    const byId = Object.fromEntries(placements.map((p) => [p.id, p]));
+
+    expect(byId.mercury.displayLon).toBeLessThan(byId.sun.displayLon);
+    expect(byId.sun.displayLon).toBeLessThan(byId.venus.displayLon);
+    expect(byId.sun.displayLon - byId.mercury.displayLon).toBeCloseTo(8);
+    expect(byId.venus.displayLon - byId.sun.displayLon).toBeCloseTo(8);
+    // Centred on the mean of the true longitudes
+    expect(byId.sun.displayLon).toBeCloseTo((280.5 + 275 + 285) / 3);
+    expect(placements.every((p) => p.level === 0)).toBe(true);
+  });
+
+  it('handles clusters across 0° Aries', () => {
+    const placements = layoutGlyphs([
+      { id: 'a', lon: 358 },
+      { id: 'b', lon: 1 },
+    ]);
+    const [a, b] = ['a', 'b'].map((id) => placements.find((p) => p.id === id)!);
+
+    expect(angularDistance(a.displayLon, b.displayLon)).toBeCloseTo(7);
+    // a stays before b in zodiacal order
+    expect((b.displayLon - a.displayLon + 360) % 360).toBeCloseTo(7);
+  });
+
+  it('stacks glyphs on several levels when a cluster would spread too far', () => {
+    const items = Array.from({ length: 8 }, (_, i) => ({ id: `p${i}`, lon: 100 + i }));
+    const placements = layoutGlyphs(items, { minSpacing: 8, maxSpread: 30, maxStackLevels: 3 });
+
+    expect(placements[0].levels).toBeGreaterThan(1);
+    expect(new Set(placements.map((p) => p.level)).size).toBe(placements[0].levels);
+
+    // Glyphs sharing a level keep the full minimum spacing
+    for (const level of new Set(placements.map((p) => p.level))) {
+      const lons = placements.filter((p) => p.level === level).map((p) => p.displayLon).sort((x, y) => x - y);
+      for (let i = 1; i < lons.length; i++) {
+        expect(lons[i] - lons[i - 1]).toBeGreaterThanOrEqual(8 - 1e-9);
+      }
+    }
+  });
+
+  it('returns an empty layout for no items', () => {
+    expect(layoutGlyphs([])).toEqual([]);
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { getAspectGlyph, getObjectGlyph, getSignGlyph, registerGlyphSet, resolveGlyphSet } from '../glyphSets';
+import { mergeGlyphConfig } from '../chartWheelHelpers';
+
+describe('glyphSets', () => {
+  const glyphConfig = mergeGlyphConfig({ planetGlyphs: { 0: 'Su' } });
+
+  it('ships an SVG glyph set for signs, planets and aspects', () => {
+    const svg = resolveGlyphSet('svg');
+    expect(getSignGlyph(0, svg, glyphConfig)).toEqual({ path: expect.stringMatching(/^M/), stroke: true });
+    expect(getObjectGlyph('chiron', svg, glyphConfig)).toEqual(expect.objectContaining({ stroke: true }));
+    expect(getAspectGlyph('trine', svg, glyphConfig)).toEqual(expect.objectContaining({ path: 'M50 14L88 80H12Z' }));
+    // Angles aren't in the set: their own glyph
+    expect(getObjectGlyph('asc', svg, glyphConfig)).toBe('Asc');
+  });
+
+  it('falls back to the glyph config without a set, or for unknown set names', () => {
+    expect(resolveGlyphSet('missing')).toBeNull();
+    expect(getSignGlyph(9, null, glyphConfig)).toBe('♑');
+    expect(getObjectGlyph('sun', null, glyphConfig)).toBe('Su');
+    expect(getObjectGlyph('eris', null, glyphConfig)).toBeNull();
+    expect(getAspectGlyph('quintile', null, glyphConfig)).toBe('Q');
+    expect(getAspectGlyph('novile', null, glyphConfig)).toBeNull();
+  });
+
+  it('looks glyphs up by id in registered and inline sets', () => {
+    registerGlyphSet('asteroids', { objects: { vesta: { symbol: 'glyph-vesta' }, sun: '☀' } });
+    const asteroids = resolveGlyphSet('asteroids');
+
+    expect(getObjectGlyph('vesta', asteroids, glyphConfig)).toEqual({ symbol: 'glyph-vesta' });
+    expect(getObjectGlyph('Sun', asteroids, glyphConfig)).toBe('☀');
+    expect(getObjectGlyph('moon', asteroids, glyphConfig)).toBe('☽');
+    expect(resolveGlyphSet({ signs: { leo: 'Le' } })?.signs?.leo).toBe('Le');
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { getItemHighlight, getAspectHighlight, describeItem, describeAspect } from '../hover';
+import { buildIndexes } from '../buildIndexes';
+import { createRenderResponseWithAspects, createMultiLayerRenderResponse } from '../../test/fixtures';
+
+describe('getItemHighlight', () => {
+  it('highlights the logical object and its aspects', () => {
+    const renderData = createRenderResponseWithAspects();
+    const ring = renderData.wheel.rings[2];
+
+    expect(getItemHighlight(ring.items![0], ring, buildIndexes(renderData))).toEqual({
+      logicalIds: ['natal:planet:sun'],
+      aspectIds: ['aspect-1'],
+    });
+  });
+
+  it('returns null for items without a logical id', () => {
+    const renderData = createRenderResponseWithAspects();
+    const signRing = renderData.wheel.rings[0];
+
+    expect(getItemHighlight(signRing.items![0], signRing, buildIndexes(renderData))).toBeNull();
+  });
+});
+
+describe('getAspectHighlight', () => {
+  it('highlights the aspect and both of its objects', () => {
+    const renderData = createRenderResponseWithAspects();
+    const aspect = renderData.aspects.sets['natal-aspects'].pairs[0];
+
+    expect(getAspectHighlight(aspect)).toEqual({
+      logicalIds: ['natal:planet:sun', 'natal:planet:moon'],
+      aspectIds: ['aspect-1'],
+    });
+  });
+});
+
+describe('describeItem', () => {
+  it('describes a planet with its sign, degree, house and aspects', () => {
+    const renderData = createRenderResponseWithAspects();
+    const ring = renderData.wheel.rings[2];
+
+    expect(describeItem(ring.items![0], ring, renderData, buildIndexes(renderData))).toEqual({
+      title: 'Sun',
+      details: ["Capricorn 10°30'", 'House 10'],
+      aspects: ["Trine Moon (0°15')"],
+    });
+  });
+
+  it('flags retrograde planets', () => {
+    const renderData = createRenderResponseWithAspects();
+    const ring = renderData.wheel.rings[2];
+    const item = { ...ring.items![1], retrograde: true };
+
+    expect(describeItem(item, ring, renderData, buildIndexes(renderData)).details).toContain('Retrograde');
+  });
+
+  it('names the layer on multi-layer wheels', () => {
+    const renderData = createMultiLayerRenderResponse();
+    const transitRing = renderData.wheel.rings[3];
+
+    const content = describeItem(transitRing.items![1], transitRing, renderData, buildIndexes(renderData));
+
+    expect(content.title).toBe('Transits Mars');
+    expect(content.aspects).toEqual(["Trine Natal Moon (0°15')"]);
+  });
+});
+
+describe('describeAspect', () => {
+  it('describes the aspect, its orb and phase', () => {
+    const renderData = createRenderResponseWithAspects();
+    const aspect = renderData.aspects.sets['natal-aspects'].pairs[0];
+
+    expect(describeAspect(aspect, renderData)).toEqual({
+      title: 'Sun trine Moon',
+      details: ["Orb 0°15'", 'Separating'],
+      aspects: [],
+    });
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { getRingLayerId, getPlanetRingLayerIds, resolveLayerStyles } from '../layers';
+import { createMockRenderResponse, createMultiLayerRenderResponse } from '../../test/fixtures';
+
+describe('layers', () => {
+  describe('getRingLayerId', () => {
+    it('reads the layer from the ring data source', () => {
+      const [signs, houses, planets] = createMockRenderResponse().wheel.rings;
+
+      expect(getRingLayerId(signs)).toBeNull();
+      expect(getRingLayerId(houses)).toBe('natal');
+      expect(getRingLayerId(planets)).toBe('natal');
+    });
+
+    it('falls back to the layer of the ring planets', () => {
+      const planets = createMockRenderResponse().wheel.rings[2];
+
+      expect(getRingLayerId({ ...planets, dataSource: undefined })).toBe('natal');
+    });
+  });
+
+  describe('getPlanetRingLayerIds', () => {
+    it('lists the layers with planet rings in ring order', () => {
+      expect(getPlanetRingLayerIds(createMockRenderResponse())).toEqual(['natal']);
+      expect(getPlanetRingLayerIds(createMultiLayerRenderResponse())).toEqual(['natal', 'transit']);
+    });
+  });
+
+  describe('resolveLayerStyles', () => {
+    it('keeps planet colours on the first layer and colours further layers by kind', () => {
+      const styles = resolveLayerStyles(createMultiLayerRenderResponse());
+
+      expect(styles.natal).toEqual({ layerId: 'natal', label: 'Natal', color: null, glyphScale: 1 });
+      expect(styles.transit).toEqual({ layerId: 'transit', label: 'Transits', color: '#48C9B0', glyphScale: 1 });
+    });
+
+    it('applies overrides', () => {
+      const styles = resolveLayerStyles(createMultiLayerRenderResponse(), {
+        natal: { color: '#FFFFFF' },
+        transit: { label: 'Now', glyphScale: 0.8 },
+      });
+
+      expect(styles.natal.color).toBe('#FFFFFF');
+      expect(styles.transit).toMatchObject({ label: 'Now', glyphScale: 0.8, color: '#48C9B0' });
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import type { PlanetRingItem } from '@gaia-tools/iris-core';
+import {
+  filterObjectCategories,
+  getObjectColor,
+  getObjectDefinition,
+  getObjectIds,
+  getPlanetIndex,
+  isObjectVisible,
+  registerObject,
+} from '../objects';
+import { getObjectInfo } from '../chartWheelHelpers';
+import { createRenderResponseWithAspects } from '../../test/fixtures';
+
+/**
+ * The aspects fixture with Regulus conjunct the Sun
+ */
+function createRenderResponseWithStar() {
+  const renderData = createRenderResponseWithAspects();
+  const planetsRing = renderData.wheel.rings.find((ring) => ring.id === 'planets')!;
+  const sun = planetsRing.items![0] as PlanetRingItem;
+  planetsRing.items = [...planetsRing.items!, { ...sun, id: 'planet-regulus', planetId: 'regulus', lon: 280 }];
+  renderData.layers.natal.positions.planets.regulus = { lon: 280, lat: 0.5, speedLon: 0, retrograde: false };
+  renderData.aspects.sets['natal-aspects'].pairs.push({
+    id: 'aspect-2',
+    from: { layerId: 'natal', objectType: 'planet', objectId: 'sun' },
+    to: { layerId: 'natal', objectType: 'planet', objectId: 'regulus' },
+    aspect: { type: 'conjunction', exactAngle: 0, orb: 0.5, isApplying: true, isExact: false },
+  });
+  return renderData;
+}
+
+describe('objects', () => {
+  it('knows common asteroids, points, lots and fixed stars', () => {
+    expect(getObjectDefinition('ceres')).toEqual({ label: 'Ceres', glyph: '⚳', color: '#9CCC65', category: 'asteroid' });
+    expect(getObjectDefinition('Part_of_Fortune')?.category).toBe('lot');
+    expect(getObjectDefinition('regulus')?.category).toBe('star');
+    expect(getObjectDefinition('eris')).toBeNull();
+    expect(getObjectIds('angle')).toEqual(['asc', 'mc', 'ic', 'dc']);
+  });
+
+  it('feeds object info', () => {
+    expect(getObjectInfo('lilith')).toEqual({ index: null, label: 'Lilith', glyph: '⚸' });
+    expect(getObjectInfo('Pluto')).toEqual({ index: 9, label: 'Pluto', glyph: '♇' });
+    expect(getPlanetIndex('chiron')).toBeNull();
+  });
+
+  it('registers new objects and replaces built-in ones', () => {
+    registerObject('Eris', { label: 'Eris', glyph: 'Er', color: '#888', category: 'asteroid' });
+    registerObject('vertex', { label: 'Vx', category: 'point' });
+
+    expect(getObjectInfo('eris')).toEqual({ index: null, label: 'Eris', glyph: 'Er' });
+    expect(getObjectInfo('vertex')).toEqual({ index: null, label: 'Vx', glyph: null });
+    expect(getObjectIds('asteroid')).toContain('eris');
+  });
+
+  it('colours planets from the visual config and other objects from the registry', () => {
+    const config = { planetColors: ['#f00'] };
+    expect(getObjectColor('sun', config)).toBe('#f00');
+    expect(getObjectColor('moon', config)).toBeUndefined();
+    expect(getObjectColor('juno', config)).toBe('#F06292');
+    expect(getObjectColor('unknown', config)).toBeUndefined();
+  });
+
+  it('shows objects unless their category is switched off', () => {
+    expect(isObjectVisible('regulus', {})).toBe(true);
+    expect(isObjectVisible('regulus', { star: false })).toBe(false);
+    expect(isObjectVisible('regulus', { star: true, planet: false })).toBe(true);
+    expect(isObjectVisible('unknown', { star: false, planet: false })).toBe(true);
+  });
+
+  it('removes hidden objects and their aspects from the payload', () => {
+    const renderData = createRenderResponseWithStar();
+    const filtered = filterObjectCategories(renderData, { star: false });
+
+    const planetIds = filtered.wheel.rings
+      .flatMap((ring) => ring.items ?? [])
+      .filter((item): item is PlanetRingItem => item.kind === 'planet')
+      .map((item) => item.planetId);
+    expect(planetIds).toEqual(['sun', 'moon']);
+    expect(Object.keys(filtered.layers.natal.positions.planets)).not.toContain('regulus');
+    expect(filtered.aspects.sets['natal-aspects'].pairs.map((pair) => pair.id)).toEqual(['aspect-1']);
+    // The payload itself is left as it was
+    expect(renderData.aspects.sets['natal-aspects'].pairs).toHaveLength(2);
+  });
+
+  it('removes hidden angles and the house cusps at them', () => {
+    const renderData = createRenderResponseWithStar();
+    const filtered = filterObjectCategories(renderData, { angle: false });
+
+    expect(filtered.layers.natal.positions.houses?.angles).toEqual({});
+    expect(filtered.layers.natal.positions.houses?.cusps).toEqual(renderData.layers.natal.positions.houses?.cusps);
+    const housesRing = filtered.wheel.rings.find((ring) => ring.id === 'houses')!;
+    expect(housesRing.items!.map((item) => item.id)).toEqual(['house-2']);
+  });
+});
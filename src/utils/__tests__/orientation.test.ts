@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { resolveAnchorLon, getViewFrameRotation, getLockMode, getLockRotation } from '../orientation';
+import { createMockRenderResponse } from '../../test/fixtures';
+import { astroToSvgAngle, getWheelCoordinates } from '../chartWheelHelpers';
+
+describe('orientation', () => {
+  const renderData = createMockRenderResponse();
+
+  describe('resolveAnchorLon', () => {
+    it('resolves chart angles from the layer houses', () => {
+      expect(resolveAnchorLon({ kind: 'angle', angle: 'asc' }, renderData)).toBe(15.0);
+      expect(resolveAnchorLon({ kind: 'angle', angle: 'mc', layerId: 'natal' }, renderData)).toBe(285.0);
+    });
+
+    it('resolves chart objects from the layer planets', () => {
+      expect(resolveAnchorLon({ kind: 'object', objectId: 'moon' }, renderData)).toBe(40.25);
+    });
+
+    it('passes fixed longitudes through', () => {
+      expect(resolveAnchorLon({ kind: 'longitude', lon: 0 }, renderData)).toBe(0);
+    });
+
+    it('returns null for unknown layers or objects', () => {
+      expect(resolveAnchorLon({ kind: 'object', objectId: 'pluto' }, renderData)).toBeNull();
+      expect(resolveAnchorLon({ kind: 'angle', angle: 'asc', layerId: 'transit' }, renderData)).toBeNull();
+    });
+  });
+
+  describe('getViewFrameRotation', () => {
+    it('places the Ascendant on the left', () => {
+      const rotation = getViewFrameRotation({ anchor: { kind: 'angle', angle: 'asc' }, screenAngle: 270 }, renderData);
+      // Screen angle of the Ascendant: 90 - (lon + rotation)
+      expect((((90 - (15 + rotation)) % 360) + 360) % 360).toBe(270);
+    });
+
+    it('places the MC at the top', () => {
+      const rotation = getViewFrameRotation({ anchor: { kind: 'angle', angle: 'mc' }, screenAngle: 0 }, renderData);
+      expect((((90 - (285 + rotation)) % 360) + 360) % 360).toBe(0);
+    });
+
+    it('places the anchor on clockwise and narrower wheels', () => {
+      const clockwise = createMockRenderResponse();
+      clockwise.coordinateSystem.direction = 'cw';
+      const rotation = getViewFrameRotation({ anchor: { kind: 'angle', angle: 'asc' }, screenAngle: 270 }, clockwise);
+      expect(astroToSvgAngle(15, rotation, getWheelCoordinates(clockwise))).toBeCloseTo(270);
+
+      const dial = createMockRenderResponse();
+      dial.coordinateSystem.angleRange = [0, 90];
+      const dialRotation = getViewFrameRotation({ anchor: { kind: 'angle', angle: 'mc' }, screenAngle: 0 }, dial);
+      expect(astroToSvgAngle(285, dialRotation, getWheelCoordinates(dial))).toBeCloseTo(0);
+    });
+
+    it('does not rotate when the anchor is missing', () => {
+      expect(getViewFrameRotation({ anchor: { kind: 'object', objectId: 'pluto' }, screenAngle: 270 }, renderData)).toBe(0);
+    });
+  });
+
+  describe('getLockMode', () => {
+    it('defaults to upright', () => {
+      expect(getLockMode(undefined, 'planets')).toBe('upright');
+      expect(getLockMode([], 'signs')).toBe('upright');
+    });
+
+    it('matches rules by target and lets later rules win', () => {
+      const locks = [
+        { target: 'all', mode: 'radial' as const },
+        { target: 'planets', mode: 'upright' as const },
+      ];
+
+      expect(getLockMode(locks, 'planets')).toBe('upright');
+      expect(getLockMode(locks, 'signs')).toBe('radial');
+      expect(getLockMode(locks, 'houses')).toBe('radial');
+    });
+
+    it('applies glyph rules to planets and signs but not houses', () => {
+      const locks = [{ target: 'glyphs', mode: 'tangential' as const }];
+
+      expect(getLockMode(locks, 'planets')).toBe('tangential');
+      expect(getLockMode(locks, 'signs')).toBe('tangential');
+      expect(getLockMode(locks, 'houses')).toBe('upright');
+    });
+  });
+
+  describe('getLockRotation', () => {
+    it('keeps upright elements unrotated', () => {
+      expect(getLockRotation('upright', 123)).toBe(0);
+    });
+
+    it('rotates tangential elements along the circle', () => {
+      expect(getLockRotation('tangential', 0)).toBe(0);
+      expect(getLockRotation('tangential', 45)).toBe(45);
+      // Bottom of the wheel would be upside down, so it is flipped
+      expect(getLockRotation('tangential', 180)).toBe(0);
+    });
+
+    it('rotates radial elements along the radius and keeps them readable', () => {
+      expect(getLockRotation('radial', 90)).toBe(0);
+      expect(getLockRotation('radial', 0)).toBe(-90);
+      expect(getLockRotation('radial', 270)).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import type { PlanetRingItem } from '@gaia-tools/iris-core';
+import { getPlanetMotion } from '../planetMotion';
+
+const planet = (planetId: string, speedLon: number, retrograde = speedLon < 0): PlanetRingItem => ({
+  id: `planet-${planetId}`,
+  kind: 'planet',
+  planetId,
+  layerId: 'natal',
+  lon: 100,
+  lat: 0,
+  speedLon,
+  retrograde,
+  signIndex: 3,
+  signDegree: 10,
+});
+
+describe('getPlanetMotion', () => {
+  it('reports direct motion relative to the mean daily motion', () => {
+    const motion = getPlanetMotion(planet('mars', 0.262));
+    expect(motion.retrograde).toBe(false);
+    expect(motion.stationary).toBe(false);
+    expect(motion.direction).toBe(1);
+    expect(motion.relativeSpeed).toBeCloseTo(0.5);
+  });
+
+  it('reports retrograde motion', () => {
+    const motion = getPlanetMotion(planet('mercury', -0.8));
+    expect(motion.retrograde).toBe(true);
+    expect(motion.direction).toBe(-1);
+  });
+
+  it('caps the relative speed', () => {
+    expect(getPlanetMotion(planet('sun', 5)).relativeSpeed).toBe(2);
+  });
+
+  it('treats planets slower than the threshold as stationary', () => {
+    expect(getPlanetMotion(planet('saturn', 0.002)).stationary).toBe(true);
+    expect(getPlanetMotion(planet('saturn', 0.002), { stationaryThreshold: 0.001 }).stationary).toBe(false);
+    expect(getPlanetMotion(planet('saturn', -0.03), { stationaryThreshold: 0.05 }).stationary).toBe(true);
+  });
+
+  it("scales the default threshold to the planet's mean daily motion", () => {
+    // Slow outer planets at their usual speed are moving
+    expect(getPlanetMotion(planet('neptune', 0.006)).stationary).toBe(false);
+    expect(getPlanetMotion(planet('pluto', 0.003)).stationary).toBe(false);
+    expect(getPlanetMotion(planet('neptune', 0.0005)).stationary).toBe(true);
+    // The Sun is stationary at a speed Neptune never reaches
+    expect(getPlanetMotion(planet('sun', 0.05)).stationary).toBe(true);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { buildLayerPositions, getHouseIndex } from '../positions';
+import { createMockRenderResponse, createMultiLayerRenderResponse } from '../../test/fixtures';
+
+describe('getHouseIndex', () => {
+  const cusps = { '1': 350, '2': 20, '3': 50, '4': 80 };
+
+  it('finds the house between two cusps, across 0°', () => {
+    expect(getHouseIndex(355, cusps)).toBe(1);
+    expect(getHouseIndex(10, cusps)).toBe(1);
+    expect(getHouseIndex(20, cusps)).toBe(2);
+    expect(getHouseIndex(60, cusps)).toBe(3);
+    // The last house runs round to the first cusp
+    expect(getHouseIndex(200, cusps)).toBe(4);
+  });
+
+  it('has no house without cusps', () => {
+    expect(getHouseIndex(10, {})).toBeNull();
+  });
+});
+
+describe('buildLayerPositions', () => {
+  it('lists planets in the usual order with sign, house, speed and motion', () => {
+    const [natal] = buildLayerPositions(createMockRenderResponse());
+
+    expect(natal.layerId).toBe('natal');
+    expect(natal.label).toBe('Natal');
+    expect(natal.planets.map((planet) => planet.objectId)).toEqual(['sun', 'moon', 'mercury', 'venus', 'mars']);
+    expect(natal.planets[1]).toEqual({
+      objectId: 'moon',
+      label: 'Moon',
+      lon: 40.25,
+      signIndex: 1,
+      house: 1,
+      speed: 12.3,
+      retrograde: false,
+    });
+  });
+
+  it("takes houses from the wheel, falling back to the layer's cusps", () => {
+    const [natal] = buildLayerPositions(createMockRenderResponse());
+    const house = (objectId: string) => natal.planets.find((planet) => planet.objectId === objectId)?.house;
+
+    // The wheel puts the Sun in the 10th
+    expect(house('sun')).toBe(10);
+    // Mercury isn't on the wheel: 275° is between the 9th (255°) and 10th (285°) cusps
+    expect(house('mercury')).toBe(9);
+  });
+
+  it('lists house cusps in order and the angles', () => {
+    const [natal] = buildLayerPositions(createMockRenderResponse());
+
+    expect(natal.cusps).toHaveLength(12);
+    expect(natal.cusps[0]).toEqual({ id: '1', label: 'House 1', lon: 15, signIndex: 0 });
+    expect(natal.cusps[11].id).toBe('12');
+    expect(natal.angles.map((angle) => angle.label)).toEqual(['Asc', 'MC', 'IC', 'DC']);
+  });
+
+  it('gives sidereal positions on sidereal charts', () => {
+    const renderData = createMockRenderResponse();
+    renderData.settings.zodiacType = 'sidereal';
+    renderData.coordinateSystem.zeroPoint.offsetDegrees = 24;
+    const [natal] = buildLayerPositions(renderData);
+
+    expect(natal.planets[0].lon).toBeCloseTo(256.5);
+    expect(natal.planets[0].signIndex).toBe(8);
+    expect(natal.cusps[0].signIndex).toBe(11);
+  });
+
+  it('lists the given layers, skipping unknown ones', () => {
+    const renderData = createMultiLayerRenderResponse();
+
+    expect(buildLayerPositions(renderData).map((layer) => layer.layerId)).toEqual(['natal', 'transit']);
+    const [transit] = buildLayerPositions(renderData, ['transit', 'missing']);
+    expect(transit.layerId).toBe('transit');
+    expect(transit.cusps).toEqual([]);
+    // Transit planets take the house they are drawn in
+    expect(transit.planets.map((planet) => planet.house)).toEqual([10, 5]);
+  });
+});
@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import { nextSelection } from '../selection';
+
+describe('nextSelection', () => {
+  it('selects only the clicked object on a plain click', () => {
+    expect(nextSelection([], 'natal:planet:sun', false)).toEqual(['natal:planet:sun']);
+    expect(nextSelection(['natal:planet:moon', 'aspect-1'], 'natal:planet:sun', false)).toEqual(['natal:planet:sun']);
+  });
+
+  it('keeps a single object when it is clicked again among others', () => {
+    expect(nextSelection(['natal:planet:sun', 'aspect-1'], 'natal:planet:sun', false)).toEqual(['natal:planet:sun']);
+  });
+
+  it('clears the selection when the only selected object is clicked again', () => {
+    expect(nextSelection(['natal:planet:sun'], 'natal:planet:sun', false)).toEqual([]);
+  });
+
+  it('toggles objects in and out of the selection on an additive click', () => {
+    expect(nextSelection(['natal:planet:sun'], 'aspect-1', true)).toEqual(['natal:planet:sun', 'aspect-1']);
+    expect(nextSelection(['natal:planet:sun', 'aspect-1'], 'natal:planet:sun', true)).toEqual(['aspect-1']);
+  });
+});
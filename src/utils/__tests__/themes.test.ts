@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { getThemeConfig, getThemeNames, registerTheme, resolveColorScheme, watchColorScheme } from '../themes';
+import { mergeVisualConfig } from '../chartWheelHelpers';
+
+/**
+ * Stub window.matchMedia with a prefers-color-scheme: dark query that can be switched
+ */
+function mockColorSchemeQuery(dark: boolean) {
+  const listeners = new Set<() => void>();
+  const query = {
+    matches: dark,
+    addEventListener: vi.fn((_type: string, listener: () => void) => listeners.add(listener)),
+    removeEventListener: vi.fn((_type: string, listener: () => void) => listeners.delete(listener)),
+  };
+  vi.stubGlobal('matchMedia', vi.fn(() => query));
+  return {
+    query,
+    setDark(value: boolean) {
+      query.matches = value;
+      listeners.forEach((listener) => listener());
+    },
+  };
+}
+
+describe('themes', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('has light and dark variants of the built-in themes', () => {
+    expect(getThemeNames()).toEqual(expect.arrayContaining(['traditional', 'modern', 'high-contrast']));
+    expect(getThemeConfig('modern', 'light').backgroundColor).toBe('#FFFFFF');
+    expect(getThemeConfig('modern', 'dark').backgroundColor).not.toBe('#FFFFFF');
+    expect(getThemeConfig('high-contrast', 'dark')).toMatchObject({ backgroundColor: '#000000', strokeColor: '#FFFFFF' });
+    expect(getThemeConfig('high-contrast', 'light')).toMatchObject({ backgroundColor: '#FFFFFF', strokeColor: '#000000' });
+  });
+
+  it('falls back to traditional for unknown themes', () => {
+    expect(getThemeConfig('missing', 'light')).toBe(getThemeConfig('traditional', 'light'));
+  });
+
+  it('registers custom themes, using a single config for both schemes', () => {
+    registerTheme('sepia', { backgroundColor: '#704214', strokeColor: '#f4e4c1' });
+    expect(getThemeConfig('sepia', 'light').backgroundColor).toBe('#704214');
+    expect(getThemeConfig('sepia', 'dark').backgroundColor).toBe('#704214');
+
+    // A missing variant takes the other one
+    registerTheme('night-only', { dark: { backgroundColor: '#000010' } });
+    expect(getThemeConfig('night-only', 'light').backgroundColor).toBe('#000010');
+    expect(getThemeNames()).toContain('night-only');
+
+    expect(() => registerTheme('empty', { light: undefined })).toThrow(/needs a light or dark config/);
+  });
+
+  it('merges registered themes over the defaults', () => {
+    registerTheme('ocean', { light: { backgroundColor: '#e0f7fa', aspectColors: { trine: '#006064' } } });
+    const merged = mergeVisualConfig(undefined, 'ocean', 'light');
+    expect(merged.backgroundColor).toBe('#e0f7fa');
+    expect(merged.aspectColors.trine).toBe('#006064');
+    expect(merged.aspectColors.square).toBe(getThemeConfig('traditional', 'light').aspectColors?.square);
+  });
+
+  it("resolves 'auto' from prefers-color-scheme, and to dark without matchMedia", () => {
+    expect(resolveColorScheme('light')).toBe('light');
+    expect(resolveColorScheme()).toBe('dark');
+
+    vi.stubGlobal('matchMedia', undefined);
+    expect(resolveColorScheme('auto')).toBe('dark');
+
+    const media = mockColorSchemeQuery(false);
+    expect(resolveColorScheme('auto')).toBe('light');
+    media.setDark(true);
+    expect(resolveColorScheme('auto')).toBe('dark');
+  });
+
+  it('watches for colour scheme changes until unsubscribed', () => {
+    const media = mockColorSchemeQuery(true);
+    const callback = vi.fn();
+    const unwatch = watchColorScheme(callback);
+
+    media.setDark(false);
+    expect(callback).toHaveBeenCalledTimes(1);
+
+    unwatch();
+    media.setDark(true);
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { shortestAngleDelta, interpolateLon, interpolateRotation, interpolateRenderData } from '../transitions';
+import { createMockRenderResponse } from '../../test/fixtures';
+import type { RenderResponse } from '@gaia-tools/iris-core';
+
+function withPlanetLon(renderData: RenderResponse, itemId: string, lon: number): RenderResponse {
+  return {
+    ...renderData,
+    wheel: {
+      ...renderData.wheel,
+      rings: renderData.wheel.rings.map((ring) => ({
+        ...ring,
+        items: ring.items?.map((item) => (item.id === itemId && item.kind === 'planet' ? { ...item, lon } : item)),
+      })),
+    },
+  };
+}
+
+function getPlanetLon(renderData: RenderResponse, itemId: string): number | undefined {
+  for (const ring of renderData.wheel.rings) {
+    const item = ring.items?.find((candidate) => candidate.id === itemId);
+    if (item?.kind === 'planet') return item.lon;
+  }
+  return undefined;
+}
+
+describe('shortestAngleDelta', () => {
+  it('takes the shorter way around the circle', () => {
+    expect(shortestAngleDelta(10, 50)).toBe(40);
+    expect(shortestAngleDelta(50, 10)).toBe(-40);
+    expect(shortestAngleDelta(359, 1)).toBe(2);
+    expect(shortestAngleDelta(1, 359)).toBe(-2);
+    expect(shortestAngleDelta(0, 180)).toBe(180);
+  });
+});
+
+describe('interpolateLon', () => {
+  it('interpolates across the 0° boundary', () => {
+    expect(interpolateLon(359, 1, 0.5)).toBeCloseTo(0);
+    expect(interpolateLon(359, 1, 0.25)).toBeCloseTo(359.5);
+    expect(interpolateLon(1, 359, 0.75)).toBeCloseTo(359.5);
+  });
+
+  it('returns the endpoints at t = 0 and t = 1', () => {
+    expect(interpolateLon(100, 120, 0)).toBe(100);
+    expect(interpolateLon(100, 120, 1)).toBe(120);
+  });
+});
+
+describe('interpolateRotation', () => {
+  it('turns the shorter way and lands exactly on the target', () => {
+    expect(interpolateRotation(350, 10, 0.5)).toBeCloseTo(360);
+    expect(interpolateRotation(350, 10, 1)).toBe(10);
+  });
+});
+
+describe('interpolateRenderData', () => {
+  it('moves planets that exist in both states', () => {
+    const from = withPlanetLon(createMockRenderResponse(), 'planet-sun', 358);
+    const to = withPlanetLon(createMockRenderResponse(), 'planet-sun', 4);
+
+    const halfway = interpolateRenderData(from, to, 0.5);
+
+    expect(getPlanetLon(halfway, 'planet-sun')).toBeCloseTo(1);
+    expect(getPlanetLon(halfway, 'planet-moon')).toBe(getPlanetLon(to, 'planet-moon'));
+  });
+
+  it('takes new items from the target state', () => {
+    const from = createMockRenderResponse();
+    const to = withPlanetLon(createMockRenderResponse(), 'planet-sun', 10);
+    const planetRing = to.wheel.rings[2];
+    const mars = { ...planetRing.items![0], id: 'planet-mars', planetId: 'mars', lon: 200 };
+    const withMars = {
+      ...to,
+      wheel: {
+        ...to.wheel,
+        rings: [...to.wheel.rings.slice(0, 2), { ...planetRing, items: [...planetRing.items!, mars] }],
+      },
+    } as RenderResponse;
+
+    expect(getPlanetLon(interpolateRenderData(from, withMars, 0.5), 'planet-mars')).toBe(200);
+  });
+
+  it('returns the target at t = 1', () => {
+    const to = createMockRenderResponse();
+    expect(interpolateRenderData(createMockRenderResponse(), to, 1)).toBe(to);
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { getZodiacFrame, toZodiacLon, formatZodiacLabel } from '../zodiac';
+import { createMockRenderResponse } from '../../test/fixtures';
+
+const createSiderealResponse = () => {
+  const renderData = createMockRenderResponse();
+  renderData.settings.zodiacType = 'sidereal';
+  renderData.settings.ayanamsa = 'lahiri';
+  renderData.coordinateSystem.zeroPoint.offsetDegrees = 23.85;
+  return renderData;
+};
+
+describe('getZodiacFrame', () => {
+  it('has no offset on tropical charts', () => {
+    const renderData = createMockRenderResponse();
+    renderData.coordinateSystem.zeroPoint.offsetDegrees = 10;
+
+    expect(getZodiacFrame(renderData)).toEqual({ type: 'tropical', offset: 0, ayanamsa: null });
+  });
+
+  it('takes the ayanamsa from the zero point on sidereal charts', () => {
+    expect(getZodiacFrame(createSiderealResponse())).toEqual({ type: 'sidereal', offset: 23.85, ayanamsa: 'lahiri' });
+  });
+});
+
+describe('toZodiacLon', () => {
+  it('subtracts the ayanamsa on sidereal charts', () => {
+    expect(toZodiacLon(280.5, createMockRenderResponse())).toBe(280.5);
+    expect(toZodiacLon(280.5, createSiderealResponse())).toBeCloseTo(256.65);
+    expect(toZodiacLon(10, createSiderealResponse())).toBeCloseTo(346.15);
+  });
+});
+
+describe('formatZodiacLabel', () => {
+  it('names the zodiac and ayanamsa', () => {
+    expect(formatZodiacLabel({ type: 'tropical', offset: 0, ayanamsa: null })).toBe('Tropical');
+    expect(formatZodiacLabel({ type: 'sidereal', offset: 23.85, ayanamsa: 'lahiri' })).toBe("Sidereal (Lahiri 23°51')");
+    expect(formatZodiacLabel({ type: 'sidereal', offset: 24, ayanamsa: null })).toBe('Sidereal (24°)');
+  });
+});
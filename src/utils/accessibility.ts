@@ -0,0 +1,132 @@
+import { RenderResponse, IndexesDTO, RingItemDTO, RingDTO, AspectPairDTO } from '@gaia-tools/iris-core';
+import { formatDegreesMinutes, getObjectInfo, getSignName } from './chartWheelHelpers';
+import { describeAspect, formatSignPosition } from './hover';
+import { getZodiacFrame, toZodiacLon } from './zodiac';
+
+/**
+ * Key identifying a ring item for keyboard navigation, unique across rings
+ */
+export function getItemKey(ring: RingDTO, item: RingItemDTO): string {
+  return `${ring.id}/${item.id}`;
+}
+
+/**
+ * Where an item sits on the wheel; sign boundaries are shifted into place on sidereal charts
+ */
+function getItemLon(item: RingItemDTO, zodiacOffset: number): number | null {
+  switch (item.kind) {
+    case 'planet':
+    case 'houseCusp':
+      return item.lon;
+    case 'sign':
+      return item.startLon + zodiacOffset;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Keys of the focusable items in zodiacal order (by position, then ring order), the order arrow keys move through.
+ * Positions default to longitude; items without one are left out.
+ */
+export function getNavigationOrder(
+  renderData: RenderResponse,
+  getPosition?: (item: RingItemDTO) => number | null
+): string[] {
+  const entries: { key: string; position: number; ringIndex: number }[] = [];
+  const zodiacOffset = getZodiacFrame(renderData).offset;
+  renderData.wheel.rings.forEach((ring, ringIndex) => {
+    for (const item of ring.items ?? []) {
+      const position = getPosition ? getPosition(item) : getItemLon(item, zodiacOffset);
+      if (position === null) continue;
+      entries.push({ key: getItemKey(ring, item), position: ((position % 360) + 360) % 360, ringIndex });
+    }
+  });
+  return entries.sort((a, b) => a.position - b.position || a.ringIndex - b.ringIndex).map((entry) => entry.key);
+}
+
+/**
+ * Label for a planet, prefixed with its layer on multi-layer wheels, e.g. "Transits Mars"
+ */
+function getPlanetLabel(planetId: string, layerId: string, renderData: RenderResponse): string {
+  const label = getObjectInfo(planetId).label;
+  const layerLabel = renderData.layers[layerId]?.label;
+  return Object.keys(renderData.layers).length > 1 && layerLabel ? `${layerLabel} ${label}` : label;
+}
+
+/**
+ * Accessible name of a ring item, e.g. "Sun in Capricorn 10°30', house 10"
+ */
+export function getItemAccessibleName(item: RingItemDTO, renderData: RenderResponse): string {
+  switch (item.kind) {
+    case 'planet': {
+      const position = formatSignPosition(toZodiacLon(item.lon, renderData));
+      const parts = [`${getPlanetLabel(item.planetId, item.layerId, renderData)} in ${position}`];
+      if (item.houseIndex) parts.push(`house ${item.houseIndex}`);
+      if (item.retrograde) parts.push('retrograde');
+      return parts.join(', ');
+    }
+    case 'houseCusp':
+      return `House ${item.houseIndex} cusp in ${formatSignPosition(toZodiacLon(item.lon, renderData))}`;
+    case 'sign':
+      return `${item.label || getSignName(item.index) || item.id}, ${formatDegreesMinutes(item.startLon)} to ${formatDegreesMinutes(item.endLon)}`;
+    default:
+      return item.id;
+  }
+}
+
+/**
+ * Accessible name of an aspect line, e.g. "Sun trine Moon, orb 0°15', separating"
+ */
+export function getAspectAccessibleName(aspect: AspectPairDTO, renderData: RenderResponse): string {
+  const { title, details } = describeAspect(aspect, renderData);
+  return [title, ...details.map((detail) => detail.charAt(0).toLowerCase() + detail.slice(1))].join(', ');
+}
+
+/**
+ * A table of the chart for assistive technology
+ */
+export interface SummaryTable {
+  caption: string;
+  columns: string[];
+  rows: string[][];
+}
+
+/**
+ * Summarise the chart as tables: object positions (planets and house cusps) and aspects
+ */
+export function buildChartSummary(renderData: RenderResponse, indexes: IndexesDTO): SummaryTable[] {
+  const positions: string[][] = [];
+  for (const ring of renderData.wheel.rings) {
+    for (const item of ring.items ?? []) {
+      if (item.kind === 'planet') {
+        positions.push([
+          getPlanetLabel(item.planetId, item.layerId, renderData),
+          formatSignPosition(toZodiacLon(item.lon, renderData)),
+          item.houseIndex ? String(item.houseIndex) : '',
+          item.retrograde ? 'Retrograde' : 'Direct',
+        ]);
+      } else if (item.kind === 'houseCusp') {
+        positions.push([
+          `House ${item.houseIndex} cusp`,
+          formatSignPosition(toZodiacLon(item.lon, renderData)),
+          String(item.houseIndex),
+          '',
+        ]);
+      }
+    }
+  }
+
+  const aspects = Object.values(indexes.aspectById).map((aspect) => {
+    const { title, details } = describeAspect(aspect, renderData);
+    return [title, ...details];
+  });
+
+  const tables: SummaryTable[] = [
+    { caption: 'Positions', columns: ['Object', 'Position', 'House', 'Motion'], rows: positions },
+  ];
+  if (aspects.length > 0) {
+    tables.push({ caption: 'Aspects', columns: ['Aspect', 'Orb', 'Phase'], rows: aspects });
+  }
+  return tables;
+}
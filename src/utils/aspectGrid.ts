@@ -0,0 +1,83 @@
+import { RenderResponse, AspectSetDTO, AspectPairDTO, AspectObjectRef } from '@gaia-tools/iris-core';
+import { logicalIdFromAspectRef } from './buildIndexes';
+import { sortObjectIds } from './chartWheelHelpers';
+
+/**
+ * Rows, columns and cells of an aspect grid (aspectarian)
+ */
+export interface AspectGridLayout {
+  set: AspectSetDTO;
+  /**
+   * 'triangle' for aspects within one layer (each pair once, below the diagonal),
+   * 'rectangle' for aspects between two layers (rows from the first layer, columns from the second)
+   */
+  shape: 'triangle' | 'rectangle';
+  rows: AspectObjectRef[];
+  columns: AspectObjectRef[];
+  /**
+   * Aspects by "${rowLogicalId}|${columnLogicalId}"
+   */
+  cells: Record<string, AspectPairDTO>;
+}
+
+/**
+ * The aspect set to show: the given one, or the first set of the chart
+ */
+export function resolveAspectGridSet(renderData: RenderResponse, aspectSetId?: string): AspectSetDTO | null {
+  const sets = renderData.aspects.sets;
+  if (aspectSetId !== undefined) return sets[aspectSetId] ?? null;
+  return Object.values(sets)[0] ?? null;
+}
+
+/**
+ * Objects of a layer in the grid: its planets in the usual order (Sun to Pluto, then the rest),
+ * then any other objects its aspects refer to (angles, house cusps)
+ */
+function getLayerObjects(renderData: RenderResponse, set: AspectSetDTO, layerId: string): AspectObjectRef[] {
+  const planetIds = sortObjectIds(Object.keys(renderData.layers[layerId]?.positions.planets ?? {}));
+  const objects: AspectObjectRef[] = planetIds.map((objectId) => ({ layerId, objectType: 'planet', objectId }));
+
+  const seen = new Set(objects.map(logicalIdFromAspectRef));
+  for (const pair of set.pairs) {
+    for (const ref of [pair.from, pair.to]) {
+      const logicalId = logicalIdFromAspectRef(ref);
+      if (ref.layerId !== layerId || seen.has(logicalId)) continue;
+      seen.add(logicalId);
+      objects.push(ref);
+    }
+  }
+  return objects;
+}
+
+/**
+ * Key of a grid cell
+ */
+export function getAspectGridCellKey(row: AspectObjectRef, column: AspectObjectRef): string {
+  return `${logicalIdFromAspectRef(row)}|${logicalIdFromAspectRef(column)}`;
+}
+
+/**
+ * Lay out an aspect set as a grid. Each aspect lands in one cell whichever way round its endpoints are listed.
+ */
+export function getAspectGridLayout(renderData: RenderResponse, set: AspectSetDTO): AspectGridLayout {
+  const shape = set.kind === 'inter_layer' && set.layerIds.length > 1 ? 'rectangle' : 'triangle';
+  const rows = getLayerObjects(renderData, set, set.layerIds[0]);
+  const columns = shape === 'rectangle' ? getLayerObjects(renderData, set, set.layerIds[1]) : rows;
+
+  const rowIndex = new Map(rows.map((ref, index) => [logicalIdFromAspectRef(ref), index]));
+  const columnIndex = new Map(columns.map((ref, index) => [logicalIdFromAspectRef(ref), index]));
+  const cells: Record<string, AspectPairDTO> = {};
+  for (const pair of set.pairs) {
+    let [row, column] = [pair.from, pair.to];
+    // Rectangles: the endpoint from the row layer is the row. Triangles: the later object is the row.
+    const swap =
+      shape === 'rectangle'
+        ? row.layerId !== set.layerIds[0]
+        : (rowIndex.get(logicalIdFromAspectRef(row)) ?? 0) < (rowIndex.get(logicalIdFromAspectRef(column)) ?? 0);
+    if (swap) [row, column] = [column, row];
+    if (!rowIndex.has(logicalIdFromAspectRef(row)) || !columnIndex.has(logicalIdFromAspectRef(column))) continue;
+    cells[getAspectGridCellKey(row, column)] = pair;
+  }
+
+  return { set, shape, rows, columns, cells };
+}
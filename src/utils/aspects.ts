@@ -0,0 +1,135 @@
+import { RenderResponse, IndexesDTO, AspectPairDTO, AspectObjectRef, RingItemDTO } from '@gaia-tools/iris-core';
+
+/**
+ * An aspect resolved to the longitudes of both of its endpoints, ready to be drawn
+ */
+export interface AspectLine {
+  aspect: AspectPairDTO;
+  fromLon: number;
+  toLon: number;
+  /**
+   * Rings the endpoints are drawn on (null when resolved from layer positions only)
+   */
+  fromRingId: string | null;
+  toRingId: string | null;
+}
+
+/**
+ * A resolved aspect endpoint
+ */
+export interface AspectEndpoint {
+  lon: number;
+  ringId: string | null;
+}
+
+/**
+ * Default maximum orb used to scale stroke width when the chart settings have none for an aspect type
+ */
+const DEFAULT_MAX_ORB = 8;
+
+/**
+ * Get the longitude of a ring item, if it has one
+ */
+function getItemLon(item: RingItemDTO | undefined): number | null {
+  if (!item) return null;
+  if (item.kind === 'planet' || item.kind === 'houseCusp') {
+    return item.lon;
+  }
+  return null;
+}
+
+/**
+ * Resolve an aspect endpoint to a longitude and the ring it is drawn on.
+ * Looks the object up through the logical-id indexes first (so the line meets the drawn item),
+ * then falls back to the raw layer positions.
+ */
+export function resolveAspectEndpoint(
+  ref: AspectObjectRef,
+  renderData: RenderResponse,
+  indexes: IndexesDTO
+): AspectEndpoint | null {
+  const logicalId = `${ref.layerId}:${ref.objectType}:${ref.objectId}`;
+  for (const { ringId, itemId } of indexes.itemsByLogicalId[logicalId] ?? []) {
+    const lon = getItemLon(indexes.itemByRingAndId[ringId]?.[itemId]);
+    if (lon !== null) return { lon, ringId };
+  }
+
+  const positions = renderData.layers[ref.layerId]?.positions;
+  if (!positions) return null;
+  const lon =
+    ref.objectType === 'planet'
+      ? positions.planets[ref.objectId]?.lon
+      : positions.houses?.angles?.[ref.objectId] ?? positions.planets[ref.objectId]?.lon;
+  return lon === undefined ? null : { lon, ringId: null };
+}
+
+/**
+ * Resolve the longitude of an aspect endpoint
+ */
+export function resolveAspectObjectLon(
+  ref: AspectObjectRef,
+  renderData: RenderResponse,
+  indexes: IndexesDTO
+): number | null {
+  return resolveAspectEndpoint(ref, renderData, indexes)?.lon ?? null;
+}
+
+/**
+ * Collect the aspects to draw.
+ * If the wheel has rings with 'aspect' items, only those aspects are drawn;
+ * otherwise every pair of every aspect set is drawn.
+ */
+export function collectAspects(renderData: RenderResponse, indexes: IndexesDTO): AspectPairDTO[] {
+  const fromRings: AspectPairDTO[] = [];
+  for (const ring of renderData.wheel.rings) {
+    for (const item of ring.items ?? []) {
+      if (item.kind !== 'aspect') continue;
+      const aspect = indexes.aspectById[item.aspectId] ?? indexes.aspectById[item.id];
+      if (aspect) fromRings.push(aspect);
+    }
+  }
+  if (fromRings.length > 0) return fromRings;
+
+  return Object.values(renderData.aspects.sets).flatMap((set) => set.pairs);
+}
+
+/**
+ * Resolve all drawable aspect lines. Aspects whose endpoints can't be located are skipped.
+ */
+export function resolveAspectLines(renderData: RenderResponse, indexes: IndexesDTO): AspectLine[] {
+  const lines: AspectLine[] = [];
+  for (const aspect of collectAspects(renderData, indexes)) {
+    const from = resolveAspectEndpoint(aspect.from, renderData, indexes);
+    const to = resolveAspectEndpoint(aspect.to, renderData, indexes);
+    if (!from || !to) continue;
+    lines.push({ aspect, fromLon: from.lon, toLon: to.lon, fromRingId: from.ringId, toRingId: to.ringId });
+  }
+  return lines;
+}
+
+/**
+ * Scale the aspect stroke width by orb: exact aspects get the full width,
+ * aspects at the edge of their allowed orb get half of it.
+ */
+export function getAspectStrokeWidth(
+  baseWidth: number,
+  orb: number,
+  maxOrb: number = DEFAULT_MAX_ORB
+): number {
+  const ratio = maxOrb > 0 ? Math.min(Math.abs(orb) / maxOrb, 1) : 0;
+  return baseWidth * (1 - ratio / 2);
+}
+
+/**
+ * Whether an aspect should be drawn with the dashed "separating" style
+ */
+export function isSeparatingAspect(aspect: AspectPairDTO): boolean {
+  return !aspect.aspect.isApplying && !aspect.aspect.isExact;
+}
+
+/**
+ * Whether an aspect connects objects from two different layers (e.g. transit to natal)
+ */
+export function isInterLayerAspect(aspect: AspectPairDTO): boolean {
+  return aspect.from.layerId !== aspect.to.layerId;
+}
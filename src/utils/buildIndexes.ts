@@ -79,7 +79,7 @@ export function buildIndexes(renderData: RenderResponse): IndexesDTO {
  * Logical IDs enable cross-referencing across rings and layers.
  * Format: "${layerId}:${objectType}:${objectId}"
  */
-function deriveLogicalIdFromRingItem(
+export function deriveLogicalIdFromRingItem(
   ring: RingDTO,
   item: RingItemDTO
 ): string | null {
@@ -115,7 +115,7 @@ function deriveLogicalIdFromRingItem(
  * Builds a logical ID from an aspect object reference.
  * Format: "${layerId}:${objectType}:${objectId}"
  */
-function logicalIdFromAspectRef(ref: AspectObjectRef): string {
+export function logicalIdFromAspectRef(ref: AspectObjectRef): string {
   return `${ref.layerId}:${ref.objectType}:${ref.objectId}`;
 }
 
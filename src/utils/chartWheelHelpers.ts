@@ -0,0 +1,333 @@
+import { VisualConfig, GlyphConfig } from '@gaia-tools/aphrodite';
+import { RenderResponse } from '@gaia-tools/iris-core';
+import { Theme, ColorScheme, getThemeConfig } from './themes';
+import { getObjectDefinition, getPlanetIndex } from './objects';
+
+export type { Theme, ColorScheme } from './themes';
+
+/**
+ * How longitudes map onto the circle
+ */
+export interface WheelCoordinates {
+  /**
+   * Direction the zodiac runs around the wheel: 'ccw' (the usual layout, Aries rising on the left) or 'cw'
+   */
+  direction: 'cw' | 'ccw';
+  /**
+   * Degrees of longitude spread across the full circle (360 unless the payload's angleRange is narrower)
+   */
+  span: number;
+}
+
+export const defaultWheelCoordinates: WheelCoordinates = { direction: 'ccw', span: 360 };
+
+/**
+ * Read the wheel's direction and angle range from the payload's coordinate system
+ */
+export function getWheelCoordinates(renderData: RenderResponse): WheelCoordinates {
+  const coordinateSystem = renderData.coordinateSystem;
+  const [rangeStart, rangeEnd] = coordinateSystem?.angleRange ?? [0, 360];
+  const span = rangeEnd - rangeStart;
+  return {
+    direction: coordinateSystem?.direction === 'cw' ? 'cw' : 'ccw',
+    span: span > 0 && span <= 360 ? span : 360,
+  };
+}
+
+/**
+ * Convert astronomical angle (longitude from 0° Aries) to SVG angle (0-360, clockwise from top)
+ * @param rotationOffset Rotation of the wheel in degrees, added to the scaled longitude
+ * @param coordinates Direction and angle range of the wheel (default: counter-clockwise over 360°)
+ */
+export function astroToSvgAngle(
+  astroAngle: number,
+  rotationOffset: number = 0,
+  coordinates: WheelCoordinates = defaultWheelCoordinates
+): number {
+  // Counter-clockwise: svg = 90 - (astro + rotationOffset), 0° Aries at 3 o'clock
+  // Clockwise: svg = 90 + (astro + rotationOffset), the mirror image
+  // A narrower angle range stretches longitude so the range covers the full circle
+  const wheelAngle = (astroAngle * 360) / coordinates.span + rotationOffset;
+  let angle = coordinates.direction === 'cw' ? 90 + wheelAngle : 90 - wheelAngle;
+  // Normalize to 0-360 range
+  angle = ((angle % 360) + 360) % 360;
+  return angle;
+}
+
+/**
+ * Inverse of astroToSvgAngle: the longitude at an SVG angle, within the wheel's angle range
+ */
+export function svgToAstroAngle(
+  svgAngle: number,
+  rotationOffset: number = 0,
+  coordinates: WheelCoordinates = defaultWheelCoordinates
+): number {
+  const wheelAngle = coordinates.direction === 'cw' ? svgAngle - 90 : 90 - svgAngle;
+  const lon = ((wheelAngle - rotationOffset) * coordinates.span) / 360;
+  return ((lon % coordinates.span) + coordinates.span) % coordinates.span;
+}
+
+/**
+ * Convert angle and radius to cartesian coordinates
+ * SVG: 0° = top (12 o'clock), angles increase clockwise
+ * Math: 0° = right (3 o'clock), angles increase counter-clockwise
+ */
+export function polarToCartesian(angleDeg: number, radius: number): { x: number; y: number } {
+  // Convert SVG angle (0° = top) to math angle (0° = right)
+  // SVG 0° (top) = Math 90° (counter-clockwise from right)
+  const mathAngle = (90 - angleDeg) * (Math.PI / 180);
+  return {
+    x: radius * Math.cos(mathAngle),
+    y: -radius * Math.sin(mathAngle), // SVG Y increases downward, so up is negative Y
+  };
+}
+
+/**
+ * Format longitude as degrees and minutes
+ * @param lon Longitude in degrees (0-360)
+ * @param showMinutes Whether to show minutes (default: true)
+ * @returns Formatted string like "15°23'" or "15°"
+ */
+export function formatDegreesMinutes(lon: number, showMinutes: boolean = true): string {
+  const normalizedLon = lon % 360;
+  const degrees = Math.floor(normalizedLon);
+  
+  if (!showMinutes) {
+    return `${degrees}°`;
+  }
+  
+  const minutes = Math.floor((normalizedLon - degrees) * 60);
+  if (minutes === 0) {
+    return `${degrees}°`;
+  }
+  
+  return `${degrees}°${minutes < 10 ? '0' : ''}${minutes}'`;
+}
+
+/**
+ * Format longitude as sign degrees and minutes (0-29 degrees within sign)
+ * @param lon Longitude in degrees (0-360)
+ * @param showMinutes Whether to show minutes (default: true)
+ * @returns Formatted string like "15°23'" or "15°"
+ */
+export function formatSignDegreesMinutes(lon: number, showMinutes: boolean = true): string {
+  const signDegrees = Math.floor(lon % 30);
+  
+  if (!showMinutes) {
+    return `${signDegrees}°`;
+  }
+  
+  const minutes = Math.floor((lon % 1) * 60);
+  if (minutes === 0) {
+    return `${signDegrees}°`;
+  }
+  
+  return `${signDegrees}°${minutes < 10 ? '0' : ''}${minutes}'`;
+}
+
+/**
+ * How degree labels under planets, house cusps and sign boundaries are written:
+ * - 'absolute': ecliptic longitude, e.g. "280°30'"
+ * - 'sign': degrees within the sign with the sign glyph, e.g. "10♑30'"
+ * - 'dms': like 'sign' with seconds, e.g. "10♑30'15\""
+ * - 'decimal': ecliptic longitude in decimal degrees, e.g. "280.50°"
+ */
+export type DegreeFormat = 'absolute' | 'sign' | 'dms' | 'decimal';
+
+/**
+ * Format a longitude for a degree label
+ * @param lon Longitude in degrees
+ * @param format Label format (default: 'sign')
+ * @param signGlyphs Sign glyphs by sign index, for the sign-relative formats
+ */
+export function formatLongitude(
+  lon: number,
+  format: DegreeFormat = 'sign',
+  signGlyphs: Record<number, string> = defaultGlyphConfig.signGlyphs
+): string {
+  const normalizedLon = ((lon % 360) + 360) % 360;
+  switch (format) {
+    case 'absolute':
+      return formatDegreesMinutes(normalizedLon);
+    case 'decimal':
+      return `${normalizedLon.toFixed(2)}°`;
+    default: {
+      // Whole arcseconds, nudged so values like 10.5 don't fall just short through float error
+      const totalSeconds = Math.floor(normalizedLon * 3600 + 1e-6) % (360 * 3600);
+      const signIndex = Math.floor(totalSeconds / (30 * 3600));
+      const degrees = Math.floor(totalSeconds / 3600) % 30;
+      const minutes = Math.floor(totalSeconds / 60) % 60;
+      const glyph = signGlyphs[signIndex] ?? '°';
+      const label = `${degrees}${glyph}${String(minutes).padStart(2, '0')}'`;
+      return format === 'dms' ? `${label}${String(totalSeconds % 60).padStart(2, '0')}"` : label;
+    }
+  }
+}
+
+/**
+ * Map planet/object ID to display info (index for glyph lookup, label, glyph), from the object registry
+ * Planet indices: 0=Sun, 1=Moon, 2=Mercury, 3=Venus, 4=Mars, 5=Jupiter, 6=Saturn, 7=Uranus, 8=Neptune, 9=Pluto
+ */
+export function getObjectInfo(objectId: string): { index: number | null; label: string; glyph: string | null } {
+  const definition = getObjectDefinition(objectId);
+  const index = getPlanetIndex(objectId);
+
+  // Fallback: use the object ID as label
+  return definition
+    ? { index, label: definition.label, glyph: definition.glyph ?? null }
+    : { index, label: objectId, glyph: null };
+}
+
+/**
+ * Sort object ids in the usual order: Sun to Pluto, then everything else as given
+ */
+export function sortObjectIds(objectIds: string[]): string[] {
+  const order = (objectId: string) => getObjectInfo(objectId).index ?? Number.MAX_SAFE_INTEGER;
+  return objectIds
+    .map((objectId, position) => ({ objectId, position }))
+    .sort((a, b) => order(a.objectId) - order(b.objectId) || a.position - b.position)
+    .map(({ objectId }) => objectId);
+}
+
+/**
+ * Map sign index to sign name for glyph lookup
+ */
+export function getSignIndex(signName: string): number | null {
+  const signMap: Record<string, number> = {
+    aries: 0,
+    taurus: 1,
+    gemini: 2,
+    cancer: 3,
+    leo: 4,
+    virgo: 5,
+    libra: 6,
+    scorpio: 7,
+    sagittarius: 8,
+    capricorn: 9,
+    aquarius: 10,
+    pisces: 11,
+  };
+  return signMap[signName.toLowerCase()] ?? null;
+}
+
+const signNames = [
+  'Aries', 'Taurus', 'Gemini', 'Cancer', 'Leo', 'Virgo',
+  'Libra', 'Scorpio', 'Sagittarius', 'Capricorn', 'Aquarius', 'Pisces',
+];
+
+/**
+ * Map sign index (0 = Aries) to the sign's name
+ */
+export function getSignName(signIndex: number): string | null {
+  return signNames[signIndex] ?? null;
+}
+
+/**
+ * Radius (in response units) of the circle aspect chords are drawn on.
+ * Uses a dedicated aspects ring if the wheel has one, otherwise the inside of the innermost ring.
+ */
+export function getAspectRadius(renderData: RenderResponse): number {
+  const rings = renderData.wheel.rings;
+  const aspectRing = rings.find(
+    (ring) => ring.type === 'aspects' || ring.items?.some((item) => item.kind === 'aspect')
+  );
+  if (aspectRing) return aspectRing.radius.outer;
+  if (rings.length === 0) return renderData.wheel.radius.inner;
+
+  const innermost = rings.reduce((min, ring) => (ring.radius.inner < min.radius.inner ? ring : min));
+  // An innermost ring that reaches the centre leaves no room inside it, so draw within its band
+  return innermost.radius.inner > 0 ? innermost.radius.inner : innermost.radius.outer;
+}
+
+/**
+ * Get dark mode theme colors
+ */
+export function getDarkModeTheme(theme: Theme): VisualConfig {
+  return getThemeConfig(theme, 'dark');
+}
+
+/**
+ * Default visual config values: the traditional theme in the given scheme
+ */
+function getDefaultVisualConfig(colorScheme: ColorScheme): Required<VisualConfig> {
+  return {
+    ringWidth: 30,
+    ringSpacing: 10,
+    ...getThemeConfig('traditional', colorScheme),
+  } as Required<VisualConfig>;
+}
+
+/**
+ * Default glyph config values
+ */
+const defaultGlyphConfig: Required<GlyphConfig> = {
+  signGlyphs: {
+    0: '♈', 1: '♉', 2: '♊', 3: '♋', 4: '♌', 5: '♍',
+    6: '♎', 7: '♏', 8: '♐', 9: '♑', 10: '♒', 11: '♓',
+  },
+  planetGlyphs: {
+    0: '☉', 1: '☽', 2: '☿', 3: '♀', 4: '♂', 5: '♃',
+    6: '♄', 7: '♅', 8: '♆', 9: '♇',
+  },
+  aspectGlyphs: {
+    conjunction: '☌', opposition: '☍', trine: '△', square: '□', sextile: '⚹',
+    quincunx: '⚻', semisextile: '⚺', semisquare: '∠', sesquiquadrate: '⚼', quintile: 'Q', biquintile: 'bQ',
+  },
+  glyphSize: 12,
+  glyphFont: 'Arial',
+};
+
+/**
+ * Merge visual config with defaults and theme, in the given colour scheme (default: dark)
+ */
+export function mergeVisualConfig(
+  config?: VisualConfig,
+  theme?: Theme,
+  colorScheme: ColorScheme = 'dark'
+): Required<VisualConfig> {
+  const defaultVisualConfig = getDefaultVisualConfig(colorScheme);
+
+  // If explicit visualConfig is provided, use it (overrides theme)
+  if (config) {
+    return {
+      ...defaultVisualConfig,
+      ...config,
+      signColors: config.signColors || defaultVisualConfig.signColors,
+      houseColors: config.houseColors || defaultVisualConfig.houseColors,
+      planetColors: config.planetColors || defaultVisualConfig.planetColors,
+      aspectColors: { ...defaultVisualConfig.aspectColors, ...(config.aspectColors || {}) },
+    };
+  }
+  
+  // If theme is provided, use theme colors
+  if (theme) {
+    const themeConfig = getThemeConfig(theme, colorScheme);
+    return {
+      ...defaultVisualConfig,
+      ...themeConfig,
+      ringWidth: defaultVisualConfig.ringWidth,
+      ringSpacing: defaultVisualConfig.ringSpacing,
+      signColors: themeConfig.signColors || defaultVisualConfig.signColors,
+      houseColors: themeConfig.houseColors || defaultVisualConfig.houseColors,
+      planetColors: themeConfig.planetColors || defaultVisualConfig.planetColors,
+      aspectColors: { ...defaultVisualConfig.aspectColors, ...(themeConfig.aspectColors || {}) },
+    };
+  }
+  
+  // Default: traditional
+  return defaultVisualConfig;
+}
+
+/**
+ * Merge glyph config with defaults
+ */
+export function mergeGlyphConfig(config?: GlyphConfig): Required<GlyphConfig> {
+  if (!config) return defaultGlyphConfig;
+  return {
+    ...defaultGlyphConfig,
+    ...config,
+    signGlyphs: { ...defaultGlyphConfig.signGlyphs, ...(config.signGlyphs || {}) },
+    planetGlyphs: { ...defaultGlyphConfig.planetGlyphs, ...(config.planetGlyphs || {}) },
+    aspectGlyphs: { ...defaultGlyphConfig.aspectGlyphs, ...(config.aspectGlyphs || {}) },
+  };
+}
@@ -0,0 +1,139 @@
+import { VisualConfig } from '@gaia-tools/aphrodite';
+import { getObjectInfo, getSignName } from './chartWheelHelpers';
+import { cssVariable } from './cssVariables';
+
+export type ZodiacElement = 'fire' | 'earth' | 'air' | 'water';
+export type Modality = 'cardinal' | 'fixed' | 'mutable';
+
+/**
+ * How the sign ring is coloured:
+ * - 'sign': each sign its own colour from signColors (default)
+ * - 'element': signs of the same element share a colour
+ * - 'modality': signs of the same modality share a colour
+ * - 'band': signs filled with alternating shading, glyphs in the stroke colour
+ */
+export type SignColoring = 'sign' | 'element' | 'modality' | 'band';
+
+/**
+ * How house cusps are coloured:
+ * - 'house': each house its own colour from houseColors (default)
+ * - 'element' / 'modality': by the sign on the cusp
+ * - 'ruler': in the planet colour of the ruler of the sign on the cusp
+ */
+export type HouseColoring = 'house' | 'element' | 'modality' | 'ruler';
+
+export interface ChartColoring {
+  signs?: SignColoring;
+  houses?: HouseColoring;
+  /**
+   * Element colours (default: the theme's Aries, Taurus, Gemini and Cancer colours)
+   */
+  elementColors?: Partial<Record<ZodiacElement, string>>;
+  /**
+   * Modality colours (default: the theme's Aries, Taurus and Gemini colours)
+   */
+  modalityColors?: Partial<Record<Modality, string>>;
+  /**
+   * Sign rulers for house 'ruler' colouring: modern (Pluto, Uranus and Neptune rule Scorpio, Aquarius and Pisces)
+   * or traditional (default: modern)
+   */
+  rulership?: 'modern' | 'traditional';
+}
+
+/**
+ * A colour and the custom property that overrides it
+ */
+export interface ChartColor {
+  color: string;
+  variable: string;
+}
+
+const elements: ZodiacElement[] = ['fire', 'earth', 'air', 'water'];
+const modalities: Modality[] = ['cardinal', 'fixed', 'mutable'];
+
+const modernRulers = [
+  'mars', 'venus', 'mercury', 'moon', 'sun', 'mercury',
+  'venus', 'pluto', 'jupiter', 'saturn', 'uranus', 'neptune',
+];
+const traditionalRulers = [
+  'mars', 'venus', 'mercury', 'moon', 'sun', 'mercury',
+  'venus', 'mars', 'jupiter', 'saturn', 'saturn', 'jupiter',
+];
+
+/**
+ * Element of a sign (0 = Aries)
+ */
+export function getSignElement(signIndex: number): ZodiacElement {
+  return elements[signIndex % 4];
+}
+
+/**
+ * Modality of a sign (0 = Aries)
+ */
+export function getSignModality(signIndex: number): Modality {
+  return modalities[signIndex % 3];
+}
+
+/**
+ * Planet ruling a sign (0 = Aries)
+ */
+export function getSignRuler(signIndex: number, rulership: 'modern' | 'traditional' = 'modern'): string {
+  return (rulership === 'traditional' ? traditionalRulers : modernRulers)[signIndex];
+}
+
+function getElementColor(signIndex: number, config: VisualConfig, coloring: ChartColoring): ChartColor | null {
+  const element = getSignElement(signIndex);
+  const color = coloring.elementColors?.[element] ?? config.signColors?.[elements.indexOf(element)];
+  return color ? { color, variable: cssVariable('element', element) } : null;
+}
+
+function getModalityColor(signIndex: number, config: VisualConfig, coloring: ChartColoring): ChartColor | null {
+  const modality = getSignModality(signIndex);
+  const color = coloring.modalityColors?.[modality] ?? config.signColors?.[modalities.indexOf(modality)];
+  return color ? { color, variable: cssVariable('modality', modality) } : null;
+}
+
+/**
+ * Colour of a sign's segment and glyph. Null when the config has none (callers use the stroke colour).
+ */
+export function getSignColor(signIndex: number, config: VisualConfig, coloring: ChartColoring = {}): ChartColor | null {
+  switch (coloring.signs) {
+    case 'element':
+      return getElementColor(signIndex, config, coloring);
+    case 'modality':
+      return getModalityColor(signIndex, config, coloring);
+    case 'band':
+      return null;
+    default: {
+      const color = config.signColors?.[signIndex];
+      return color ? { color, variable: cssVariable('sign', getSignName(signIndex) ?? signIndex) } : null;
+    }
+  }
+}
+
+/**
+ * Colour of a house cusp, given the sign on the cusp. Null when the config has none (callers use the stroke colour).
+ */
+export function getHouseColor(
+  houseIndex: number,
+  cuspSignIndex: number,
+  config: VisualConfig,
+  coloring: ChartColoring = {}
+): ChartColor | null {
+  switch (coloring.houses) {
+    case 'element':
+      return getElementColor(cuspSignIndex, config, coloring);
+    case 'modality':
+      return getModalityColor(cuspSignIndex, config, coloring);
+    case 'ruler': {
+      const ruler = getSignRuler(cuspSignIndex, coloring.rulership);
+      const planetIndex = getObjectInfo(ruler).index;
+      const color = planetIndex !== null ? config.planetColors?.[planetIndex] : undefined;
+      return color ? { color, variable: cssVariable('planet', ruler) } : null;
+    }
+    default: {
+      const color = config.houseColors?.[houseIndex - 1];
+      return color ? { color, variable: cssVariable('house', houseIndex) } : null;
+    }
+  }
+}
@@ -0,0 +1,80 @@
+import { VisualConfig } from '@gaia-tools/aphrodite';
+import { getSignName } from './chartWheelHelpers';
+import { ColorScheme } from './themes';
+
+/**
+ * Planets in VisualConfig.planetColors order
+ */
+const planetIds = ['sun', 'moon', 'mercury', 'venus', 'mars', 'jupiter', 'saturn', 'uranus', 'neptune', 'pluto'];
+
+/**
+ * Name of a chart colour's CSS custom property, e.g. cssVariable('sign', 'aries') is "--aphrodite-sign-aries".
+ * Names are lower-cased, with anything but letters, digits, "-" and "_" replaced by "-".
+ */
+export function cssVariable(...parts: (string | number)[]): string {
+  const name = parts
+    .map((part) => String(part).toLowerCase().replace(/[^a-z0-9_-]/g, '-'))
+    .join('-');
+  return `--aphrodite-${name}`;
+}
+
+/**
+ * Colour that reads the custom property, falling back to the configured colour when the page doesn't set it
+ */
+export function cssColor(variable: string, fallback: string): string {
+  return `var(${variable}, ${fallback})`;
+}
+
+/**
+ * Custom properties for a visual config, e.g. to write a theme as CSS (see buildThemeCss)
+ */
+export function getThemeCssVariables(config: VisualConfig): Record<string, string> {
+  const variables: Record<string, string> = {};
+  if (config.backgroundColor) variables[cssVariable('background')] = config.backgroundColor;
+  if (config.strokeColor) variables[cssVariable('stroke')] = config.strokeColor;
+  config.signColors?.forEach((color, index) => {
+    const signName = getSignName(index);
+    if (signName && color) variables[cssVariable('sign', signName)] = color;
+  });
+  config.planetColors?.forEach((color, index) => {
+    if (planetIds[index] && color) variables[cssVariable('planet', planetIds[index])] = color;
+  });
+  config.houseColors?.forEach((color, index) => {
+    if (color) variables[cssVariable('house', index + 1)] = color;
+  });
+  Object.entries(config.aspectColors ?? {}).forEach(([type, color]) => {
+    if (color) variables[cssVariable('aspect', type)] = color;
+  });
+  return variables;
+}
+
+/**
+ * A CSS rule setting a visual config's custom properties, e.g.
+ * `buildThemeCss('.scheme-light', getThemeConfig('modern', 'light'))`
+ */
+export function buildThemeCss(selector: string, config: VisualConfig): string {
+  const declarations = Object.entries(getThemeCssVariables(config)).map(([name, value]) => `  ${name}: ${value};`);
+  return `${selector} {\n${declarations.join('\n')}\n}`;
+}
+
+/**
+ * Switch a rendered chart to a colour scheme without rebuilding it: swap the SVG's scheme class and set the
+ * scheme's colours as custom properties on it, except those the page sets itself.
+ * Returns the properties set, for clearCssVariables once the chart has been rendered in the scheme.
+ */
+export function applyColorScheme(svgElement: SVGSVGElement, scheme: ColorScheme, variables: Record<string, string>): string[] {
+  svgElement.classList.remove('scheme-light', 'scheme-dark');
+  svgElement.classList.add(`scheme-${scheme}`);
+
+  const pageStyle = getComputedStyle(svgElement);
+  const applied = Object.keys(variables).filter((name) => !pageStyle.getPropertyValue(name).trim());
+  applied.forEach((name) => svgElement.style.setProperty(name, variables[name]));
+  return applied;
+}
+
+/**
+ * Remove custom properties set by applyColorScheme
+ */
+export function clearCssVariables(element: SVGElement, names: string[]): void {
+  names.forEach((name) => element.style.removeProperty(name));
+}
@@ -0,0 +1,180 @@
+import { RenderResponse, AspectPairDTO, AspectSetDTO } from '@gaia-tools/iris-core';
+import { WheelCoordinates } from './chartWheelHelpers';
+
+/**
+ * Dial and harmonic charts. Both multiply longitude around the wheel:
+ * a 90° dial spreads longitude modulo 90° across the full circle, which is the 4th harmonic (lon × 4 mod 360).
+ */
+export interface DialOptions {
+  /**
+   * Dial size in degrees, e.g. 90 or 45 (default: 90). The sign ring is replaced by a degree scale.
+   */
+  size?: number;
+  /**
+   * Harmonic number: positions are drawn at lon × harmonic mod 360 against the usual sign ring. Takes precedence over size.
+   */
+  harmonic?: number;
+  /**
+   * Longitude the pointer starts at; leave out for no pointer. ChartWheel lets the user drag it around the dial.
+   */
+  pointer?: number;
+  /**
+   * Orb in degrees of longitude for aspects found on the dial (default: 1)
+   */
+  orb?: number;
+}
+
+const DEFAULT_DIAL_SIZE = 90;
+const DEFAULT_DIAL_ORB = 1;
+
+/**
+ * Aspect names by exact angle, for aspects found on a dial
+ */
+const aspectNames: Record<number, string> = {
+  0: 'conjunction',
+  30: 'semisextile',
+  45: 'semisquare',
+  60: 'sextile',
+  72: 'quintile',
+  90: 'square',
+  120: 'trine',
+  135: 'sesquiquadrate',
+  144: 'biquintile',
+  150: 'quincunx',
+  180: 'opposition',
+};
+
+/**
+ * How many times longitude goes around the wheel
+ */
+export function getDialFactor(dial: DialOptions): number {
+  if (dial.harmonic !== undefined) {
+    return dial.harmonic > 0 ? dial.harmonic : 1;
+  }
+  const size = dial.size ?? DEFAULT_DIAL_SIZE;
+  return size > 0 && size <= 360 ? 360 / size : 1;
+}
+
+/**
+ * Whether the dial shows a degree scale (dial sizes) rather than the sign ring (harmonics)
+ */
+export function isDialScale(dial: DialOptions): boolean {
+  return dial.harmonic === undefined;
+}
+
+/**
+ * Wheel coordinates with the dial's factor applied
+ */
+export function applyDialCoordinates(coordinates: WheelCoordinates, dial: DialOptions): WheelCoordinates {
+  return { ...coordinates, span: coordinates.span / getDialFactor(dial) };
+}
+
+/**
+ * Signed distance from one longitude to another along the shortest arc
+ */
+function separation(fromLon: number, toLon: number): number {
+  const delta = (((toLon - fromLon) % 360) + 360) % 360;
+  return delta > 180 ? delta - 360 : delta;
+}
+
+interface DialObject {
+  layerId: string;
+  objectId: string;
+  lon: number;
+  speedLon: number;
+}
+
+/**
+ * Separation that aspects found on the dial are multiples of. Dials read pairs half the dial apart as well as
+ * conjunct, so a 90° dial finds conjunctions, semisquares, squares, sesquiquadrates and oppositions.
+ * Harmonic charts find the aspects that become conjunctions: multiples of 360° / harmonic.
+ */
+function getDialAspectStep(dial: DialOptions): number {
+  const factor = getDialFactor(dial);
+  return isDialScale(dial) ? 360 / (factor * 2) : 360 / factor;
+}
+
+/**
+ * Find the aspects that show up on the dial: pairs of planets whose separation is within the orb of a multiple of
+ * the dial's aspect step (45° on a 90° dial, 22.5° on a 45° dial, 360° / harmonic on harmonic charts)
+ */
+export function findDialAspects(renderData: RenderResponse, dial: DialOptions): Record<string, AspectSetDTO> {
+  const orb = dial.orb ?? DEFAULT_DIAL_ORB;
+  const step = getDialAspectStep(dial);
+
+  const objects: DialObject[] = Object.values(renderData.layers).flatMap((layer) =>
+    Object.entries(layer.positions.planets).map(([objectId, position]) => ({
+      layerId: layer.id,
+      objectId,
+      lon: position.lon,
+      speedLon: position.speedLon ?? 0,
+    }))
+  );
+
+  const sets: Record<string, AspectSetDTO> = {};
+  objects.forEach((from, index) => {
+    for (const to of objects.slice(index + 1)) {
+      const distance = Math.abs(separation(from.lon, to.lon));
+      const exactAngle = Math.round(distance / step) * step;
+      const aspectOrb = distance - exactAngle;
+      if (Math.abs(aspectOrb) > orb) continue;
+
+      // Applying when the orb shrinks as the planets move on
+      const later = Math.abs(separation(from.lon + from.speedLon * 0.01, to.lon + to.speedLon * 0.01));
+      const laterOrb = later - exactAngle;
+
+      const interLayer = from.layerId !== to.layerId;
+      const setId = interLayer ? `dial:${from.layerId}:${to.layerId}` : `dial:${from.layerId}`;
+      if (!sets[setId]) {
+        sets[setId] = {
+          id: setId,
+          label: 'Dial aspects',
+          kind: interLayer ? 'inter_layer' : 'intra_layer',
+          layerIds: interLayer ? [from.layerId, to.layerId] : [from.layerId],
+          pairs: [],
+        };
+      }
+
+      const pair: AspectPairDTO = {
+        id: `dial:${from.layerId}:${from.objectId}:${to.layerId}:${to.objectId}`,
+        from: { layerId: from.layerId, objectType: 'planet', objectId: from.objectId },
+        to: { layerId: to.layerId, objectType: 'planet', objectId: to.objectId },
+        aspect: {
+          type: aspectNames[Math.round(exactAngle * 100) / 100] ?? 'dial',
+          exactAngle,
+          orb: aspectOrb,
+          isApplying: Math.abs(laterOrb) < Math.abs(aspectOrb),
+          isExact: Math.abs(aspectOrb) < 1 / 60,
+        },
+      };
+      sets[setId].pairs.push(pair);
+    }
+  });
+  return sets;
+}
+
+/**
+ * Render data for drawing a dial: the dial's aspects replace the chart's, with orbs scaled to the dial's orb
+ */
+export function applyDialAspects(renderData: RenderResponse, dial: DialOptions): RenderResponse {
+  const sets = findDialAspects(renderData, dial);
+  const orb = dial.orb ?? DEFAULT_DIAL_ORB;
+  const types = new Set(Object.values(sets).flatMap((set) => set.pairs.map((pair) => pair.aspect.type)));
+  return {
+    ...renderData,
+    settings: {
+      ...renderData.settings,
+      orbSettings: Object.fromEntries(Array.from(types, (type) => [type, orb])),
+    },
+    aspects: { sets },
+    wheel: {
+      ...renderData.wheel,
+      // Aspect rings list the chart's own aspects, which don't apply on the dial
+      rings: renderData.wheel.rings.map((ring) =>
+        ring.items?.some((item) => item.kind === 'aspect')
+          ? { ...ring, items: ring.items.filter((item) => item.kind !== 'aspect') }
+          : ring
+      ),
+    },
+  };
+}
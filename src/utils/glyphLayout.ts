@@ -0,0 +1,141 @@
+/**
+ * Options for spreading crowded planet glyphs apart
+ */
+export interface GlyphLayoutOptions {
+  /**
+   * Minimum angular distance between two glyphs on the same radius, in degrees (default: 7)
+   */
+  minSpacing?: number;
+  /**
+   * Widest a cluster may be spread, in degrees, before glyphs are stacked at different radii (default: 36)
+   */
+  maxSpread?: number;
+  /**
+   * Maximum number of radial levels glyphs may be stacked on (default: 3)
+   */
+  maxStackLevels?: number;
+}
+
+export interface GlyphLayoutInput {
+  id: string;
+  lon: number;
+}
+
+export interface GlyphPlacement {
+  id: string;
+  /**
+   * True longitude of the object
+   */
+  lon: number;
+  /**
+   * Longitude the glyph is drawn at
+   */
+  displayLon: number;
+  /**
+   * Radial level, 0 being the default radius
+   */
+  level: number;
+  /**
+   * Number of radial levels in use on the ring
+   */
+  levels: number;
+}
+
+const defaultGlyphLayoutOptions: Required<GlyphLayoutOptions> = {
+  minSpacing: 7,
+  maxSpread: 36,
+  maxStackLevels: 3,
+};
+
+interface Cluster {
+  members: { id: string; lon: number; unwrapped: number }[];
+  start: number;
+  end: number;
+}
+
+function normalizeLon(lon: number): number {
+  return ((lon % 360) + 360) % 360;
+}
+
+/**
+ * Spread sorted positions so neighbours are at least `spacing` apart.
+ * Overlapping neighbours are merged into clusters centred on the mean of their true positions;
+ * merging repeats until no two clusters overlap.
+ */
+function spreadClusters(sorted: { id: string; lon: number; unwrapped: number }[], spacing: number): Cluster[] {
+  const place = (members: Cluster['members']): Cluster => {
+    const center = members.reduce((sum, m) => sum + m.unwrapped, 0) / members.length;
+    const half = ((members.length - 1) * spacing) / 2;
+    return { members, start: center - half, end: center + half };
+  };
+
+  let clusters = sorted.map((member) => place([member]));
+  let merged = true;
+  while (merged) {
+    merged = false;
+    const next: Cluster[] = [];
+    for (const cluster of clusters) {
+      const previous = next[next.length - 1];
+      if (previous && cluster.start - previous.end < spacing) {
+        next[next.length - 1] = place([...previous.members, ...cluster.members]);
+        merged = true;
+      } else {
+        next.push(cluster);
+      }
+    }
+    clusters = next;
+  }
+  return clusters;
+}
+
+/**
+ * Lay out glyphs around a ring so they don't overlap.
+ * Glyphs closer than `minSpacing` are fanned out around their cluster's centre. When a cluster
+ * would have to spread wider than `maxSpread`, glyphs are alternated across radial levels, which
+ * lets neighbours sit closer together.
+ */
+export function layoutGlyphs(items: GlyphLayoutInput[], options: GlyphLayoutOptions = {}): GlyphPlacement[] {
+  if (items.length === 0) return [];
+  const { minSpacing, maxSpread, maxStackLevels } = { ...defaultGlyphLayoutOptions, ...options };
+
+  // Unwrap the circle at the widest gap between neighbours, so no cluster straddles the cut
+  const sorted = items
+    .map((item) => ({ id: item.id, lon: item.lon, unwrapped: normalizeLon(item.lon) }))
+    .sort((a, b) => a.unwrapped - b.unwrapped);
+  let cut = 0;
+  let widestGap = -1;
+  sorted.forEach((item, index) => {
+    const next = sorted[(index + 1) % sorted.length];
+    const gap = normalizeLon(next.unwrapped - item.unwrapped) || (sorted.length === 1 ? 360 : 0);
+    if (gap > widestGap) {
+      widestGap = gap;
+      cut = (index + 1) % sorted.length;
+    }
+  });
+  const ordered = [...sorted.slice(cut), ...sorted.slice(0, cut)];
+  for (let i = 1; i < ordered.length; i++) {
+    while (ordered[i].unwrapped < ordered[i - 1].unwrapped) ordered[i].unwrapped += 360;
+  }
+
+  let levels = 1;
+  let clusters = spreadClusters(ordered, minSpacing);
+  while (levels < maxStackLevels && clusters.some((c) => c.end - c.start > maxSpread)) {
+    levels++;
+    clusters = spreadClusters(ordered, minSpacing / levels);
+  }
+  const spacing = minSpacing / levels;
+
+  const placements: GlyphPlacement[] = [];
+  for (const cluster of clusters) {
+    cluster.members.forEach((member, index) => {
+      placements.push({
+        id: member.id,
+        lon: member.lon,
+        displayLon: normalizeLon(cluster.start + index * spacing),
+        level: cluster.members.length > 1 ? index % levels : 0,
+        levels,
+      });
+    });
+  }
+  return placements;
+}
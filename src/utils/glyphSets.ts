@@ -0,0 +1,143 @@
+import { GlyphConfig } from '@gaia-tools/aphrodite';
+import { getObjectInfo, getSignName } from './chartWheelHelpers';
+
+/**
+ * A glyph: a Unicode string, SVG path data, or a reference to an SVG <symbol>
+ */
+export type GlyphSource =
+  | string
+  | {
+      /**
+       * Path data drawn in a square of `size` units (default: 100), centred on the glyph's position
+       */
+      path: string;
+      size?: number;
+      /**
+       * Draw the path as an outline in the glyph colour rather than filling it (default: false)
+       */
+      stroke?: boolean;
+    }
+  | {
+      /**
+       * Id of a <symbol> (without "#"), drawn with <use> in a square the size of the glyph
+       */
+      symbol: string;
+      /**
+       * The symbol's path data, in a square of `size` units (default: 100). Charts then define the symbol
+       * themselves; without it the symbol has to be on the page, and server-rendered charts can't draw it.
+       */
+      path?: string;
+      size?: number;
+    };
+
+/**
+ * Glyphs keyed by id rather than index: signs by name ("aries"), objects by object id ("sun", "chiron",
+ * "north_node") and aspects by type ("trine"). Anything missing falls back to the glyph config.
+ */
+export interface GlyphSet {
+  signs?: Record<string, GlyphSource>;
+  objects?: Record<string, GlyphSource>;
+  aspects?: Record<string, GlyphSource>;
+}
+
+const outline = (path: string): GlyphSource => ({ path, stroke: true });
+
+/**
+ * Line-art glyphs drawn the same in every browser and font, in a 100 × 100 square
+ */
+const svgGlyphSet: GlyphSet = {
+  signs: {
+    aries: outline('M50 90V40M50 40C50 10 14 6 14 34M50 40C50 10 86 6 86 34'),
+    taurus: outline('M26 62A24 24 0 1 0 74 62A24 24 0 1 0 26 62M14 14C20 38 80 38 86 14'),
+    gemini: outline('M20 12C40 20 60 20 80 12M20 88C40 80 60 80 80 88M36 17V83M64 17V83'),
+    cancer: outline(
+      'M20 36A10 10 0 1 0 40 36A10 10 0 1 0 20 36M84 34C70 16 32 14 20 36M60 64A10 10 0 1 0 80 64A10 10 0 1 0 60 64M16 66C30 84 68 86 80 64'
+    ),
+    leo: outline('M16 64A12 12 0 1 0 40 64A12 12 0 1 0 16 64M40 64C40 40 30 30 36 20C44 6 70 8 72 26C74 44 56 56 60 76C62 88 78 90 86 80'),
+    virgo: outline('M12 26C18 20 22 26 22 32V84M22 36C22 20 42 20 42 36V84M42 36C42 20 62 20 62 36V84M62 56C74 44 88 50 84 64C80 76 70 84 58 92'),
+    libra: outline('M12 82H88M12 64H34C26 56 24 44 30 36C38 24 62 24 70 36C76 44 74 56 66 64H88'),
+    scorpio: outline('M12 26C18 20 22 26 22 32V82M22 36C22 20 42 20 42 36V82M42 36C42 20 62 20 62 36V76C62 86 70 88 78 84L88 76M78 70L88 76L84 88'),
+    sagittarius: outline('M16 84L84 16M56 16H84V44M30 46L54 70'),
+    capricorn: outline('M12 22L28 70L44 22V70C44 90 66 92 72 78C78 64 62 54 54 66C48 76 56 90 70 92'),
+    aquarius: outline('M10 42L26 30L42 42L58 30L74 42L90 30M10 72L26 60L42 72L58 60L74 72L90 60'),
+    pisces: outline('M22 10C44 34 44 66 22 90M78 10C56 34 56 66 78 90M20 50H80'),
+  },
+  objects: {
+    sun: outline('M88 50A38 38 0 1 1 12 50A38 38 0 1 1 88 50ZM54 50A4 4 0 1 1 46 50A4 4 0 1 1 54 50Z'),
+    moon: outline('M60 10A40 40 0 1 0 60 90A46 46 0 0 1 60 10Z'),
+    mercury: outline('M34 8A18 18 0 0 0 66 8M32 40A18 18 0 1 0 68 40A18 18 0 1 0 32 40M50 58V94M36 78H64'),
+    venus: outline('M26 36A24 24 0 1 0 74 36A24 24 0 1 0 26 36M50 60V94M34 78H66'),
+    mars: outline('M14 60A26 26 0 1 0 66 60A26 26 0 1 0 14 60M59 41L88 12M62 12H88V38'),
+    jupiter: outline('M20 28C20 8 52 8 52 28C52 44 30 56 18 66H86M68 14V92'),
+    saturn: outline('M30 10V70M18 22H44M30 46C36 34 66 32 66 52C66 66 48 72 52 88C54 94 62 94 66 90'),
+    uranus: outline('M22 10V50M78 10V50M22 30H78M50 10V62M36 76A14 14 0 1 0 64 76A14 14 0 1 0 36 76'),
+    neptune: outline('M18 14C18 52 82 52 82 14M50 10V92M34 76H66'),
+    pluto: outline('M38 24A12 12 0 1 0 62 24A12 12 0 1 0 38 24M22 20A28 28 0 0 0 78 20M50 48V92M34 76H66'),
+    chiron: outline('M50 10V70M50 36L72 14M50 36L72 58M40 80A10 10 0 1 0 60 80A10 10 0 1 0 40 80'),
+    north_node: outline(
+      'M26 68C6 40 26 14 50 14C74 14 94 40 74 68M18 76A8 8 0 1 0 34 76A8 8 0 1 0 18 76M66 76A8 8 0 1 0 82 76A8 8 0 1 0 66 76'
+    ),
+    south_node: outline(
+      'M26 32C6 60 26 86 50 86C74 86 94 60 74 32M18 24A8 8 0 1 0 34 24A8 8 0 1 0 18 24M66 24A8 8 0 1 0 82 24A8 8 0 1 0 66 24'
+    ),
+  },
+  aspects: {
+    conjunction: outline('M18 60A22 22 0 1 0 62 60A22 22 0 1 0 18 60M56 44L86 14'),
+    opposition: outline('M14 26A12 12 0 1 0 38 26A12 12 0 1 0 14 26M62 74A12 12 0 1 0 86 74A12 12 0 1 0 62 74M34 34L66 66'),
+    trine: outline('M50 14L88 80H12Z'),
+    square: outline('M18 18H82V82H18Z'),
+    sextile: outline('M50 10V90M15 30L85 70M15 70L85 30'),
+    semisextile: outline('M20 16H80M22 84L50 22L78 84'),
+    quincunx: outline('M20 84H80M22 16L50 78L78 16'),
+    semisquare: outline('M82 22L18 80H86'),
+    sesquiquadrate: outline('M14 52H48V86H14ZM48 52L86 16M48 52H88'),
+  },
+};
+
+const glyphSets = new Map<string, GlyphSet>([['svg', svgGlyphSet]]);
+
+/**
+ * Register a glyph set, or replace one, for use as the `glyphSet` option
+ */
+export function registerGlyphSet(name: string, glyphSet: GlyphSet): void {
+  glyphSets.set(name, glyphSet);
+}
+
+/**
+ * A glyph set by name ('svg' is built in), or the set itself. Unknown names give no set (the glyph config is used).
+ */
+export function resolveGlyphSet(glyphSet?: string | GlyphSet): GlyphSet | null {
+  if (!glyphSet) return null;
+  return typeof glyphSet === 'string' ? (glyphSets.get(glyphSet) ?? null) : glyphSet;
+}
+
+/**
+ * Glyph of a sign (0 = Aries): from the glyph set, else the glyph config
+ */
+export function getSignGlyph(signIndex: number, glyphSet: GlyphSet | null, glyphConfig: GlyphConfig): GlyphSource | null {
+  const signName = getSignName(signIndex)?.toLowerCase();
+  return (signName ? glyphSet?.signs?.[signName] : undefined) ?? glyphConfig.signGlyphs?.[signIndex] ?? null;
+}
+
+/**
+ * Glyph of a chart object: from the glyph set, else the configured planet glyph or the object's own glyph
+ */
+export function getObjectGlyph(
+  objectId: string,
+  glyphSet: GlyphSet | null,
+  glyphConfig: GlyphConfig
+): GlyphSource | null {
+  const objectInfo = getObjectInfo(objectId);
+  return (
+    glyphSet?.objects?.[objectId.toLowerCase()] ||
+    (objectInfo.index !== null ? glyphConfig.planetGlyphs?.[objectInfo.index] : undefined) ||
+    objectInfo.glyph
+  );
+}
+
+/**
+ * Glyph of an aspect type: from the glyph set, else the glyph config
+ */
+export function getAspectGlyph(type: string, glyphSet: GlyphSet | null, glyphConfig: GlyphConfig): GlyphSource | null {
+  return glyphSet?.aspects?.[type] ?? glyphConfig.aspectGlyphs?.[type] ?? null;
+}
@@ -0,0 +1,134 @@
+import { RenderResponse, IndexesDTO, RingItemDTO, RingDTO, AspectPairDTO, AspectObjectRef } from '@gaia-tools/iris-core';
+import { deriveLogicalIdFromRingItem, logicalIdFromAspectRef } from './buildIndexes';
+import { isInterLayerAspect } from './aspects';
+import { formatDegreesMinutes, formatSignDegreesMinutes, getObjectInfo, getSignName } from './chartWheelHelpers';
+import { toZodiacLon } from './zodiac';
+
+/**
+ * Objects and aspects to emphasise on the wheel; everything else is dimmed
+ */
+export interface ChartHighlight {
+  /**
+   * Logical ids ("${layerId}:${objectType}:${objectId}") of the objects to highlight on every ring
+   */
+  logicalIds: string[];
+  aspectIds: string[];
+}
+
+/**
+ * Text shown in the hover tooltip
+ */
+export interface TooltipContent {
+  title: string;
+  details: string[];
+  aspects: string[];
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+/**
+ * Sign and degree within the sign, e.g. "Capricorn 10°30'"
+ */
+export function formatSignPosition(lon: number): string {
+  const signName = getSignName(Math.floor((((lon % 360) + 360) % 360) / 30));
+  return `${signName ?? ''} ${formatSignDegreesMinutes(lon)}`.trim();
+}
+
+/**
+ * Label for an aspect endpoint, prefixed with its layer when the aspect crosses layers
+ */
+function getRefLabel(ref: AspectObjectRef, renderData: RenderResponse, withLayer: boolean): string {
+  const label = getObjectInfo(ref.objectId).label;
+  const layerLabel = renderData.layers[ref.layerId]?.label;
+  return withLayer && layerLabel ? `${layerLabel} ${label}` : label;
+}
+
+/**
+ * Highlight for hovering an item: every occurrence of its logical object across rings, plus its aspects
+ */
+export function getItemHighlight(item: RingItemDTO, ring: RingDTO, indexes: IndexesDTO): ChartHighlight | null {
+  const logicalId = deriveLogicalIdFromRingItem(ring, item);
+  if (!logicalId) return null;
+  return { logicalIds: [logicalId], aspectIds: indexes.aspectsByObjectLogicalId[logicalId] ?? [] };
+}
+
+/**
+ * Highlight for hovering an aspect: the line and both of its objects
+ */
+export function getAspectHighlight(aspect: AspectPairDTO): ChartHighlight {
+  return {
+    logicalIds: [logicalIdFromAspectRef(aspect.from), logicalIdFromAspectRef(aspect.to)],
+    aspectIds: [aspect.id],
+  };
+}
+
+/**
+ * Describe an aspect from the point of view of one of its objects, e.g. "Trine Moon (0°15')"
+ */
+function describeAspectFrom(aspect: AspectPairDTO, logicalId: string, renderData: RenderResponse): string {
+  const other = logicalIdFromAspectRef(aspect.from) === logicalId ? aspect.to : aspect.from;
+  const otherLabel = getRefLabel(other, renderData, isInterLayerAspect(aspect));
+  return `${capitalize(aspect.aspect.type)} ${otherLabel} (${formatDegreesMinutes(Math.abs(aspect.aspect.orb))})`;
+}
+
+/**
+ * Tooltip text for a ring item: sign and degree, house, retrograde flag and aspects
+ */
+export function describeItem(
+  item: RingItemDTO,
+  ring: RingDTO,
+  renderData: RenderResponse,
+  indexes: IndexesDTO
+): TooltipContent {
+  const logicalId = deriveLogicalIdFromRingItem(ring, item);
+  const aspects = logicalId
+    ? (indexes.aspectsByObjectLogicalId[logicalId] ?? [])
+        .map((aspectId) => indexes.aspectById[aspectId])
+        .filter((aspect): aspect is AspectPairDTO => !!aspect)
+        .map((aspect) => describeAspectFrom(aspect, logicalId, renderData))
+    : [];
+
+  switch (item.kind) {
+    case 'planet': {
+      const label = getObjectInfo(item.planetId).label;
+      const layerLabel = renderData.layers[item.layerId]?.label;
+      const details = [formatSignPosition(toZodiacLon(item.lon, renderData))];
+      if (item.houseIndex) details.push(`House ${item.houseIndex}`);
+      if (item.retrograde) details.push('Retrograde');
+      return {
+        title: Object.keys(renderData.layers).length > 1 && layerLabel ? `${layerLabel} ${label}` : label,
+        details,
+        aspects,
+      };
+    }
+    case 'houseCusp':
+      return {
+        title: `House ${item.houseIndex}`,
+        details: [formatSignPosition(toZodiacLon(item.lon, renderData))],
+        aspects,
+      };
+    case 'sign':
+      return {
+        title: item.label || item.id,
+        details: [`${formatDegreesMinutes(item.startLon)} – ${formatDegreesMinutes(item.endLon)}`],
+        aspects: [],
+      };
+    default:
+      return { title: item.id, details: [], aspects: [] };
+  }
+}
+
+/**
+ * Tooltip text for an aspect line
+ */
+export function describeAspect(aspect: AspectPairDTO, renderData: RenderResponse): TooltipContent {
+  const withLayer = isInterLayerAspect(aspect);
+  const { type, orb, isExact, isApplying } = aspect.aspect;
+  return {
+    title: `${getRefLabel(aspect.from, renderData, withLayer)} ${type} ${getRefLabel(aspect.to, renderData, withLayer)}`,
+    details: [`Orb ${formatDegreesMinutes(Math.abs(orb))}`, isExact ? 'Exact' : isApplying ? 'Applying' : 'Separating'],
+    aspects: [],
+  };
+}
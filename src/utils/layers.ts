@@ -0,0 +1,101 @@
+import { RenderResponse, RingDTO } from '@gaia-tools/iris-core';
+
+/**
+ * Per-layer styling overrides for multi-layer (bi-wheel / tri-wheel) charts
+ */
+export interface LayerStyle {
+  /**
+   * Colour for the layer's planet glyphs and ring band. Leave unset to use the per-planet colours.
+   */
+  color?: string;
+  /**
+   * Legend label (defaults to the layer's label from the render data)
+   */
+  label?: string;
+  /**
+   * Multiplier for glyph size on the layer's planet ring (default: 1)
+   */
+  glyphScale?: number;
+}
+
+export interface ResolvedLayerStyle {
+  layerId: string;
+  label: string;
+  color: string | null;
+  glyphScale: number;
+}
+
+/**
+ * Default colours for secondary layers, by layer kind
+ */
+const defaultLayerKindColors: Record<string, string> = {
+  transit: '#48C9B0',
+  progressed: '#AF7AC5',
+  synastry: '#EC7063',
+  partner: '#EC7063',
+  composite: '#F5B041',
+};
+
+/**
+ * Fallback colours for secondary layers of other kinds, assigned in order
+ */
+const fallbackLayerColors = ['#5DADE2', '#F5B041', '#EC7063', '#AF7AC5', '#48C9B0'];
+
+/**
+ * Get the layer a ring's items belong to, if the ring is bound to a layer
+ */
+export function getRingLayerId(ring: RingDTO): string | null {
+  if (ring.dataSource && (ring.dataSource.kind === 'layer_planets' || ring.dataSource.kind === 'layer_houses')) {
+    return ring.dataSource.layerId;
+  }
+  const planet = ring.items?.find((item) => item.kind === 'planet');
+  return planet && planet.kind === 'planet' ? planet.layerId : null;
+}
+
+/**
+ * Layers that have a planet ring on the wheel, in ring order
+ */
+export function getPlanetRingLayerIds(renderData: RenderResponse): string[] {
+  const layerIds: string[] = [];
+  for (const ring of renderData.wheel.rings) {
+    const isPlanetRing =
+      ring.dataSource?.kind === 'layer_planets' || ring.items?.some((item) => item.kind === 'planet');
+    if (!isPlanetRing) continue;
+    const layerId = getRingLayerId(ring);
+    if (layerId && !layerIds.includes(layerId)) layerIds.push(layerId);
+  }
+  return layerIds;
+}
+
+/**
+ * Resolve the style of every layer drawn on a planet ring.
+ * The first layer keeps the per-planet colours; further layers each get a distinguishing colour.
+ */
+export function resolveLayerStyles(
+  renderData: RenderResponse,
+  overrides: Record<string, LayerStyle> = {}
+): Record<string, ResolvedLayerStyle> {
+  const styles: Record<string, ResolvedLayerStyle> = {};
+  let fallbackIndex = 0;
+
+  getPlanetRingLayerIds(renderData).forEach((layerId, index) => {
+    const layer = renderData.layers[layerId];
+    const override = overrides[layerId] ?? {};
+
+    let color: string | null = override.color ?? null;
+    if (!color && index > 0) {
+      color =
+        (layer && defaultLayerKindColors[layer.kind]) ??
+        fallbackLayerColors[fallbackIndex++ % fallbackLayerColors.length];
+    }
+
+    styles[layerId] = {
+      layerId,
+      label: override.label ?? layer?.label ?? layerId,
+      color,
+      glyphScale: override.glyphScale ?? 1,
+    };
+  });
+
+  return styles;
+}
@@ -0,0 +1,186 @@
+import { VisualConfig } from '@gaia-tools/aphrodite';
+import { RenderResponse, AspectPairDTO, RingDTO, HouseRingItem } from '@gaia-tools/iris-core';
+import { getRingLayerId } from './layers';
+
+/**
+ * Kind of chart object, for grouping and for showing or hiding them together
+ */
+export type ObjectCategory = 'planet' | 'asteroid' | 'point' | 'lot' | 'star' | 'angle';
+
+/**
+ * Display metadata of a chart object
+ */
+export interface ChartObjectDefinition {
+  label: string;
+  /**
+   * Unicode glyph (default: none, the object is drawn as a dot and listed by label)
+   */
+  glyph?: string | null;
+  /**
+   * Colour of the object's glyph. Planets take theirs from the visual config's planetColors first.
+   */
+  color?: string;
+  category: ObjectCategory;
+}
+
+/**
+ * Show or hide objects by category, e.g. { star: false }. Categories left out are shown.
+ */
+export type ObjectCategoryVisibility = Partial<Record<ObjectCategory, boolean>>;
+
+/**
+ * Planets in VisualConfig.planetColors and GlyphConfig.planetGlyphs order
+ */
+const planetIds = ['sun', 'moon', 'mercury', 'venus', 'mars', 'jupiter', 'saturn', 'uranus', 'neptune', 'pluto'];
+
+const objects = new Map<string, ChartObjectDefinition>([
+  ['sun', { label: 'Sun', glyph: '☉', category: 'planet' }],
+  ['moon', { label: 'Moon', glyph: '☽', category: 'planet' }],
+  ['mercury', { label: 'Mercury', glyph: '☿', category: 'planet' }],
+  ['venus', { label: 'Venus', glyph: '♀', category: 'planet' }],
+  ['mars', { label: 'Mars', glyph: '♂', category: 'planet' }],
+  ['jupiter', { label: 'Jupiter', glyph: '♃', category: 'planet' }],
+  ['saturn', { label: 'Saturn', glyph: '♄', category: 'planet' }],
+  ['uranus', { label: 'Uranus', glyph: '♅', category: 'planet' }],
+  ['neptune', { label: 'Neptune', glyph: '♆', category: 'planet' }],
+  ['pluto', { label: 'Pluto', glyph: '♇', category: 'planet' }],
+  ['chiron', { label: 'Chiron', glyph: '⚷', category: 'asteroid' }],
+  ['ceres', { label: 'Ceres', glyph: '⚳', color: '#9CCC65', category: 'asteroid' }],
+  ['pallas', { label: 'Pallas', glyph: '⚴', color: '#4FC3F7', category: 'asteroid' }],
+  ['juno', { label: 'Juno', glyph: '⚵', color: '#F06292', category: 'asteroid' }],
+  ['vesta', { label: 'Vesta', glyph: '⚶', color: '#FF8A65', category: 'asteroid' }],
+  ['north_node', { label: 'North Node', glyph: '☊', category: 'point' }],
+  ['south_node', { label: 'South Node', glyph: '☋', category: 'point' }],
+  ['lilith', { label: 'Lilith', glyph: '⚸', color: '#9575CD', category: 'point' }],
+  ['vertex', { label: 'Vertex', glyph: 'Vx', category: 'point' }],
+  ['part_of_fortune', { label: 'Part of Fortune', glyph: '⊗', color: '#FFD54F', category: 'lot' }],
+  ['regulus', { label: 'Regulus', glyph: '★', color: '#B0BEC5', category: 'star' }],
+  ['spica', { label: 'Spica', glyph: '★', color: '#B0BEC5', category: 'star' }],
+  ['aldebaran', { label: 'Aldebaran', glyph: '★', color: '#B0BEC5', category: 'star' }],
+  ['antares', { label: 'Antares', glyph: '★', color: '#B0BEC5', category: 'star' }],
+  ['algol', { label: 'Algol', glyph: '★', color: '#B0BEC5', category: 'star' }],
+  ['asc', { label: 'Asc', glyph: 'Asc', category: 'angle' }],
+  ['mc', { label: 'MC', glyph: 'MC', category: 'angle' }],
+  ['ic', { label: 'IC', glyph: 'IC', category: 'angle' }],
+  ['dc', { label: 'DC', glyph: 'DC', category: 'angle' }],
+]);
+
+/**
+ * Register a chart object, or replace a built-in one, by its id in the payload (case-insensitive)
+ */
+export function registerObject(objectId: string, definition: ChartObjectDefinition): void {
+  objects.set(objectId.toLowerCase(), definition);
+}
+
+/**
+ * Metadata of a registered object, or null for objects the registry doesn't know
+ */
+export function getObjectDefinition(objectId: string): ChartObjectDefinition | null {
+  return objects.get(objectId.toLowerCase()) ?? null;
+}
+
+/**
+ * Ids of the registered objects, optionally of one category
+ */
+export function getObjectIds(category?: ObjectCategory): string[] {
+  return Array.from(objects.entries())
+    .filter(([, definition]) => !category || definition.category === category)
+    .map(([objectId]) => objectId);
+}
+
+/**
+ * Index of a planet in planetColors and planetGlyphs (0 = Sun … 9 = Pluto), null for other objects
+ */
+export function getPlanetIndex(objectId: string): number | null {
+  const index = planetIds.indexOf(objectId.toLowerCase());
+  return index >= 0 ? index : null;
+}
+
+/**
+ * Colour of an object: the planet colour from the visual config, else the registered colour
+ */
+export function getObjectColor(objectId: string, config: VisualConfig): string | undefined {
+  const planetIndex = getPlanetIndex(objectId);
+  return (planetIndex !== null ? config.planetColors?.[planetIndex] : undefined) || getObjectDefinition(objectId)?.color;
+}
+
+/**
+ * Whether an object is shown. Objects the registry doesn't know are always shown.
+ */
+export function isObjectVisible(objectId: string, visibility: ObjectCategoryVisibility): boolean {
+  const category = getObjectDefinition(objectId)?.category;
+  return !category || visibility[category] !== false;
+}
+
+/**
+ * The payload without the objects of hidden categories: their planets, ring items and aspects are removed.
+ * Hidden angles also take the house cusps drawn at them (e.g. the Ascendant and MC cusps) off the wheel.
+ */
+export function filterObjectCategories(renderData: RenderResponse, visibility: ObjectCategoryVisibility): RenderResponse {
+  const isPairVisible = (pair: AspectPairDTO) =>
+    isObjectVisible(pair.from.objectId, visibility) && isObjectVisible(pair.to.objectId, visibility);
+  const hiddenAspectIds = new Set(
+    Object.values(renderData.aspects.sets).flatMap((set) => set.pairs.filter((pair) => !isPairVisible(pair)).map((pair) => pair.id))
+  );
+  const isCuspVisible = (ring: RingDTO, item: HouseRingItem) => {
+    const layerId = getRingLayerId(ring);
+    const angles = layerId ? renderData.layers[layerId]?.positions.houses?.angles : undefined;
+    return !Object.entries(angles ?? {}).some(
+      ([angleId, lon]) => !isObjectVisible(angleId, visibility) && Math.abs(lon - item.lon) < 1e-6
+    );
+  };
+
+  return {
+    ...renderData,
+    layers: Object.fromEntries(
+      Object.entries(renderData.layers).map(([layerId, layer]) => {
+        const { houses } = layer.positions;
+        return [
+          layerId,
+          {
+            ...layer,
+            positions: {
+              ...layer.positions,
+              planets: Object.fromEntries(
+                Object.entries(layer.positions.planets).filter(([objectId]) => isObjectVisible(objectId, visibility))
+              ),
+              houses: houses && {
+                ...houses,
+                angles: Object.fromEntries(
+                  Object.entries(houses.angles ?? {}).filter(([angleId]) => isObjectVisible(angleId, visibility))
+                ),
+              },
+            },
+          },
+        ];
+      })
+    ),
+    aspects: {
+      sets: Object.fromEntries(
+        Object.entries(renderData.aspects.sets).map(([setId, set]) => [setId, { ...set, pairs: set.pairs.filter(isPairVisible) }])
+      ),
+    },
+    wheel: {
+      ...renderData.wheel,
+      rings: renderData.wheel.rings.map((ring) =>
+        ring.items
+          ? {
+              ...ring,
+              items: ring.items.filter((item) => {
+                switch (item.kind) {
+                  case 'planet':
+                    return isObjectVisible(item.planetId, visibility);
+                  case 'houseCusp':
+                    return isCuspVisible(ring, item);
+                  case 'aspect':
+                    return !hiddenAspectIds.has(item.aspectId);
+                  default:
+                    return true;
+                }
+              }),
+            }
+          : ring
+      ),
+    },
+  };
+}
@@ -0,0 +1,110 @@
+import { RenderResponse, LayerDTO } from '@gaia-tools/iris-core';
+import type { ViewFrame, LockRule } from '@gaia-tools/aphrodite-shared/orientation';
+import { WheelCoordinates, getWheelCoordinates } from './chartWheelHelpers';
+
+export type LockMode = LockRule['mode'];
+
+/**
+ * Groups of rendered elements that lock rules can target
+ */
+export type LockTarget = 'planets' | 'signs' | 'houses';
+
+/**
+ * Lock rule targets that apply to each element group, from least to most specific
+ */
+const lockTargetAliases: Record<LockTarget, string[]> = {
+  planets: ['all', 'glyphs', 'planets', 'planetGlyphs'],
+  signs: ['all', 'glyphs', 'signs', 'signGlyphs'],
+  houses: ['all', 'labels', 'houses', 'houseNumbers'],
+};
+
+/**
+ * Pick the layer an anchor refers to: the requested one, or the first layer that has the data
+ */
+function findLayer(
+  renderData: RenderResponse,
+  layerId: string | undefined,
+  hasData: (layer: LayerDTO) => boolean
+): LayerDTO | undefined {
+  if (layerId) return renderData.layers[layerId];
+  return Object.values(renderData.layers).find(hasData);
+}
+
+/**
+ * Resolve the ecliptic longitude a ViewFrame is anchored to
+ */
+export function resolveAnchorLon(anchor: ViewFrame['anchor'], renderData: RenderResponse): number | null {
+  switch (anchor.kind) {
+    case 'longitude':
+      return anchor.lon;
+
+    case 'angle': {
+      const layer = findLayer(renderData, anchor.layerId, (l) => l.positions.houses?.angles?.[anchor.angle] !== undefined);
+      return layer?.positions.houses?.angles?.[anchor.angle] ?? null;
+    }
+
+    case 'object': {
+      const layer = findLayer(renderData, anchor.layerId, (l) => l.positions.planets[anchor.objectId] !== undefined);
+      return layer?.positions.planets[anchor.objectId]?.lon ?? null;
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Rotation offset that places the frame's anchor at its screen angle.
+ * Screen angles are measured clockwise from the top (0° = 12 o'clock, 270° = 9 o'clock).
+ * Returns 0 if the anchor can't be resolved from the render data.
+ */
+export function getViewFrameRotation(
+  frame: ViewFrame,
+  renderData: RenderResponse,
+  coordinates: WheelCoordinates = getWheelCoordinates(renderData)
+): number {
+  const anchorLon = resolveAnchorLon(frame.anchor, renderData);
+  if (anchorLon === null) return 0;
+  // A longitude lands at screen angle 90 ∓ (scaled lon + rotationOffset), see astroToSvgAngle
+  const { direction, span } = coordinates;
+  const wheelAngle = (anchorLon * 360) / span;
+  return direction === 'cw' ? frame.screenAngle - 90 - wheelAngle : 90 - frame.screenAngle - wheelAngle;
+}
+
+/**
+ * Resolve how elements of a target group are oriented. The last matching rule wins;
+ * without a matching rule elements stay upright.
+ */
+export function getLockMode(locks: LockRule[] | undefined, target: LockTarget): LockMode {
+  const aliases = lockTargetAliases[target];
+  let mode: LockMode = 'upright';
+  for (const lock of locks ?? []) {
+    if (aliases.includes(lock.target)) {
+      mode = lock.mode;
+    }
+  }
+  return mode;
+}
+
+/**
+ * Rotation (in degrees, clockwise) to apply to an element at the given screen angle.
+ * 'radial' text reads outwards along the radius, 'tangential' text follows the circle.
+ * Either is flipped where it would otherwise be upside down.
+ */
+export function getLockRotation(mode: LockMode, screenAngle: number): number {
+  let rotation: number;
+  switch (mode) {
+    case 'radial':
+      rotation = screenAngle - 90;
+      break;
+    case 'tangential':
+      rotation = screenAngle;
+      break;
+    default:
+      return 0;
+  }
+
+  rotation = ((rotation % 360) + 360) % 360;
+  if (rotation > 90 && rotation < 270) rotation -= 180;
+  return rotation > 180 ? rotation - 360 : rotation;
+}
@@ -0,0 +1,78 @@
+import { PlanetRingItem } from '@gaia-tools/iris-core';
+
+/**
+ * Options for the motion markers drawn on planet glyphs
+ */
+export interface PlanetMotionOptions {
+  /**
+   * Mark retrograde planets with ℞ (default: true)
+   */
+  retrograde?: boolean;
+  /**
+   * Mark planets that are stationary, i.e. barely moving, with an S (default: false)
+   */
+  stationary?: boolean;
+  /**
+   * Daily motion in degrees below which a planet counts as stationary
+   * (default: a tenth of the planet's mean daily motion, e.g. 0.1° for the Sun and 0.0006° for Neptune)
+   */
+  stationaryThreshold?: number;
+  /**
+   * Draw a tick at the planet's longitude pointing in its direction of motion,
+   * longer the faster it moves compared to its mean daily motion (default: false)
+   */
+  speed?: boolean;
+}
+
+export interface PlanetMotion {
+  retrograde: boolean;
+  stationary: boolean;
+  /**
+   * 1 when moving forward through the zodiac, -1 when retrograde
+   */
+  direction: 1 | -1;
+  /**
+   * Speed relative to the planet's mean daily motion, capped at 2
+   */
+  relativeSpeed: number;
+}
+
+/**
+ * Fraction of a planet's mean daily motion below which it counts as stationary
+ */
+const DEFAULT_STATIONARY_FRACTION = 0.1;
+const MAX_RELATIVE_SPEED = 2;
+
+/**
+ * Mean daily motion in longitude, in degrees
+ */
+const meanDailyMotion: Record<string, number> = {
+  sun: 0.9856,
+  moon: 13.1764,
+  mercury: 1.383,
+  venus: 1.2,
+  mars: 0.524,
+  jupiter: 0.0831,
+  saturn: 0.0335,
+  uranus: 0.0117,
+  neptune: 0.006,
+  pluto: 0.004,
+  chiron: 0.0196,
+  north_node: 0.053,
+  south_node: 0.053,
+};
+
+/**
+ * Work out how a planet is moving from its speed in longitude
+ */
+export function getPlanetMotion(item: PlanetRingItem, options: PlanetMotionOptions = {}): PlanetMotion {
+  const speed = Math.abs(item.speedLon);
+  const mean = meanDailyMotion[item.planetId.toLowerCase()] ?? 1;
+  const { stationaryThreshold = mean * DEFAULT_STATIONARY_FRACTION } = options;
+  return {
+    retrograde: item.retrograde,
+    stationary: speed < stationaryThreshold,
+    direction: item.retrograde || item.speedLon < 0 ? -1 : 1,
+    relativeSpeed: Math.min(speed / mean, MAX_RELATIVE_SPEED),
+  };
+}
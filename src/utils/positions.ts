@@ -0,0 +1,120 @@
+import { RenderResponse } from '@gaia-tools/iris-core';
+import { getObjectInfo, sortObjectIds } from './chartWheelHelpers';
+import { toZodiacLon } from './zodiac';
+
+/**
+ * A planet's row in the positions table
+ */
+export interface PlanetPosition {
+  objectId: string;
+  label: string;
+  /**
+   * Longitude in the chart's zodiac (sidereal on sidereal charts)
+   */
+  lon: number;
+  signIndex: number;
+  house: number | null;
+  /**
+   * Daily motion in longitude, in degrees
+   */
+  speed: number;
+  retrograde: boolean;
+}
+
+/**
+ * A house cusp's or angle's row in the positions table
+ */
+export interface CuspPosition {
+  /**
+   * House number ("1" to "12") or angle id ("asc", "mc", ...)
+   */
+  id: string;
+  label: string;
+  lon: number;
+  signIndex: number;
+}
+
+export interface LayerPositions {
+  layerId: string;
+  label: string;
+  planets: PlanetPosition[];
+  cusps: CuspPosition[];
+  angles: CuspPosition[];
+}
+
+function getSignIndexOf(lon: number): number {
+  return Math.floor((((lon % 360) + 360) % 360) / 30);
+}
+
+/**
+ * The house a longitude falls in, given the cusps by house number
+ */
+export function getHouseIndex(lon: number, cusps: Record<string, number>): number | null {
+  const houses = Object.keys(cusps)
+    .map(Number)
+    .filter((house) => Number.isFinite(house))
+    .sort((a, b) => a - b);
+
+  for (let index = 0; index < houses.length; index++) {
+    const start = cusps[houses[index]];
+    const end = cusps[houses[(index + 1) % houses.length]];
+    const width = (((end - start) % 360) + 360) % 360 || 360;
+    if ((((lon - start) % 360) + 360) % 360 < width) return houses[index];
+  }
+  return null;
+}
+
+/**
+ * House of a layer's planet as drawn on the wheel (transit planets in natal houses, for instance),
+ * falling back to the layer's own cusps
+ */
+function resolvePlanetHouse(renderData: RenderResponse, layerId: string, objectId: string, lon: number): number | null {
+  for (const ring of renderData.wheel.rings) {
+    for (const item of ring.items ?? []) {
+      if (item.kind === 'planet' && item.layerId === layerId && item.planetId === objectId && item.houseIndex) {
+        return item.houseIndex;
+      }
+    }
+  }
+  const cusps = renderData.layers[layerId]?.positions.houses?.cusps;
+  return cusps ? getHouseIndex(lon, cusps) : null;
+}
+
+/**
+ * Positions of each layer's planets, house cusps and angles, in the chart's zodiac
+ */
+export function buildLayerPositions(renderData: RenderResponse, layerIds?: string[]): LayerPositions[] {
+  return (layerIds ?? Object.keys(renderData.layers))
+    .map((layerId) => renderData.layers[layerId])
+    .filter((layer) => !!layer)
+    .map((layer) => {
+      const { planets, houses } = layer.positions;
+
+      const planetPositions = sortObjectIds(Object.keys(planets)).map((objectId): PlanetPosition => {
+        const position = planets[objectId];
+        const lon = toZodiacLon(position.lon, renderData);
+        return {
+          objectId,
+          label: getObjectInfo(objectId).label,
+          lon,
+          signIndex: getSignIndexOf(lon),
+          house: resolvePlanetHouse(renderData, layer.id, objectId, position.lon),
+          speed: position.speedLon,
+          retrograde: position.retrograde,
+        };
+      });
+
+      const toCusp = (id: string, label: string, cuspLon: number): CuspPosition => {
+        const lon = toZodiacLon(cuspLon, renderData);
+        return { id, label, lon, signIndex: getSignIndexOf(lon) };
+      };
+      const cusps = Object.entries(houses?.cusps ?? {})
+        .sort(([a], [b]) => Number(a) - Number(b))
+        .map(([house, lon]) => toCusp(house, `House ${house}`, lon));
+      const angles = Object.entries(houses?.angles ?? {}).map(([angle, lon]) =>
+        toCusp(angle, getObjectInfo(angle).label, lon)
+      );
+
+      return { layerId: layer.id, label: layer.label, planets: planetPositions, cusps, angles };
+    });
+}
@@ -0,0 +1,12 @@
+/**
+ * Selection after clicking an object.
+ * A plain click selects only the clicked object, or clears the selection when it is the only one selected;
+ * an additive (shift) click toggles the object in and out of the current selection.
+ */
+export function nextSelection(current: string[], id: string, additive: boolean): string[] {
+  const isSelected = current.includes(id);
+  if (additive) {
+    return isSelected ? current.filter((selectedId) => selectedId !== id) : [...current, id];
+  }
+  return isSelected && current.length === 1 ? [] : [id];
+}
@@ -0,0 +1,388 @@
+import { VisualConfig } from '@gaia-tools/aphrodite';
+
+/**
+ * Name of a built-in theme ('traditional', 'modern', 'high-contrast') or one added with registerTheme
+ */
+export type Theme = 'traditional' | 'modern' | 'high-contrast' | (string & {});
+
+export type ColorScheme = 'light' | 'dark';
+
+/**
+ * Dark mode traditional theme - warm earth tones, gold accents
+ */
+const darkTraditionalTheme: VisualConfig = {
+  signColors: [
+    '#C0392B', // Aries - deep red
+    '#D68910', // Taurus - golden brown
+    '#F39C12', // Gemini - amber
+    '#85C1E2', // Cancer - soft blue
+    '#F7DC6F', // Leo - golden yellow
+    '#82E0AA', // Virgo - sage green
+    '#F8C471', // Libra - peach
+    '#8B4513', // Scorpio - sienna
+    '#F1C40F', // Sagittarius - bright gold
+    '#5D6D7E', // Capricorn - slate gray
+    '#3498DB', // Aquarius - sky blue
+    '#9B59B6', // Pisces - lavender
+  ],
+  houseColors: [
+    '#3A3A3A', // Dark gray with warm tint
+    '#404040',
+    '#454545',
+    '#4A4A4A',
+    '#505050',
+    '#555555',
+    '#3A3A3A',
+    '#404040',
+    '#454545',
+    '#4A4A4A',
+    '#505050',
+    '#555555',
+  ],
+  planetColors: [
+    '#F39C12', // Sun - golden
+    '#F7DC6F', // Moon - pale gold
+    '#D68910', // Mercury - bronze
+    '#F8C471', // Venus - peach
+    '#C0392B', // Mars - deep red
+    '#F1C40F', // Jupiter - bright gold
+    '#5D6D7E', // Saturn - slate
+    '#85C1E2', // Uranus - sky blue
+    '#3498DB', // Neptune - blue
+    '#8B4513', // Pluto - sienna
+  ],
+  aspectColors: {
+    conjunction: '#C0392B',
+    opposition: '#3498DB',
+    trine: '#27AE60',
+    square: '#E74C3C',
+    sextile: '#F39C12',
+    semisextile: '#D68910',
+    semisquare: '#E67E22',
+    sesquiquadrate: '#E67E22',
+    quincunx: '#8B4513',
+  },
+  backgroundColor: '#1a1a1a',
+  strokeColor: '#d4af37', // Gold
+  strokeWidth: 1,
+  aspectStrokeWidth: 2,
+};
+
+/**
+ * Dark mode modern theme - cooler contemporary colors
+ */
+const darkModernTheme: VisualConfig = {
+  signColors: [
+    '#E63946', // Aries - modern red
+    '#F77F00', // Taurus - warm orange
+    '#FCBF49', // Gemini - golden yellow
+    '#06A77D', // Cancer - teal
+    '#D62828', // Leo - deep red
+    '#A8DADC', // Virgo - light blue-green
+    '#A8DADC', // Libra - light blue
+    '#457B9D', // Scorpio - blue-gray
+    '#1D3557', // Sagittarius - navy
+    '#2A2D34', // Capricorn - dark gray
+    '#4A90E2', // Aquarius - bright blue
+    '#E91E63', // Pisces - pink
+  ],
+  houseColors: [
+    '#2A2A2A', // Neutral dark grays
+    '#333333',
+    '#3A3A3A',
+    '#404040',
+    '#474747',
+    '#4D4D4D',
+    '#2A2A2A',
+    '#333333',
+    '#3A3A3A',
+    '#404040',
+    '#474747',
+    '#4D4D4D',
+  ],
+  planetColors: [
+    '#FFB800', // Sun - bright yellow
+    '#E0E0E0', // Moon - light gray
+    '#FF6B6B', // Mercury - coral
+    '#4ECDC4', // Venus - turquoise
+    '#FF4757', // Mars - red
+    '#FFA502', // Jupiter - orange
+    '#5F27CD', // Saturn - purple
+    '#00D2D3', // Uranus - cyan
+    '#3742FA', // Neptune - blue
+    '#2F3542', // Pluto - dark gray
+  ],
+  aspectColors: {
+    conjunction: '#FF4757',
+    opposition: '#4A90E2',
+    trine: '#06A77D',
+    square: '#E63946',
+    sextile: '#FCBF49',
+    semisextile: '#F77F00',
+    semisquare: '#FF6B6B',
+    sesquiquadrate: '#FF6B6B',
+    quincunx: '#5F27CD',
+  },
+  backgroundColor: '#0f0f0f',
+  strokeColor: '#e0e0e0',
+  strokeWidth: 1,
+  aspectStrokeWidth: 2,
+};
+
+/**
+ * Light traditional theme - the traditional palette deepened for a parchment background
+ */
+const lightTraditionalTheme: VisualConfig = {
+  signColors: [
+    '#A93226', // Aries - deep red
+    '#9C640C', // Taurus - golden brown
+    '#B9770E', // Gemini - amber
+    '#2E86C1', // Cancer - blue
+    '#B7950B', // Leo - dark gold
+    '#239B56', // Virgo - green
+    '#CA6F1E', // Libra - burnt peach
+    '#6E2C00', // Scorpio - sienna
+    '#B7950B', // Sagittarius - gold
+    '#34495E', // Capricorn - slate
+    '#1F618D', // Aquarius - blue
+    '#7D3C98', // Pisces - purple
+  ],
+  houseColors: [
+    '#F5EFE0', // Light parchment tints
+    '#EFE8D6',
+    '#E9E1CC',
+    '#F5EFE0',
+    '#EFE8D6',
+    '#E9E1CC',
+    '#F5EFE0',
+    '#EFE8D6',
+    '#E9E1CC',
+    '#F5EFE0',
+    '#EFE8D6',
+    '#E9E1CC',
+  ],
+  planetColors: [
+    '#B9770E', // Sun - golden
+    '#7F8C8D', // Moon - silver
+    '#9C640C', // Mercury - bronze
+    '#CA6F1E', // Venus - copper
+    '#A93226', // Mars - deep red
+    '#B7950B', // Jupiter - gold
+    '#34495E', // Saturn - slate
+    '#2E86C1', // Uranus - blue
+    '#1F618D', // Neptune - deep blue
+    '#6E2C00', // Pluto - sienna
+  ],
+  aspectColors: {
+    conjunction: '#A93226',
+    opposition: '#1F618D',
+    trine: '#1E8449',
+    square: '#C0392B',
+    sextile: '#B9770E',
+    semisextile: '#9C640C',
+    semisquare: '#CA6F1E',
+    sesquiquadrate: '#CA6F1E',
+    quincunx: '#6E2C00',
+  },
+  backgroundColor: '#FBF7EE',
+  strokeColor: '#5C4A1E', // Dark bronze
+  strokeWidth: 1,
+  aspectStrokeWidth: 2,
+};
+
+/**
+ * Light modern theme - the modern palette on white
+ */
+const lightModernTheme: VisualConfig = {
+  signColors: [
+    '#D62839', // Aries - red
+    '#E07000', // Taurus - orange
+    '#C99700', // Gemini - mustard
+    '#05866A', // Cancer - teal
+    '#B02020', // Leo - deep red
+    '#3D8B8F', // Virgo - blue-green
+    '#4F9DA6', // Libra - light teal
+    '#34607F', // Scorpio - blue-gray
+    '#1D3557', // Sagittarius - navy
+    '#2A2D34', // Capricorn - charcoal
+    '#2F75C8', // Aquarius - blue
+    '#C2185B', // Pisces - pink
+  ],
+  houseColors: [
+    '#F7F7F7', // Neutral light grays
+    '#F0F0F0',
+    '#E9E9E9',
+    '#F7F7F7',
+    '#F0F0F0',
+    '#E9E9E9',
+    '#F7F7F7',
+    '#F0F0F0',
+    '#E9E9E9',
+    '#F7F7F7',
+    '#F0F0F0',
+    '#E9E9E9',
+  ],
+  planetColors: [
+    '#E09B00', // Sun - amber
+    '#6C757D', // Moon - gray
+    '#E05252', // Mercury - coral
+    '#1A9E95', // Venus - turquoise
+    '#D62839', // Mars - red
+    '#E07000', // Jupiter - orange
+    '#5F27CD', // Saturn - purple
+    '#0097A7', // Uranus - cyan
+    '#3742FA', // Neptune - blue
+    '#2F3542', // Pluto - charcoal
+  ],
+  aspectColors: {
+    conjunction: '#D62839',
+    opposition: '#2F75C8',
+    trine: '#05866A',
+    square: '#C62828',
+    sextile: '#C99700',
+    semisextile: '#E07000',
+    semisquare: '#E05252',
+    sesquiquadrate: '#E05252',
+    quincunx: '#5F27CD',
+  },
+  backgroundColor: '#FFFFFF',
+  strokeColor: '#2A2D34',
+  strokeWidth: 1,
+  aspectStrokeWidth: 2,
+};
+
+/**
+ * Okabe-Ito colours, told apart with the common forms of colour blindness
+ */
+const okabeIto = {
+  orange: '#E69F00',
+  skyBlue: '#56B4E9',
+  green: '#009E73',
+  yellow: '#F0E442',
+  blue: '#0072B2',
+  vermillion: '#D55E00',
+  purple: '#CC79A7',
+};
+
+/**
+ * High-contrast theme shared by both schemes: colour-blind-safe colours, with hard aspects in
+ * vermillion and soft aspects in blues, so they differ in lightness as well as hue
+ */
+const highContrastColors: VisualConfig = {
+  signColors: [
+    okabeIto.vermillion, // Fire
+    okabeIto.green, // Earth
+    okabeIto.orange, // Air
+    okabeIto.blue, // Water
+    okabeIto.vermillion,
+    okabeIto.green,
+    okabeIto.orange,
+    okabeIto.blue,
+    okabeIto.vermillion,
+    okabeIto.green,
+    okabeIto.orange,
+    okabeIto.blue,
+  ],
+  planetColors: [
+    okabeIto.orange, // Sun
+    okabeIto.skyBlue, // Moon
+    okabeIto.green, // Mercury
+    okabeIto.purple, // Venus
+    okabeIto.vermillion, // Mars
+    okabeIto.orange, // Jupiter
+    okabeIto.blue, // Saturn
+    okabeIto.skyBlue, // Uranus
+    okabeIto.blue, // Neptune
+    okabeIto.purple, // Pluto
+  ],
+  aspectColors: {
+    opposition: okabeIto.vermillion,
+    square: okabeIto.vermillion,
+    semisquare: okabeIto.orange,
+    sesquiquadrate: okabeIto.orange,
+    trine: okabeIto.blue,
+    sextile: okabeIto.skyBlue,
+    semisextile: okabeIto.green,
+    quincunx: okabeIto.purple,
+  },
+  strokeWidth: 1.5,
+  aspectStrokeWidth: 2.5,
+};
+
+const darkHighContrastTheme: VisualConfig = {
+  ...highContrastColors,
+  houseColors: Array.from({ length: 12 }, (_, index) => (index % 2 === 0 ? '#000000' : '#1A1A1A')),
+  aspectColors: { ...highContrastColors.aspectColors, conjunction: '#FFFFFF' },
+  backgroundColor: '#000000',
+  strokeColor: '#FFFFFF',
+};
+
+const lightHighContrastTheme: VisualConfig = {
+  ...highContrastColors,
+  houseColors: Array.from({ length: 12 }, (_, index) => (index % 2 === 0 ? '#FFFFFF' : '#EDEDED')),
+  aspectColors: { ...highContrastColors.aspectColors, conjunction: '#000000' },
+  backgroundColor: '#FFFFFF',
+  strokeColor: '#000000',
+};
+
+/**
+ * A theme's palettes. A theme registered with a single config uses it for both schemes.
+ */
+export type ThemeConfig = VisualConfig | { light?: VisualConfig; dark?: VisualConfig };
+
+const themes = new Map<string, { light: VisualConfig; dark: VisualConfig }>([
+  ['traditional', { light: lightTraditionalTheme, dark: darkTraditionalTheme }],
+  ['modern', { light: lightModernTheme, dark: darkModernTheme }],
+  ['high-contrast', { light: lightHighContrastTheme, dark: darkHighContrastTheme }],
+]);
+
+/**
+ * Register a theme, or replace one, for use as the `theme` option
+ */
+export function registerTheme(name: string, config: ThemeConfig): void {
+  if ('light' in config || 'dark' in config) {
+    const { light, dark } = config as { light?: VisualConfig; dark?: VisualConfig };
+    if (!light && !dark) {
+      throw new Error(`ChartWheel: Theme "${name}" needs a light or dark config`);
+    }
+    themes.set(name, { light: light ?? dark!, dark: dark ?? light! });
+  } else {
+    themes.set(name, { light: config as VisualConfig, dark: config as VisualConfig });
+  }
+}
+
+/**
+ * Names of the built-in and registered themes
+ */
+export function getThemeNames(): string[] {
+  return Array.from(themes.keys());
+}
+
+/**
+ * A theme's palette for a colour scheme. Unknown themes fall back to traditional.
+ */
+export function getThemeConfig(theme: Theme, colorScheme: ColorScheme = 'dark'): VisualConfig {
+  const palettes = themes.get(theme) ?? themes.get('traditional')!;
+  return palettes[colorScheme];
+}
+
+const colorSchemeQuery = '(prefers-color-scheme: dark)';
+
+/**
+ * Resolve 'auto' to the page's preferred colour scheme. Without a browser (server rendering) it is dark.
+ */
+export function resolveColorScheme(colorScheme: ColorScheme | 'auto' = 'dark'): ColorScheme {
+  if (colorScheme !== 'auto') return colorScheme;
+  if (typeof window === 'undefined' || typeof window.matchMedia !== 'function') return 'dark';
+  return window.matchMedia(colorSchemeQuery).matches ? 'dark' : 'light';
+}
+
+/**
+ * Call back when the page's preferred colour scheme changes; returns a function that stops watching
+ */
+export function watchColorScheme(callback: () => void): () => void {
+  if (typeof window === 'undefined' || typeof window.matchMedia !== 'function') return () => {};
+  const query = window.matchMedia(colorSchemeQuery);
+  query.addEventListener('change', callback);
+  return () => query.removeEventListener('change', callback);
+}
@@ -0,0 +1,73 @@
+import { RenderResponse, RingDTO, RingItemDTO } from '@gaia-tools/iris-core';
+
+/**
+ * Animation settings for chart updates
+ */
+export interface ChartTransition {
+  /**
+   * Duration in milliseconds (default: 750)
+   */
+  duration?: number;
+  /**
+   * Easing function mapping 0-1 progress to 0-1 (default: d3.easeCubicInOut)
+   */
+  easing?: (t: number) => number;
+}
+
+function normalizeAngle(angle: number): number {
+  return ((angle % 360) + 360) % 360;
+}
+
+/**
+ * Signed difference from one angle to another along the shortest arc, in (-180, 180]
+ */
+export function shortestAngleDelta(from: number, to: number): number {
+  const delta = normalizeAngle(to - from);
+  return delta > 180 ? delta - 360 : delta;
+}
+
+/**
+ * Interpolate between two longitudes along the shortest arc, so 359° → 1° passes through 0°
+ */
+export function interpolateLon(from: number, to: number, t: number): number {
+  return normalizeAngle(from + shortestAngleDelta(from, to) * t);
+}
+
+/**
+ * Interpolate a rotation along the shortest arc. Unlike longitudes, the result is not normalized,
+ * so it lands exactly on the target at t = 1.
+ */
+export function interpolateRotation(from: number, to: number, t: number): number {
+  return t >= 1 ? to : from + shortestAngleDelta(from, to) * t;
+}
+
+function interpolateItem(from: RingItemDTO | undefined, to: RingItemDTO, t: number): RingItemDTO {
+  if (!from || from.kind !== to.kind) return to;
+  if ((to.kind === 'planet' || to.kind === 'houseCusp') && (from.kind === 'planet' || from.kind === 'houseCusp')) {
+    return from.lon === to.lon ? to : { ...to, lon: interpolateLon(from.lon, to.lon, t) };
+  }
+  return to;
+}
+
+function interpolateRing(from: RingDTO | undefined, to: RingDTO, t: number): RingDTO {
+  if (!from?.items || !to.items) return to;
+  const fromItems = new Map(from.items.map((item) => [item.id, item]));
+  return { ...to, items: to.items.map((item) => interpolateItem(fromItems.get(item.id), item, t)) };
+}
+
+/**
+ * Render data part of the way from one chart state to another.
+ * Planets and house cusps present in both (matched by ring and item id) move along the shortest arc;
+ * everything else is taken from the target state.
+ */
+export function interpolateRenderData(from: RenderResponse, to: RenderResponse, t: number): RenderResponse {
+  if (t >= 1) return to;
+  const fromRings = new Map(from.wheel.rings.map((ring) => [ring.id, ring]));
+  return {
+    ...to,
+    wheel: {
+      ...to.wheel,
+      rings: to.wheel.rings.map((ring) => interpolateRing(fromRings.get(ring.id), ring, t)),
+    },
+  };
+}
@@ -0,0 +1,53 @@
+import { RenderResponse } from '@gaia-tools/iris-core';
+import { formatDegreesMinutes } from './chartWheelHelpers';
+
+export type ZodiacType = 'tropical' | 'sidereal';
+
+/**
+ * The zodiac a chart is drawn in. Positions on the wheel are tropical (ecliptic) longitudes;
+ * a sidereal zodiac starts its signs the ayanamsa further along.
+ */
+export interface ZodiacFrame {
+  type: ZodiacType;
+  /**
+   * Longitude on the wheel where 0° Aries of the zodiac lies (0 for tropical)
+   */
+  offset: number;
+  /**
+   * Ayanamsa name from the chart settings, e.g. "lahiri"
+   */
+  ayanamsa: string | null;
+}
+
+/**
+ * Read the chart's zodiac from its settings. Sidereal responses carry the ayanamsa in coordinateSystem.zeroPoint.offsetDegrees.
+ */
+export function getZodiacFrame(renderData: RenderResponse): ZodiacFrame {
+  if (renderData.settings?.zodiacType !== 'sidereal') {
+    return { type: 'tropical', offset: 0, ayanamsa: null };
+  }
+  return {
+    type: 'sidereal',
+    offset: renderData.coordinateSystem?.zeroPoint?.offsetDegrees ?? 0,
+    ayanamsa: renderData.settings.ayanamsa ?? null,
+  };
+}
+
+/**
+ * Longitude within the chart's zodiac, for labels: sidereal charts subtract the ayanamsa
+ */
+export function toZodiacLon(lon: number, renderData: RenderResponse): number {
+  const zodiacLon = lon - getZodiacFrame(renderData).offset;
+  return ((zodiacLon % 360) + 360) % 360;
+}
+
+/**
+ * Name of the chart's zodiac, e.g. "Tropical" or "Sidereal (Lahiri 23°51')"
+ */
+export function formatZodiacLabel(frame: ZodiacFrame): string {
+  if (frame.type === 'tropical') return 'Tropical';
+  const ayanamsa = frame.ayanamsa
+    ? `${frame.ayanamsa.charAt(0).toUpperCase()}${frame.ayanamsa.slice(1).replace(/_/g, ' ')} `
+    : '';
+  return `Sidereal (${ayanamsa}${formatDegreesMinutes(frame.offset)})`;
+}
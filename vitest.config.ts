@@ -8,6 +8,10 @@ export default defineConfig({
     environment: 'jsdom',
     setupFiles: ['./src/test/setup.ts'],
     include: ['src/**/*.{test,spec}.{ts,tsx}'],
+    // Exports embed the chart rules of the stylesheet, imported with ?raw
+    css: {
+      include: [/ChartWheel\.css/],
+    },
     coverage: {
       provider: 'v8',
       reporter: ['text', 'json', 'html'],